@@ -83,9 +83,14 @@ describe('End-to-End Query Tests', () => {
       const query = `MATCH (t:task:active) RETURN t`;
 
       const result = engine.executeQuery(graph, query);
-      expect(result.success).toBe(false);
-      expect(result.error).toMatch(/single label supported, but got task,active/g)
+      expect(result.success).toBe(true);
       expect(result.matchCount).toBe(0); // None match both task AND active as types
+
+      graph.addNodeLabel('task1', 'active');
+      const labeledResult = engine.executeQuery(graph, query);
+      expect(labeledResult.success).toBe(true);
+      expect(labeledResult.matchCount).toBe(1);
+      expect(labeledResult.query?.rows[0][0].value.id).toBe('task1');
     });
 
     test('Match with property constraints', () => {
@@ -438,15 +443,21 @@ describe('End-to-End Query Tests', () => {
       expect(nodes[0].data.name).toBe('New Project');
     });
 
-    test('Fail when trying to create a node with multiple types', () => {
+    test('Create a node with multiple types', () => {
       const query = `
         CREATE (n:task:priority {title: "Important Task", due: "2023-12-31"})
         RETURN n
       `;
       const result = engine.executeQuery(graph, query);
 
-      expect(result.success).toBe(false);
-      expect(result.error).toMatch(/Only a single label supported, but got task,priority/)
+      expect(result.success).toBe(true);
+      const created = result.query?.rows[0][0].value as Node;
+      expect(created.labels).toEqual(['task', 'priority']);
+      expect(graph.getNodeLabels(created.id)).toEqual(['task', 'priority']);
+
+      // The new node is matched by each of its labels
+      expect(engine.executeQuery(graph, 'MATCH (n:priority) RETURN n').matchCount).toBe(1);
+      expect(engine.executeQuery(graph, 'MATCH (n:task:priority) RETURN n').matchCount).toBe(1);
     });
 
     test('Create a relationship between existing nodes', () => {
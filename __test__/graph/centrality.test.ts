@@ -0,0 +1,179 @@
+import {
+  Graph,
+  betweennessCentrality,
+  closenessCentrality,
+  degreeCentrality,
+  pageRank
+} from '@/graph';
+
+describe('Centrality', () => {
+  let graph: Graph<{ name: string; score?: number }, { weight?: number }>;
+
+  beforeEach(() => {
+    graph = new Graph();
+    // a -> b -> c -> d, plus e -> b
+    for (const id of ['a', 'b', 'c', 'd', 'e']) {
+      graph.addNode(id, 'Page', { name: id });
+    }
+    graph.addEdge('a', 'b', 'LINKS', {});
+    graph.addEdge('b', 'c', 'LINKS', {});
+    graph.addEdge('c', 'd', 'LINKS', {});
+    graph.addEdge('e', 'b', 'CITES', {});
+  });
+
+  describe('pageRank', () => {
+    it('should give equal ranks on a cycle', () => {
+      const cycle = new Graph();
+      for (const id of ['x', 'y', 'z']) {
+        cycle.addNode(id, 'Page', {});
+      }
+      cycle.addEdge('x', 'y', 'LINKS', {});
+      cycle.addEdge('y', 'z', 'LINKS', {});
+      cycle.addEdge('z', 'x', 'LINKS', {});
+
+      for (const rank of pageRank(cycle).values()) {
+        expect(rank).toBeCloseTo(1 / 3, 6);
+      }
+    });
+
+    it('should favour linked-to nodes and sum to one', () => {
+      const ranks = pageRank(graph);
+      const total = [...ranks.values()].reduce((sum, rank) => sum + rank, 0);
+
+      expect(total).toBeCloseTo(1, 6);
+      expect(ranks.get('b')!).toBeGreaterThan(ranks.get('a')!);
+      expect(ranks.get('d')!).toBeGreaterThan(ranks.get('c')!);
+      expect(ranks.get('a')).toBeCloseTo(ranks.get('e')!, 10);
+    });
+
+    it('should match known values for a small graph', () => {
+      // Reference values computed with NetworkX's pagerank
+      const small = new Graph();
+      for (const id of ['1', '2', '3']) {
+        small.addNode(id, 'Page', {});
+      }
+      small.addEdge('1', '2', 'LINKS', {});
+      small.addEdge('1', '3', 'LINKS', {});
+      small.addEdge('2', '3', 'LINKS', {});
+      small.addEdge('3', '1', 'LINKS', {});
+
+      const ranks = pageRank(small, { tolerance: 1e-10 });
+
+      expect(ranks.get('1')).toBeCloseTo(0.3878, 4);
+      expect(ranks.get('2')).toBeCloseTo(0.2148, 4);
+      expect(ranks.get('3')).toBeCloseTo(0.3974, 4);
+    });
+
+    it('should send rank along heavier edges', () => {
+      graph.addNode('f', 'Page', { name: 'f' });
+      graph.addEdge('a', 'f', 'LINKS', { weight: 9 });
+      graph.updateEdge('a', 'b', 'LINKS', { weight: 1 });
+      graph.updateEdge('b', 'c', 'LINKS', { weight: 1 });
+      graph.updateEdge('c', 'd', 'LINKS', { weight: 1 });
+      graph.updateEdge('e', 'b', 'CITES', { weight: 1 });
+
+      const unweighted = pageRank(graph);
+      const weighted = pageRank(graph, { weightProperty: 'weight' });
+
+      expect(weighted.get('f')!).toBeGreaterThan(unweighted.get('f')!);
+    });
+
+    it('should reject invalid weights and damping factors', () => {
+      expect(() => pageRank(graph, { weightProperty: 'weight' })).toThrow('Invalid weight undefined');
+      expect(() => pageRank(graph, { dampingFactor: 1.5 })).toThrow('Invalid damping factor 1.5');
+    });
+
+    it('should stop after the maximum number of iterations', () => {
+      const once = pageRank(graph, { maxIterations: 1 });
+      const converged = pageRank(graph);
+
+      expect(once.get('d')).not.toBeCloseTo(converged.get('d')!, 6);
+    });
+
+    it('should only follow the given relationship types', () => {
+      const ranks = pageRank(graph, { relationshipTypes: ['CITES'] });
+
+      expect(ranks.get('b')!).toBeGreaterThan(ranks.get('c')!);
+      expect(ranks.get('c')).toBeCloseTo(ranks.get('d')!, 10);
+    });
+
+    it('should return nothing for an empty graph', () => {
+      expect(pageRank(new Graph()).size).toBe(0);
+    });
+  });
+
+  describe('degreeCentrality', () => {
+    it('should count edges in each direction', () => {
+      expect(Object.fromEntries(degreeCentrality(graph))).toEqual({ a: 1, b: 3, c: 2, d: 1, e: 1 });
+      expect(Object.fromEntries(degreeCentrality(graph, { direction: 'incoming' })))
+        .toEqual({ a: 0, b: 2, c: 1, d: 1, e: 0 });
+      expect(Object.fromEntries(degreeCentrality(graph, { direction: 'outgoing', relationshipTypes: ['LINKS'] })))
+        .toEqual({ a: 1, b: 1, c: 1, d: 0, e: 0 });
+    });
+
+    it('should normalize by the number of other nodes', () => {
+      expect(degreeCentrality(graph, { normalized: true }).get('b')).toBe(0.75);
+    });
+  });
+
+  describe('betweennessCentrality', () => {
+    it('should count shortest paths through each node', () => {
+      // b lies on a-c, a-d, e-c, e-d; c lies on a-d, b-d, e-d
+      expect(Object.fromEntries(betweennessCentrality(graph))).toEqual({ a: 0, b: 4, c: 3, d: 0, e: 0 });
+    });
+
+    it('should ignore direction with both and normalize', () => {
+      const scores = betweennessCentrality(graph, { direction: 'both' });
+      // Undirected: b separates {a, e} from {c, d} and a from e
+      expect(scores.get('b')).toBe(5);
+      expect(scores.get('c')).toBe(3);
+
+      const normalized = betweennessCentrality(graph, { direction: 'both', normalized: true });
+      expect(normalized.get('b')).toBeCloseTo(5 / 6, 10);
+    });
+
+    it('should split credit between equally short paths', () => {
+      const diamond = new Graph();
+      for (const id of ['s', 'l', 'r', 't']) {
+        diamond.addNode(id, 'Node', {});
+      }
+      diamond.addEdge('s', 'l', 'E', {});
+      diamond.addEdge('s', 'r', 'E', {});
+      diamond.addEdge('l', 't', 'E', {});
+      diamond.addEdge('r', 't', 'E', {});
+
+      const scores = betweennessCentrality(diamond);
+      expect(scores.get('l')).toBe(0.5);
+      expect(scores.get('r')).toBe(0.5);
+    });
+  });
+
+  describe('closenessCentrality', () => {
+    it('should score nodes by distance to the nodes they reach', () => {
+      const scores = closenessCentrality(graph, { direction: 'both' });
+
+      // b reaches everything within 1 or 2 hops: 4 / (1 + 1 + 1 + 2)
+      expect(scores.get('b')).toBeCloseTo(4 / 5, 10);
+      expect(scores.get('d')).toBeCloseTo(4 / 9, 10);
+    });
+
+    it('should scale by the fraction of nodes reached', () => {
+      const scores = closenessCentrality(graph);
+
+      // c only reaches d: (1 / 1) * (1 / 4)
+      expect(scores.get('c')).toBeCloseTo(0.25, 10);
+      expect(scores.get('d')).toBe(0);
+    });
+  });
+
+  it('should write results into node data as one change set', () => {
+    const changeSets: unknown[] = [];
+    graph.subscribe(changes => changeSets.push(changes));
+
+    const scores = degreeCentrality(graph, { writeProperty: 'score' });
+
+    expect(graph.getNode('b')!.data).toEqual({ name: 'b', score: 3 });
+    expect(graph.getAllNodes().map(node => node.data.score)).toEqual([...scores.values()]);
+    expect(changeSets).toHaveLength(1);
+  });
+});
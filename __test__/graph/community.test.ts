@@ -0,0 +1,136 @@
+import { Graph, labelPropagation, louvain, modularity } from '@/graph';
+
+describe('Community detection', () => {
+  let graph: Graph<{ topic?: number }, { weight?: number }>;
+
+  beforeEach(() => {
+    // Two cliques of four, joined by a single bridge d - e
+    graph = new Graph();
+    for (const id of ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h']) {
+      graph.addNode(id, 'Note', {});
+    }
+    for (const clique of [['a', 'b', 'c', 'd'], ['e', 'f', 'g', 'h']]) {
+      for (let i = 0; i < clique.length; i++) {
+        for (let j = i + 1; j < clique.length; j++) {
+          graph.addEdge(clique[i], clique[j], 'LINKS', {});
+        }
+      }
+    }
+    graph.addEdge('d', 'e', 'MENTIONS', {});
+  });
+
+  // Each clique holds 12 of the 26 edge ends inside and half of all degree
+  const twoCliqueModularity = 2 * (12 / 26 - (13 / 26) ** 2);
+
+  describe.each([
+    ['louvain', louvain],
+    ['labelPropagation', labelPropagation]
+  ] as const)('%s', (_, detect) => {
+    it('should find the two cliques', () => {
+      const { membership, sizes, modularity: score } = detect(graph, { seed: 42 });
+
+      expect(Object.fromEntries(membership)).toEqual({ a: 0, b: 0, c: 0, d: 0, e: 1, f: 1, g: 1, h: 1 });
+      expect(sizes).toEqual([4, 4]);
+      expect(score).toBeCloseTo(twoCliqueModularity, 10);
+    });
+
+    it('should give the same result for the same seed', () => {
+      const random = new Graph();
+      let seed = 3;
+      const next = () => (seed = (seed * 16807) % 2147483647) / 2147483647;
+      for (let i = 0; i < 60; i++) {
+        random.addNode(`n${i}`, 'Note', {});
+      }
+      for (let i = 0; i < 120; i++) {
+        const source = `n${Math.floor(next() * 60)}`;
+        const target = `n${Math.floor(next() * 60)}`;
+        if (!random.hasEdge(source, target, 'LINKS')) {
+          random.addEdge(source, target, 'LINKS', {});
+        }
+      }
+
+      expect(detect(random, { seed: 7 })).toEqual(detect(random, { seed: 7 }));
+    });
+
+    it('should write community numbers into node data', () => {
+      detect(graph, { seed: 1, writeProperty: 'topic' });
+
+      expect(graph.getAllNodes().map(node => node.data.topic)).toEqual([0, 0, 0, 0, 1, 1, 1, 1]);
+    });
+
+    it('should leave every node alone in a graph without edges', () => {
+      const empty = new Graph();
+      empty.addNode('x', 'Note', {});
+      empty.addNode('y', 'Note', {});
+
+      expect(detect(empty)).toEqual({ membership: new Map([['x', 0], ['y', 1]]), sizes: [1, 1], modularity: 0 });
+    });
+  });
+
+  describe('louvain', () => {
+    it('should follow edge weights', () => {
+      // A ring of six where either odd or even links are heavy
+      const ring = new Graph<Record<string, never>, { odd: number; even: number }>();
+      for (let i = 0; i < 6; i++) {
+        ring.addNode(`n${i}`, 'Note', {});
+      }
+      for (let i = 0; i < 6; i++) {
+        const heavyOdd = i % 2 === 1;
+        ring.addEdge(`n${i}`, `n${(i + 1) % 6}`, 'LINKS', { odd: heavyOdd ? 10 : 1, even: heavyOdd ? 1 : 10 });
+      }
+
+      expect(louvain(ring, { seed: 5, weightProperty: 'even' }).membership.get('n1')).toBe(0);
+      expect(louvain(ring, { seed: 5, weightProperty: 'odd' }).membership.get('n1')).toBe(1);
+      expect(louvain(ring, { seed: 5, weightProperty: 'odd' }).membership.get('n2')).toBe(1);
+    });
+
+    it('should only use the given relationship types', () => {
+      graph.addEdge('a', 'e', 'MENTIONS', {});
+      const { sizes } = louvain(graph, { seed: 3, relationshipTypes: ['MENTIONS'] });
+
+      // Only a, d and e are connected by MENTIONS
+      expect(sizes.reduce((sum, size) => sum + size, 0)).toBe(8);
+      expect(sizes.filter(size => size === 1)).toHaveLength(5);
+    });
+
+    it('should merge communities across levels', () => {
+      // A ring of ten triangles, each linked to the next by one edge
+      const ring = new Graph();
+      for (let t = 0; t < 10; t++) {
+        for (let i = 0; i < 3; i++) {
+          ring.addNode(`t${t}n${i}`, 'Note', {});
+        }
+        ring.addEdge(`t${t}n0`, `t${t}n1`, 'LINKS', {});
+        ring.addEdge(`t${t}n1`, `t${t}n2`, 'LINKS', {});
+        ring.addEdge(`t${t}n2`, `t${t}n0`, 'LINKS', {});
+      }
+      for (let t = 0; t < 10; t++) {
+        ring.addEdge(`t${t}n2`, `t${(t + 1) % 10}n0`, 'BRIDGE', {});
+      }
+
+      const result = louvain(ring, { seed: 11 });
+
+      expect(result.modularity).toBeCloseTo(modularity(ring, result.membership), 10);
+      expect(result.modularity).toBeGreaterThan(0.6);
+      for (let t = 0; t < 10; t++) {
+        expect(result.membership.get(`t${t}n0`)).toBe(result.membership.get(`t${t}n1`));
+        expect(result.membership.get(`t${t}n1`)).toBe(result.membership.get(`t${t}n2`));
+      }
+    });
+  });
+
+  describe('modularity', () => {
+    it('should score given communities', () => {
+      const split = new Map([...'abcd'].map(id => [id, 0] as [string, number])
+        .concat([...'efgh'].map(id => [id, 1] as [string, number])));
+
+      expect(modularity(graph, split)).toBeCloseTo(twoCliqueModularity, 10);
+      expect(modularity(graph, new Map(graph.getAllNodes().map(node => [node.id, 0])))).toBeCloseTo(0, 10);
+      expect(modularity(graph, new Map())).toBeLessThan(0);
+    });
+
+    it('should reject invalid weights', () => {
+      expect(() => modularity(graph, new Map(), { weightProperty: 'weight' })).toThrow('Invalid weight undefined');
+    });
+  });
+});
@@ -0,0 +1,96 @@
+import { Graph } from '@/graph';
+
+describe('Connected components', () => {
+  let graph: Graph<{ name: string }, Record<string, never>>;
+
+  beforeEach(() => {
+    graph = new Graph();
+    // a -> b -> c -> a (cycle), c -> d, e -> d, f alone, g -LINKS- h
+    for (const id of ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h']) {
+      graph.addNode(id, 'Page', { name: id });
+    }
+    graph.addEdge('a', 'b', 'LINKS', {});
+    graph.addEdge('b', 'c', 'LINKS', {});
+    graph.addEdge('c', 'a', 'LINKS', {});
+    graph.addEdge('c', 'd', 'CITES', {});
+    graph.addEdge('e', 'd', 'LINKS', {});
+    graph.addEdge('h', 'g', 'LINKS', {});
+  });
+
+  describe('weaklyConnectedComponents', () => {
+    it('should group nodes connected in either direction', () => {
+      const { membership, sizes } = graph.weaklyConnectedComponents();
+
+      expect(Object.fromEntries(membership)).toEqual({ a: 0, b: 0, c: 0, d: 0, e: 0, f: 1, g: 2, h: 2 });
+      expect(sizes).toEqual([5, 1, 2]);
+    });
+
+    it('should only follow the given relationship types', () => {
+      const { membership, sizes } = graph.weaklyConnectedComponents({ relationshipTypes: ['LINKS'] });
+
+      expect(Object.fromEntries(membership)).toEqual({ a: 0, b: 0, c: 0, d: 1, e: 1, f: 2, g: 3, h: 3 });
+      expect(sizes).toEqual([3, 2, 1, 2]);
+    });
+
+    it('should return nothing for an empty graph', () => {
+      const { membership, sizes } = new Graph().weaklyConnectedComponents();
+
+      expect(membership.size).toBe(0);
+      expect(sizes).toEqual([]);
+    });
+  });
+
+  describe('stronglyConnectedComponents', () => {
+    it.each(['tarjan', 'kosaraju'] as const)('should find mutually reachable groups with %s', algorithm => {
+      const { membership, sizes } = graph.stronglyConnectedComponents({ algorithm });
+
+      expect(Object.fromEntries(membership)).toEqual({ a: 0, b: 0, c: 0, d: 1, e: 2, f: 3, g: 4, h: 5 });
+      expect(sizes).toEqual([3, 1, 1, 1, 1, 1]);
+    });
+
+    it('should only follow the given relationship types', () => {
+      graph.addEdge('d', 'c', 'CITES', {});
+
+      expect(graph.stronglyConnectedComponents().sizes[0]).toBe(4);
+      expect(graph.stronglyConnectedComponents({ relationshipTypes: ['LINKS'] }).sizes[0]).toBe(3);
+    });
+
+    it('should agree between algorithms on a random graph', () => {
+      const random = new Graph();
+      let seed = 7;
+      const next = () => (seed = (seed * 16807) % 2147483647) / 2147483647;
+      for (let i = 0; i < 200; i++) {
+        random.addNode(`n${i}`, 'Node', {});
+      }
+      for (let i = 0; i < 300; i++) {
+        const source = `n${Math.floor(next() * 200)}`;
+        const target = `n${Math.floor(next() * 200)}`;
+        if (!random.hasEdge(source, target, 'LINK')) {
+          random.addEdge(source, target, 'LINK', {});
+        }
+      }
+
+      const tarjan = random.stronglyConnectedComponents({ algorithm: 'tarjan' });
+      const kosaraju = random.stronglyConnectedComponents({ algorithm: 'kosaraju' });
+
+      expect(kosaraju).toEqual(tarjan);
+      expect(tarjan.sizes.reduce((sum, size) => sum + size, 0)).toBe(200);
+      expect(tarjan.sizes.some(size => size > 1)).toBe(true);
+    });
+
+    it('should handle deep graphs without overflowing the stack', () => {
+      const chain = new Graph();
+      const length = 20000;
+      for (let i = 0; i < length; i++) {
+        chain.addNode(`n${i}`, 'Step', {});
+        if (i > 0) {
+          chain.addEdge(`n${i - 1}`, `n${i}`, 'NEXT', {});
+        }
+      }
+      chain.addEdge(`n${length - 1}`, 'n0', 'NEXT', {});
+
+      expect(chain.stronglyConnectedComponents().sizes).toEqual([length]);
+      expect(chain.stronglyConnectedComponents({ algorithm: 'kosaraju' }).sizes).toEqual([length]);
+    });
+  });
+});
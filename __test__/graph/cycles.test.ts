@@ -0,0 +1,148 @@
+import { CycleDetectedError, Graph, Path } from '@/graph';
+
+const ids = (path: Path) => path.nodes.map(n => n.id);
+
+describe('Cycles and topological order', () => {
+  let graph: Graph<{ title: string }, Record<string, never>>;
+
+  beforeEach(() => {
+    graph = new Graph();
+    // deploy DEPENDS_ON build, build DEPENDS_ON compile, test DEPENDS_ON compile
+    for (const id of ['deploy', 'test', 'build', 'compile', 'docs']) {
+      graph.addNode(id, 'Task', { title: id });
+    }
+    graph.addEdge('deploy', 'build', 'DEPENDS_ON', {});
+    graph.addEdge('deploy', 'test', 'DEPENDS_ON', {});
+    graph.addEdge('build', 'compile', 'DEPENDS_ON', {});
+    graph.addEdge('test', 'compile', 'DEPENDS_ON', {});
+  });
+
+  describe('topologicalSort', () => {
+    it('should order sources before targets by default', () => {
+      const order = graph.topologicalSort().map(n => n.id);
+
+      expect(order).toEqual(['deploy', 'docs', 'build', 'test', 'compile']);
+    });
+
+    it('should order targets first for incoming direction', () => {
+      const order = graph.topologicalSort({ direction: 'incoming' }).map(n => n.id);
+
+      expect(order).toEqual(['compile', 'docs', 'build', 'test', 'deploy']);
+    });
+
+    it('should only consider the given relationship types', () => {
+      graph.addEdge('compile', 'deploy', 'NOTIFIES', {});
+
+      expect(() => graph.topologicalSort()).toThrow(CycleDetectedError);
+      expect(graph.topologicalSort({ relationshipTypes: ['DEPENDS_ON'] })).toHaveLength(5);
+    });
+
+    it('should report a concrete cycle', () => {
+      graph.addEdge('compile', 'build', 'DEPENDS_ON', {});
+
+      let error: CycleDetectedError | undefined;
+      try {
+        graph.topologicalSort();
+      } catch (e) {
+        error = e as CycleDetectedError;
+      }
+
+      expect(error).toBeInstanceOf(CycleDetectedError);
+      expect(error?.name).toBe('CycleDetectedError');
+      expect(ids(error!.cycle)).toEqual(['build', 'compile', 'build']);
+      expect(error!.cycle.edges.map(e => `${e.source}->${e.target}`)).toEqual(['build->compile', 'compile->build']);
+      expect(error?.message).toContain('(build)-[:DEPENDS_ON]->(compile)-[:DEPENDS_ON]->(build)');
+    });
+
+    it('should report cycles against the edges for incoming direction', () => {
+      graph.addEdge('compile', 'deploy', 'DEPENDS_ON', {});
+
+      let error: CycleDetectedError | undefined;
+      try {
+        graph.topologicalSort({ direction: 'incoming' });
+      } catch (e) {
+        error = e as CycleDetectedError;
+      }
+
+      const nodes = ids(error!.cycle);
+      expect(nodes[0]).toBe(nodes[nodes.length - 1]);
+      error!.cycle.edges.forEach((edge, i) => {
+        // Each step goes from an edge's target to its source
+        expect(edge.target).toBe(nodes[i]);
+        expect(edge.source).toBe(nodes[i + 1]);
+      });
+      expect(error?.message).toContain('<-[:DEPENDS_ON]-');
+    });
+
+    it('should treat a self-loop as a cycle', () => {
+      graph.addEdge('docs', 'docs', 'DEPENDS_ON', {});
+
+      expect(() => graph.topologicalSort()).toThrow('(docs)-[:DEPENDS_ON]->(docs)');
+    });
+  });
+
+  describe('findCycles', () => {
+    it('should return no cycles for an acyclic graph', () => {
+      expect(graph.findCycles()).toEqual([]);
+    });
+
+    it('should enumerate every elementary cycle once', () => {
+      graph.addEdge('compile', 'deploy', 'DEPENDS_ON', {});
+      graph.addEdge('compile', 'test', 'DEPENDS_ON', {});
+
+      const cycles = graph.findCycles().map(ids);
+
+      expect(cycles).toHaveLength(3);
+      expect(cycles).toEqual(expect.arrayContaining([
+        ['deploy', 'build', 'compile', 'deploy'],
+        ['deploy', 'test', 'compile', 'deploy'],
+        ['test', 'compile', 'test']
+      ]));
+    });
+
+    it('should find every cycle of a complete graph', () => {
+      const complete = new Graph();
+      const size = 5;
+      for (let i = 0; i < size; i++) {
+        complete.addNode(`n${i}`, 'Node', {});
+      }
+      for (let i = 0; i < size; i++) {
+        for (let j = 0; j < size; j++) {
+          if (i !== j) {
+            complete.addEdge(`n${i}`, `n${j}`, 'LINK', {});
+          }
+        }
+      }
+
+      // Sum over k = 2..5 of C(5, k) * (k - 1)!
+      const cycles = complete.findCycles();
+      expect(cycles).toHaveLength(10 + 20 + 30 + 24);
+      expect(new Set(cycles.map(c => ids(c).join())).size).toBe(cycles.length);
+    });
+
+    it('should restrict cycles to the given relationship types', () => {
+      graph.addEdge('compile', 'deploy', 'NOTIFIES', {});
+      graph.addEdge('docs', 'docs', 'DEPENDS_ON', {});
+
+      expect(graph.findCycles({ relationshipTypes: ['DEPENDS_ON'] }).map(ids)).toEqual([['docs', 'docs']]);
+      expect(graph.findCycles({ relationshipTypes: ['NOTIFIES'] })).toEqual([]);
+      expect(graph.findCycles()).toHaveLength(3);
+    });
+
+    it('should report cycles through parallel edges separately', () => {
+      graph.addEdge('compile', 'build', 'DEPENDS_ON', {});
+      graph.addEdge('compile', 'build', 'TRIGGERS', {});
+
+      const cycles = graph.findCycles();
+      expect(cycles.map(ids)).toEqual([['build', 'compile', 'build'], ['build', 'compile', 'build']]);
+      expect(cycles.map(c => c.edges[1].label)).toEqual(['DEPENDS_ON', 'TRIGGERS']);
+    });
+
+    it('should stop after maxCycles', () => {
+      graph.addEdge('compile', 'deploy', 'DEPENDS_ON', {});
+      graph.addEdge('compile', 'test', 'DEPENDS_ON', {});
+
+      expect(graph.findCycles({ maxCycles: 2 })).toHaveLength(2);
+    });
+  });
+});
@@ -0,0 +1,235 @@
+import { ConstraintViolationError, diffGraphs, formatPatch, Graph, GraphPatch, PatchConflictError } from '@/graph';
+
+interface NodeData {
+  name: string;
+  age?: number;
+  email?: string;
+}
+
+describe('Graph diff and patch', () => {
+  let before: Graph<NodeData, { weight: number }>;
+  let after: Graph<NodeData, { weight: number }>;
+
+  beforeEach(() => {
+    before = new Graph();
+    before.addNode('a', 'Person', { name: 'Alice', email: 'alice@example.com' });
+    before.addNode('b', 'Person', { name: 'Bob' });
+    before.addNode('d', 'Person', { name: 'Dan' });
+    before.addEdge('a', 'b', 'KNOWS', { weight: 1 });
+    before.addEdge('b', 'd', 'KNOWS', { weight: 3 });
+
+    after = new Graph();
+    after.addNode('a', ['Person', 'Admin'], { name: 'Alice Smith', age: 30 });
+    after.addNode('b', 'Person', { name: 'Bob' });
+    after.addNode('c', 'Person', { name: 'Carol' });
+    after.addEdge('a', 'b', 'KNOWS', { weight: 5 });
+    after.addEdge('b', 'c', 'KNOWS', { weight: 2 });
+  });
+
+  describe('diffGraphs', () => {
+    it('should report added, removed and changed elements', () => {
+      expect(diffGraphs(before, after)).toEqual({
+        addedNodes: [{ id: 'c', labels: ['Person'], data: { name: 'Carol' } }],
+        removedNodes: [{ id: 'd', labels: ['Person'], data: { name: 'Dan' } }],
+        changedNodes: [{
+          id: 'a',
+          labels: { before: ['Person'], after: ['Person', 'Admin'] },
+          changes: [
+            { property: 'name', type: 'changed', before: 'Alice', after: 'Alice Smith' },
+            { property: 'email', type: 'removed', before: 'alice@example.com' },
+            { property: 'age', type: 'added', after: 30 }
+          ]
+        }],
+        addedEdges: [{ source: 'b', target: 'c', label: 'KNOWS', data: { weight: 2 } }],
+        removedEdges: [{ source: 'b', target: 'd', label: 'KNOWS', data: { weight: 3 } }],
+        changedEdges: [{
+          source: 'a',
+          target: 'b',
+          label: 'KNOWS',
+          changes: [{ property: 'weight', type: 'changed', before: 1, after: 5 }]
+        }]
+      });
+    });
+
+    it('should return an empty patch for equal graphs', () => {
+      const patch = diffGraphs(before, before.filter(() => true));
+
+      expect(patch).toEqual({
+        addedNodes: [],
+        removedNodes: [],
+        changedNodes: [],
+        addedEdges: [],
+        removedEdges: [],
+        changedEdges: []
+      });
+      expect(formatPatch(patch)).toBe('No changes');
+    });
+
+    it('should compare nested values deeply and data that is not an object as a whole', () => {
+      const a = new Graph<unknown>();
+      a.addNode('x', 'Item', { tags: ['a', 'b'] });
+      a.addNode('y', 'Item', 1);
+      const b = new Graph<unknown>();
+      b.addNode('x', 'Item', { tags: ['a', 'b'] });
+      b.addNode('y', 'Item', 2);
+
+      expect(diffGraphs(a, b).changedNodes).toEqual([
+        { id: 'y', changes: [{ property: '', type: 'changed', before: 1, after: 2 }] }
+      ]);
+    });
+
+    it('should not be affected by later changes to the graphs', () => {
+      const patch = diffGraphs(before, after);
+      after.getNode('c')!.data.name = 'Changed';
+
+      expect(patch.addedNodes[0].data.name).toBe('Carol');
+    });
+  });
+
+  describe('applyPatch', () => {
+    it('should turn the first graph into the second', () => {
+      const conflicts = before.applyPatch(diffGraphs(before, after));
+
+      expect(conflicts).toEqual([]);
+      expect(before.toJSON()).toEqual(after.toJSON());
+      expect(diffGraphs(before, after).changedNodes).toEqual([]);
+    });
+
+    it('should round-trip the patch through JSON', () => {
+      const patch = JSON.parse(JSON.stringify(diffGraphs(before, after))) as GraphPatch<NodeData, { weight: number }>;
+
+      before.applyPatch(patch);
+
+      expect(before.toJSON()).toEqual(after.toJSON());
+    });
+
+    it('should revert a change with the reverse patch', () => {
+      const original = before.filter(() => true);
+      before.applyPatch(diffGraphs(before, after));
+
+      before.applyPatch(diffGraphs(after, original));
+
+      expect(formatPatch(diffGraphs(before, original))).toBe('No changes');
+    });
+
+    it('should publish the patch as a single change set', () => {
+      const changeSets: unknown[] = [];
+      before.subscribe(changes => changeSets.push(changes));
+
+      before.applyPatch(diffGraphs(before, after));
+
+      expect(changeSets).toHaveLength(1);
+    });
+
+    it('should refuse a conflicting patch in strict mode without changing the graph', () => {
+      const patch = diffGraphs(before, after);
+      before.updateNodeData('a', { name: 'Alicia' });
+      before.addNode('c', 'Person', { name: 'Someone else' });
+      const snapshot = before.toJSON();
+
+      let error: unknown;
+      try {
+        before.applyPatch(patch);
+      } catch (e) {
+        error = e;
+      }
+
+      expect(error).toBeInstanceOf(PatchConflictError);
+      expect((error as PatchConflictError).conflicts).toEqual([
+        'Node "c" to add already exists',
+        'Property "name" of node "a" is "Alicia", expected "Alice"',
+        'Property "email" of node "a" doesn\'t exist'
+      ]);
+      expect(before.toJSON()).toEqual(snapshot);
+    });
+
+    it('should report edges left behind by a node removal as conflicts', () => {
+      const patch = diffGraphs(before, after);
+      before.addEdge('d', 'a', 'KNOWS', { weight: 4 });
+
+      expect(() => before.applyPatch(patch)).toThrow(
+        'Node "d" to remove has edges the patch doesn\'t remove'
+      );
+    });
+
+    it('should apply conflicting patches as well as possible when not strict', () => {
+      const patch = diffGraphs(before, after);
+      before.updateNodeData('a', { name: 'Alicia', email: 'alice@example.com' });
+      before.removeEdge('a', 'b', 'KNOWS');
+
+      const conflicts = before.applyPatch(patch, { strict: false });
+
+      expect(conflicts).toEqual([
+        'Property "name" of node "a" is "Alicia", expected "Alice"',
+        'Edge (a)-[:KNOWS]->(b) to change doesn\'t exist'
+      ]);
+      expect(before.getNode('a')!.data).toEqual({ name: 'Alice Smith', age: 30 });
+      expect(before.getNode('a')!.labels).toEqual(['Person', 'Admin']);
+      expect(before.hasEdge('a', 'b', 'KNOWS')).toBe(false);
+      expect(before.getEdge('b', 'c', 'KNOWS')!.data).toEqual({ weight: 2 });
+      expect(before.hasNode('d')).toBe(false);
+    });
+
+    it('should roll back all changes if one violates a constraint', () => {
+      const patch = diffGraphs(before, after);
+      before.createConstraint('UNIQUE (Person.name)');
+      before.addNode('e', 'Person', { name: 'Carol' });
+      const original = before.filter(() => true);
+
+      expect(() => before.applyPatch(patch)).toThrow(ConstraintViolationError);
+      expect(formatPatch(diffGraphs(original, before))).toBe('No changes');
+    });
+  });
+
+  describe('parallel edges', () => {
+    beforeEach(() => {
+      before.addEdge('a', 'b', 'PAID', { weight: 10 }, 'p1');
+      before.addEdge('a', 'b', 'PAID', { weight: 20 }, 'p2');
+      after.addEdge('a', 'b', 'PAID', { weight: 15 }, 'p1');
+      after.addEdge('a', 'b', 'PAID', { weight: 30 }, 'p3');
+    });
+
+    it('should match edges with IDs by ID', () => {
+      const patch = diffGraphs(before, after);
+
+      expect(patch.addedEdges).toContainEqual({ id: 'p3', source: 'a', target: 'b', label: 'PAID', data: { weight: 30 } });
+      expect(patch.removedEdges).toContainEqual({ id: 'p2', source: 'a', target: 'b', label: 'PAID', data: { weight: 20 } });
+      expect(patch.changedEdges).toContainEqual({
+        id: 'p1',
+        source: 'a',
+        target: 'b',
+        label: 'PAID',
+        changes: [{ property: 'weight', type: 'changed', before: 10, after: 15 }]
+      });
+    });
+
+    it('should apply changes to the edges with the IDs in the patch', () => {
+      before.applyPatch(diffGraphs(before, after));
+
+      expect(before.getEdgeById('p1')!.data.weight).toBe(15);
+      expect(before.getEdgeById('p2')).toBeUndefined();
+      expect(before.getEdgeById('p3')!.data.weight).toBe(30);
+      expect(formatPatch(diffGraphs(before, after))).toBe('No changes');
+    });
+
+    it('should show edge IDs in the text', () => {
+      expect(formatPatch(diffGraphs(before, after))).toContain('~ (a)-[p1:PAID]->(b) weight: 10 -> 15');
+    });
+  });
+
+  describe('formatPatch', () => {
+    it('should render one line per change', () => {
+      expect(formatPatch(diffGraphs(before, after))).toBe([
+        '- (d:Person) {"name":"Dan"}',
+        '+ (c:Person) {"name":"Carol"}',
+        '~ (a) labels: Person -> Person, Admin',
+        '~ (a) name: "Alice" -> "Alice Smith"',
+        '~ (a) -email: "alice@example.com"',
+        '~ (a) +age: 30',
+        '- (b)-[:KNOWS]->(d) {"weight":3}',
+        '+ (b)-[:KNOWS]->(c) {"weight":2}',
+        '~ (a)-[:KNOWS]->(b) weight: 1 -> 5'
+      ].join('\n'));
+    });
+  });
+});
@@ -0,0 +1,156 @@
+import { Graph, GraphHistory } from '@/graph';
+import { createQueryEngine } from '@/query';
+
+describe('GraphHistory', () => {
+  let graph: Graph;
+  let history: GraphHistory;
+
+  beforeEach(() => {
+    graph = new Graph();
+    graph.addNode('n1', 'Person', { name: 'Alice' });
+    history = new GraphHistory(graph);
+  });
+
+  it('should only record changes made after it was attached', () => {
+    expect(history.canUndo()).toBe(false);
+    expect(history.undo()).toBe(false);
+    expect(graph.hasNode('n1')).toBe(true);
+  });
+
+  it('should undo and redo node, edge, label and data changes', () => {
+    graph.addNode('n2', 'Person', { name: 'Bob' });
+    graph.addEdge('n1', 'n2', 'KNOWS', { since: 2020 });
+    graph.updateNodeData('n1', { name: 'Alicia' });
+    graph.addNodeLabel('n1', 'Employee');
+    graph.updateEdge('n1', 'n2', 'KNOWS', { since: 2021 });
+    expect(history.undoSize).toBe(5);
+
+    history.undo();
+    expect(graph.getEdge('n1', 'n2', 'KNOWS')?.data).toEqual({ since: 2020 });
+    history.undo();
+    expect(graph.getNodeLabels('n1')).toEqual(['Person']);
+    history.undo();
+    expect(graph.getNode('n1')?.data).toEqual({ name: 'Alice' });
+    history.undo();
+    expect(graph.hasEdge('n1', 'n2', 'KNOWS')).toBe(false);
+    history.undo();
+    expect(graph.hasNode('n2')).toBe(false);
+    expect(history.canUndo()).toBe(false);
+    expect(history.redoSize).toBe(5);
+
+    while (history.redo()) {
+      // redo everything
+    }
+    expect(graph.getNodeLabels('n1')).toEqual(['Person', 'Employee']);
+    expect(graph.getNode('n1')?.data).toEqual({ name: 'Alicia' });
+    expect(graph.getEdge('n1', 'n2', 'KNOWS')?.data).toEqual({ since: 2021 });
+  });
+
+  it('should restore a removed node together with its edges', () => {
+    graph.addNode('n2', 'Person', { name: 'Bob' });
+    graph.addEdge('n1', 'n2', 'KNOWS', {});
+    graph.addEdge('n2', 'n1', 'KNOWS', {});
+
+    graph.removeNode('n2');
+    history.undo();
+
+    expect(graph.hasNode('n2')).toBe(true);
+    expect(graph.hasEdge('n1', 'n2', 'KNOWS')).toBe(true);
+    expect(graph.hasEdge('n2', 'n1', 'KNOWS')).toBe(true);
+  });
+
+  it('should treat a batch as one group', () => {
+    graph.batch(() => {
+      graph.addNode('n2', 'Person', { name: 'Bob' });
+      graph.addEdge('n1', 'n2', 'KNOWS', {});
+    });
+
+    expect(history.undoSize).toBe(1);
+    history.undo();
+    expect(graph.getAllNodes().map(n => n.id)).toEqual(['n1']);
+  });
+
+  it('should treat one executeQuery call as one group', () => {
+    const engine = createQueryEngine();
+    engine.executeQuery(graph, "MATCH (p:Person {name: 'Alice'}) CREATE (t:Task {title: 'Review'}), (p)-[:OWNS]->(t) SET p.busy = true");
+
+    expect(history.undoSize).toBe(1);
+    history.undo();
+    expect(graph.getAllNodes().map(n => n.id)).toEqual(['n1']);
+    expect(graph.getNode('n1')?.data).toEqual({ name: 'Alice' });
+
+    history.redo();
+    expect(graph.getNodesByLabel('Task')).toHaveLength(1);
+    expect(graph.getRelationshipsByType('OWNS')).toHaveLength(1);
+  });
+
+  it('should discard the redo groups when a new change is made', () => {
+    graph.addNode('n2', 'Person', { name: 'Bob' });
+    history.undo();
+    graph.addNode('n3', 'Person', { name: 'Charlie' });
+
+    expect(history.canRedo()).toBe(false);
+    expect(history.redo()).toBe(false);
+    expect(graph.hasNode('n2')).toBe(false);
+  });
+
+  it('should restore labeled checkpoints in both directions', () => {
+    graph.addNode('n2', 'Person', { name: 'Bob' });
+    history.checkpoint('bob');
+    graph.addNode('n3', 'Person', { name: 'Charlie' });
+    graph.addNode('n4', 'Person', { name: 'Dave' });
+    history.checkpoint('dave');
+
+    history.restoreCheckpoint('bob');
+    expect(graph.getAllNodes().map(n => n.id).sort()).toEqual(['n1', 'n2']);
+
+    history.restoreCheckpoint('dave');
+    expect(graph.getAllNodes().map(n => n.id).sort()).toEqual(['n1', 'n2', 'n3', 'n4']);
+
+    expect(() => history.restoreCheckpoint('missing')).toThrow('Checkpoint "missing" does not exist');
+  });
+
+  it('should drop checkpoints on a discarded redo branch', () => {
+    history.checkpoint('start');
+    graph.addNode('n2', 'Person', { name: 'Bob' });
+    history.checkpoint('bob');
+    history.undo();
+    graph.addNode('n3', 'Person', { name: 'Charlie' });
+
+    expect(history.getCheckpoints()).toEqual(['start']);
+  });
+
+  it('should keep at most maxSize groups', () => {
+    history.dispose();
+    history = new GraphHistory(graph, { maxSize: 2 });
+    history.checkpoint('start');
+    graph.addNode('a', 'Item', {});
+    graph.addNode('b', 'Item', {});
+    graph.addNode('c', 'Item', {});
+
+    expect(history.undoSize).toBe(2);
+    expect(history.getCheckpoints()).toEqual([]);
+
+    while (history.undo()) {
+      // undo as far as possible
+    }
+    expect(graph.getAllNodes().map(n => n.id)).toEqual(['n1', 'a']);
+  });
+
+  it('should reject an invalid history size', () => {
+    expect(() => new GraphHistory(graph, { maxSize: 0 })).toThrow('positive integer');
+  });
+
+  it('should refuse to undo while a batch is open', () => {
+    graph.addNode('n2', 'Person', { name: 'Bob' });
+    expect(() => graph.batch(() => history.undo())).toThrow('while a batch is open');
+    expect(graph.hasNode('n2')).toBe(true);
+  });
+
+  it('should stop recording once disposed', () => {
+    history.dispose();
+    graph.addNode('n2', 'Person', { name: 'Bob' });
+
+    expect(history.canUndo()).toBe(false);
+  });
+});
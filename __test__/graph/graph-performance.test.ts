@@ -665,6 +665,111 @@ describe.skip('Graph Performance', () => {
     });
   });
 
+  describe('Path Finding Performance', () => {
+    it('should find paths faster with bidirectional search', async () => {
+      // Pick two nodes a few hops apart by walking random outgoing edges
+      const MAX_DEPTH = 4;
+      const start = graph.findNodes(node => (node.data.links || 0) > 10)[0];
+      if (!start) {
+        console.log('No well-connected nodes found for path finding test');
+        return;
+      }
+      let end = start.id;
+      for (let hop = 0; hop < MAX_DEPTH - 1; hop++) {
+        const next = graph.getNeighbors(end, 'outgoing');
+        if (next.length === 0) {
+          break;
+        }
+        end = next[Math.floor(Math.random() * next.length)].id;
+      }
+      console.log(`Finding paths of up to ${MAX_DEPTH} hops from ${start.id} to ${end}`);
+
+      const bfsStart = performance.now();
+      const bfsPaths = await measureTime(
+        () => graph.findPaths(start.id, end, { maxDepth: MAX_DEPTH, direction: 'outgoing' }),
+        'findPaths (BFS)'
+      );
+      const bfsTime = performance.now() - bfsStart;
+
+      const bidirectionalStart = performance.now();
+      const bidirectionalPaths = await measureTime(
+        () => graph.findPaths(start.id, end, { maxDepth: MAX_DEPTH, direction: 'outgoing', algorithm: 'bidirectional' }),
+        'findPaths (bidirectional)'
+      );
+      const bidirectionalTime = performance.now() - bidirectionalStart;
+
+      console.log(`Found ${bfsPaths.length} paths; bidirectional speedup: ${(bfsTime / bidirectionalTime).toFixed(1)}x`);
+      expect(bidirectionalPaths.length).toBe(bfsPaths.length);
+    });
+  });
+
+  describe('Lazy Iteration', () => {
+    /**
+     * Measure how much the heap grows while a function runs and its result is alive
+     * @param fn Function to measure
+     * @param name Name for reporting
+     * @returns Heap growth in bytes
+     */
+    function measureHeap(fn: () => unknown, name: string): number {
+      if (global.gc) {
+        global.gc();
+      }
+      const before = process.memoryUsage().heapUsed;
+      const result = fn();
+      const growth = process.memoryUsage().heapUsed - before;
+      console.log(`${name} grew the heap by ${(growth / 1024 / 1024).toFixed(2)} MB (result: ${typeof result})`);
+      return growth;
+    }
+
+    it('should sum edge weights without materializing all edges', () => {
+      let eagerTotal = 0;
+      let lazyTotal = 0;
+
+      const eager = measureHeap(() => {
+        const edges = graph.getAllEdges();
+        eagerTotal = edges.reduce((sum, edge) => sum + (edge.data.weight ?? 0), 0);
+        return edges;
+      }, 'Summing weights over getAllEdges()');
+      const lazy = measureHeap(() => {
+        for (const edge of graph.edges()) {
+          lazyTotal += edge.data.weight ?? 0;
+        }
+        return lazyTotal;
+      }, 'Summing weights over edges()');
+
+      expect(lazyTotal).toBe(eagerTotal);
+      expect(lazy).toBeLessThan(eager);
+    });
+
+    it('should stop early without building the full node list', () => {
+      const eager = measureHeap(() => graph.getAllNodes().find(node => node.label === 'task'), 'First task via getAllNodes()');
+      const lazy = measureHeap(() => {
+        for (const node of graph.nodes()) {
+          if (node.label === 'task') {
+            return node;
+          }
+        }
+        return undefined;
+      }, 'First task via nodes()');
+
+      expect(lazy).toBeLessThan(eager);
+    });
+
+    it('should traverse and find paths without per-node edge arrays', () => {
+      const start = graph.findNodes(node => (node.data.links || 0) > 10)[0] ?? graph.getAllNodes()[0];
+      let visited = 0;
+
+      measureTime(() => {
+        graph.traverseBFS(start.id, { discoverNode: () => { visited++; return true; } }, { maxDepth: 3, direction: 'both' });
+      }, 'BFS to depth 3 (both directions)');
+      const [, , end] = graph.nodes();
+      measureHeap(() => graph.findPaths(start.id, end.id, { maxDepth: 3 }), 'findPaths to depth 3');
+
+      console.log(`BFS visited ${visited} nodes`);
+      expect(visited).toBeGreaterThan(0);
+    });
+  });
+
   describe('Memory Usage', () => {
     it('should report memory usage', () => {
       if (global.gc) {
@@ -1,4 +1,6 @@
-import { Graph, Node, Edge, NodeId, PathOptions, GraphData } from '@/graph';
+import {
+  Graph, Node, Edge, NodeId, PathOptions, GraphData, ConstraintViolationError, parseConstraint, GraphChange, invertChange
+} from '@/graph';
 
 
 describe('Graph', () => {
@@ -85,6 +87,582 @@ describe('Graph', () => {
     });
   });
 
+  describe('Node labels', () => {
+    it('should add a node with multiple labels', () => {
+      graph.addNode('n1', ['Task', 'ListItem'], { name: 'Write tests' });
+
+      const node = graph.getNode('n1');
+      expect(node?.label).toBe('Task');
+      expect(node?.labels).toEqual(['Task', 'ListItem']);
+      expect(graph.getNodeLabel('n1')).toBe('Task');
+      expect(graph.getNodeLabels('n1')).toEqual(['Task', 'ListItem']);
+    });
+
+    it('should ignore duplicate labels', () => {
+      graph.addNode('n1', ['Task', 'Task'], { name: 'Write tests' });
+      expect(graph.getNodeLabels('n1')).toEqual(['Task']);
+    });
+
+    it('should reject a node without labels', () => {
+      expect(() => graph.addNode('n1', [], { name: 'Nobody' })).toThrow(/at least one label/);
+      expect(graph.hasNode('n1')).toBe(false);
+    });
+
+    it('should add, check and remove labels', () => {
+      graph.addNode('n1', 'Task', { name: 'Write tests' });
+
+      expect(graph.addNodeLabel('n1', 'ListItem')).toBe(true);
+      expect(graph.addNodeLabel('n1', 'ListItem')).toBe(false);
+      expect(graph.addNodeLabel('nonexistent', 'ListItem')).toBe(false);
+      expect(graph.hasNodeLabel('n1', 'ListItem')).toBe(true);
+
+      expect(graph.removeNodeLabel('n1', 'Task')).toBe(true);
+      expect(graph.removeNodeLabel('n1', 'Task')).toBe(false);
+      expect(graph.hasNodeLabel('n1', 'Task')).toBe(false);
+      expect(graph.getNode('n1')?.label).toBe('ListItem');
+    });
+
+    it('should not remove the last label of a node', () => {
+      graph.addNode('n1', 'Task', { name: 'Write tests' });
+      expect(() => graph.removeNodeLabel('n1', 'Task')).toThrow(/at least one label/);
+      expect(graph.getNodeLabels('n1')).toEqual(['Task']);
+    });
+
+    it('should replace all labels with updateNodeLabel', () => {
+      graph.addNode('n1', ['Task', 'ListItem'], { name: 'Write tests' });
+
+      expect(graph.updateNodeLabel('n1', 'Note')).toBe(true);
+      expect(graph.getNodeLabels('n1')).toEqual(['Note']);
+
+      expect(graph.updateNodeLabel('n1', ['Note', 'Draft'])).toBe(true);
+      expect(graph.getNodeLabels('n1')).toEqual(['Note', 'Draft']);
+    });
+
+    it('should round-trip multiple labels through JSON', () => {
+      graph.addNode('n1', ['Task', 'ListItem'], { name: 'Write tests' });
+      graph.addNode('n2', 'Task', { name: 'Review' });
+
+      const json = graph.toJSON();
+      expect(json.nodes).toContainEqual({
+        id: 'n1', label: 'Task', labels: ['Task', 'ListItem'], data: { name: 'Write tests' }
+      });
+      expect(json.nodes).toContainEqual({ id: 'n2', label: 'Task', data: { name: 'Review' } });
+
+      const copy = new Graph<{ name: string }, { weight: number }>();
+      copy.fromJSON(json);
+      expect(copy.getNodeLabels('n1')).toEqual(['Task', 'ListItem']);
+      expect(copy.getNodeLabels('n2')).toEqual(['Task']);
+    });
+  });
+
+  describe('Label and type indexes', () => {
+    beforeEach(() => {
+      graph.addNode('n1', 'person', { name: 'Alice' });
+      graph.addNode('n2', ['person', 'admin'], { name: 'Bob' });
+      graph.addNode('n3', 'company', { name: 'Acme' });
+      graph.addEdge('n1', 'n2', 'KNOWS', { weight: 1 });
+      graph.addEdge('n1', 'n3', 'WORKS_AT', { weight: 2 });
+      graph.addEdge('n2', 'n3', 'WORKS_AT', { weight: 3 });
+    });
+
+    it('should look up nodes by label', () => {
+      expect(graph.getNodesByLabel('person').map(n => n.id)).toEqual(['n1', 'n2']);
+      expect(graph.getNodesByLabel('admin').map(n => n.id)).toEqual(['n2']);
+      expect(graph.getNodesByLabel('missing')).toEqual([]);
+      expect(graph.getLabels().sort()).toEqual(['admin', 'company', 'person']);
+    });
+
+    it('should look up relationships by type', () => {
+      const worksAt = graph.getRelationshipsByType('WORKS_AT');
+      expect(worksAt).toHaveLength(2);
+      expect(worksAt).toContainEqual({ source: 'n2', target: 'n3', label: 'WORKS_AT', data: { weight: 3 } });
+      expect(graph.getRelationshipsByType('missing')).toEqual([]);
+      expect(graph.getRelationshipTypes().sort()).toEqual(['KNOWS', 'WORKS_AT']);
+    });
+
+    it('should keep the label index in sync with label changes', () => {
+      graph.updateNodeLabel('n1', 'robot');
+      graph.addNodeLabel('n3', 'employer');
+      graph.removeNodeLabel('n2', 'admin');
+
+      expect(graph.getNodesByLabel('person').map(n => n.id)).toEqual(['n2']);
+      expect(graph.getNodesByLabel('robot').map(n => n.id)).toEqual(['n1']);
+      expect(graph.getNodesByLabel('employer').map(n => n.id)).toEqual(['n3']);
+      expect(graph.getLabels()).not.toContain('admin');
+    });
+
+    it('should drop a removed node and its cascaded edges from the indexes', () => {
+      graph.removeNode('n3');
+
+      expect(graph.getNodesByLabel('company')).toEqual([]);
+      expect(graph.getRelationshipsByType('WORKS_AT')).toEqual([]);
+      expect(graph.getRelationshipTypes()).toEqual(['KNOWS']);
+    });
+
+    it('should keep the type index in sync with edge removal and updates', () => {
+      graph.updateEdge('n1', 'n3', 'WORKS_AT', { weight: 10 });
+      expect(graph.getRelationshipsByType('WORKS_AT')).toContainEqual(
+        { source: 'n1', target: 'n3', label: 'WORKS_AT', data: { weight: 10 } }
+      );
+
+      graph.removeEdge('n1', 'n3', 'WORKS_AT');
+      graph.removeEdge('n1', 'n2');
+      expect(graph.getRelationshipsByType('WORKS_AT').map(e => e.source)).toEqual(['n2']);
+      expect(graph.getRelationshipsByType('KNOWS')).toEqual([]);
+    });
+
+    it('should reset the indexes on clear and rebuild them from JSON', () => {
+      const json = graph.toJSON();
+      graph.clear();
+      expect(graph.getLabels()).toEqual([]);
+      expect(graph.getRelationshipTypes()).toEqual([]);
+
+      graph.fromJSON(json);
+      expect(graph.getNodesByLabel('person')).toHaveLength(2);
+      expect(graph.getRelationshipsByType('WORKS_AT')).toHaveLength(2);
+    });
+  });
+
+  describe('Property indexes', () => {
+    let tasks: Graph<{ name: string; status?: string; priority?: number; tags?: string[] }>;
+
+    beforeEach(() => {
+      tasks = new Graph();
+      tasks.addNode('t1', 'Task', { name: 'Write docs', status: 'open', priority: 2 });
+      tasks.addNode('t2', 'Task', { name: 'Fix bug', status: 'done', priority: 1, tags: ['urgent'] });
+      tasks.addNode('t3', 'Task', { name: 'Review', status: 'open', priority: 3 });
+      tasks.addNode('t4', 'Task', { name: 'Plan' });
+      tasks.addNode('n1', 'Note', { name: 'Write more', status: 'open' });
+    });
+
+    const ids = (nodes: Node[]) => nodes.map(n => n.id).sort();
+
+    it('should create, list and drop indexes', () => {
+      tasks.createIndex('Task', 'status');
+      expect(tasks.hasIndex('Task', 'status')).toBe(true);
+      expect(tasks.getIndexes()).toEqual([{ label: 'Task', property: 'status' }]);
+      expect(() => tasks.createIndex('Task', 'status')).toThrow('Index on :Task(status) already exists');
+
+      expect(tasks.dropIndex('Task', 'status')).toBe(true);
+      expect(tasks.dropIndex('Task', 'status')).toBe(false);
+      expect(tasks.hasIndex('Task', 'status')).toBe(false);
+      expect(() => tasks.findNodesByIndex('Task', 'status', { type: 'equals', value: 'open' }))
+        .toThrow('No index on :Task(status)');
+    });
+
+    it('should answer equality lookups from existing nodes of the label only', () => {
+      tasks.createIndex('Task', 'status');
+      tasks.createIndex('Task', 'tags');
+
+      expect(ids(tasks.findNodesByIndex('Task', 'status', { type: 'equals', value: 'open' }))).toEqual(['t1', 't3']);
+      expect(ids(tasks.findNodesByIndex('Task', 'tags', { type: 'equals', value: 'urgent' }))).toEqual(['t2']);
+      expect(tasks.findNodesByIndex('Task', 'status', { type: 'equals', value: 'missing' })).toEqual([]);
+    });
+
+    it('should answer range and prefix lookups', () => {
+      tasks.createIndex('Task', 'priority');
+      tasks.createIndex('Task', 'name');
+
+      expect(ids(tasks.findNodesByIndex('Task', 'priority', {
+        type: 'range', lower: { value: 2, inclusive: true }
+      }))).toEqual(['t1', 't3']);
+      expect(ids(tasks.findNodesByIndex('Task', 'priority', {
+        type: 'range', lower: { value: 1, inclusive: false }, upper: { value: 3, inclusive: false }
+      }))).toEqual(['t1']);
+      expect(tasks.findNodesByIndex('Task', 'priority', {
+        type: 'range', lower: { value: 'a', inclusive: true }
+      })).toEqual([]);
+      expect(ids(tasks.findNodesByIndex('Task', 'name', { type: 'prefix', prefix: 'W' }))).toEqual(['t1']);
+      expect(ids(tasks.findNodesByIndex('Task', 'name', {
+        type: 'range', upper: { value: 'Plan', inclusive: true }
+      }))).toEqual(['t2', 't4']);
+    });
+
+    it('should be maintained by node mutations', () => {
+      tasks.createIndex('Task', 'status');
+      const open = () => ids(tasks.findNodesByIndex('Task', 'status', { type: 'equals', value: 'open' }));
+
+      tasks.updateNodeData('t1', { name: 'Write docs', status: 'done' });
+      expect(open()).toEqual(['t3']);
+
+      tasks.addNode('t5', 'Task', { name: 'Ship', status: 'open' });
+      tasks.removeNode('t3');
+      expect(open()).toEqual(['t5']);
+
+      tasks.addNodeLabel('n1', 'Task');
+      expect(open()).toEqual(['n1', 't5']);
+
+      tasks.updateNodeLabel('t5', 'Archived');
+      tasks.removeNodeLabel('n1', 'Task');
+      expect(open()).toEqual([]);
+    });
+
+    it('should keep index definitions across clear and fromJSON', () => {
+      tasks.createIndex('Task', 'status');
+      const json = tasks.toJSON();
+
+      tasks.clear();
+      expect(tasks.hasIndex('Task', 'status')).toBe(true);
+      expect(tasks.findNodesByIndex('Task', 'status', { type: 'equals', value: 'open' })).toEqual([]);
+
+      tasks.fromJSON(json);
+      expect(ids(tasks.findNodesByIndex('Task', 'status', { type: 'equals', value: 'open' }))).toEqual(['t1', 't3']);
+    });
+  });
+
+  describe('Constraints', () => {
+    let people: Graph<Record<string, unknown>, Record<string, unknown>>;
+
+    beforeEach(() => {
+      people = new Graph();
+      people.addNode('p1', 'Person', { name: 'Alice', email: 'alice@example.com' });
+      people.addNode('p2', 'Person', { name: 'Bob' });
+    });
+
+    it('should parse node and relationship constraints', () => {
+      expect(parseConstraint('UNIQUE (Person.email)')).toEqual(
+        { kind: 'unique', target: 'node', label: 'Person', properties: ['email'] }
+      );
+      expect(parseConstraint('KEY (Document.vault, Document.path)')).toEqual(
+        { kind: 'key', target: 'node', label: 'Document', properties: ['vault', 'path'] }
+      );
+      expect(parseConstraint('UNIQUE [PAID.txId]')).toEqual(
+        { kind: 'unique', target: 'relationship', label: 'PAID', properties: ['txId'] }
+      );
+      expect(() => parseConstraint('UNIQUE Person.email')).toThrow('Invalid constraint');
+      expect(() => parseConstraint('KEY (Document.vault, Note.path)')).toThrow('same label');
+    });
+
+    it('should register, list and drop constraints', () => {
+      people.createConstraint('UNIQUE (Person.email)');
+      expect(people.getConstraints()).toEqual([
+        { kind: 'unique', target: 'node', label: 'Person', properties: ['email'] }
+      ]);
+      expect(() => people.createConstraint('UNIQUE (Person.email)')).toThrow('Constraint UNIQUE (Person.email) already exists');
+
+      expect(people.dropConstraint('UNIQUE (Person.email)')).toBe(true);
+      expect(people.dropConstraint('UNIQUE (Person.email)')).toBe(false);
+      people.addNode('p3', 'Person', { email: 'alice@example.com' });
+    });
+
+    it('should reject constraints that existing nodes violate', () => {
+      people.addNode('p3', 'Person', { email: 'alice@example.com' });
+      expect(() => people.createConstraint('UNIQUE (Person.email)')).toThrow(ConstraintViolationError);
+      expect(people.getConstraints()).toEqual([]);
+    });
+
+    it('should enforce uniqueness in addNode, updateNodeData and label changes', () => {
+      people.createConstraint('UNIQUE (Person.email)');
+
+      expect(() => people.addNode('p3', 'Person', { email: 'alice@example.com' }))
+        .toThrow('UNIQUE (Person.email) violated: node "p1" already has email "alice@example.com"');
+      expect(people.hasNode('p3')).toBe(false);
+
+      // Nodes without the property are not constrained
+      people.addNode('p3', 'Person', { name: 'Carol' });
+
+      expect(() => people.updateNodeData('p2', { email: 'alice@example.com' })).toThrow(ConstraintViolationError);
+      expect(people.getNode('p2')?.data).toEqual({ name: 'Bob' });
+      expect(people.updateNodeData('p1', { name: 'Alice', email: 'alice@example.com' })).toBe(true);
+
+      people.addNode('u1', 'User', { email: 'alice@example.com' });
+      expect(() => people.addNodeLabel('u1', 'Person')).toThrow(ConstraintViolationError);
+      expect(() => people.updateNodeLabel('u1', ['Person'])).toThrow(ConstraintViolationError);
+      expect(people.getNodeLabels('u1')).toEqual(['User']);
+    });
+
+    it('should release values of removed and updated nodes', () => {
+      people.createConstraint('UNIQUE (Person.email)');
+
+      people.updateNodeData('p1', { name: 'Alice', email: 'alice@work.example.com' });
+      people.addNode('p3', 'Person', { email: 'alice@example.com' });
+
+      people.removeNode('p3');
+      people.addNodeLabel('p1', 'Former');
+      people.removeNodeLabel('p1', 'Person');
+      people.addNode('p3', 'Person', { email: 'alice@work.example.com' });
+      people.addNode('p4', 'Person', { email: 'alice@example.com' });
+      expect(people.getNodesByLabel('Person').map(n => n.id)).toEqual(['p2', 'p3', 'p4']);
+    });
+
+    it('should enforce composite node keys', () => {
+      people.createConstraint('KEY (Document.vault, Document.path)');
+      people.addNode('d1', 'Document', { vault: 'notes', path: 'a.md' });
+      people.addNode('d2', 'Document', { vault: 'work', path: 'a.md' });
+
+      expect(() => people.addNode('d3', 'Document', { vault: 'notes', path: 'a.md' }))
+        .toThrow('KEY (Document.vault, Document.path) violated: node "d1" already has vault "notes", path "a.md"');
+      expect(() => people.addNode('d3', 'Document', { vault: 'notes' }))
+        .toThrow('KEY (Document.vault, Document.path) violated: property "path" is missing');
+    });
+
+    it('should enforce relationship constraints in addEdge and updateEdge', () => {
+      people.createConstraint('UNIQUE [PAID.txId]');
+      people.addEdge('p1', 'p2', 'PAID', { txId: 't1' });
+
+      expect(() => people.addEdge('p2', 'p1', 'PAID', { txId: 't1' }))
+        .toThrow('UNIQUE [PAID.txId] violated: relationship (p1)-[:PAID]->(p2) already has txId "t1"');
+      people.addEdge('p2', 'p1', 'PAID', { txId: 't2' });
+      expect(() => people.updateEdge('p2', 'p1', 'PAID', { txId: 't1' })).toThrow(ConstraintViolationError);
+
+      people.removeEdge('p1', 'p2', 'PAID');
+      expect(people.updateEdge('p2', 'p1', 'PAID', { txId: 't1' })).toBe(true);
+    });
+
+    it('should check violations without modifying the graph', () => {
+      people.createConstraint('UNIQUE (Person.email)');
+      expect(people.getNodeConstraintViolation(undefined, 'Person', { email: 'alice@example.com' }))
+        .toBeInstanceOf(ConstraintViolationError);
+      expect(people.getNodeConstraintViolation('p1', 'Person', { email: 'alice@example.com' })).toBeUndefined();
+      expect(people.getNodeConstraintViolation(undefined, 'Robot', { email: 'alice@example.com' })).toBeUndefined();
+    });
+
+    it('should keep constraints across clear and fromJSON', () => {
+      people.createConstraint('UNIQUE (Person.email)');
+      const json = people.toJSON();
+      people.clear();
+      people.fromJSON(json);
+
+      expect(() => people.addNode('p3', 'Person', { email: 'alice@example.com' })).toThrow(ConstraintViolationError);
+    });
+  });
+
+  describe('Change events', () => {
+    let changeSets: GraphChange[][];
+
+    beforeEach(() => {
+      changeSets = [];
+      graph.subscribe(changes => changeSets.push(changes));
+    });
+
+    it('should emit node changes with old and new values', () => {
+      graph.addNode('n1', 'person', { name: 'Alice' });
+      graph.updateNodeData('n1', { name: 'Alicia' });
+      graph.addNodeLabel('n1', 'admin');
+      graph.updateNodeLabel('n1', 'robot');
+
+      expect(changeSets).toEqual([
+        [{ type: 'nodeAdded', node: { id: 'n1', label: 'person', labels: ['person'], data: { name: 'Alice' } } }],
+        [{ type: 'nodeDataUpdated', id: 'n1', oldData: { name: 'Alice' }, newData: { name: 'Alicia' } }],
+        [{ type: 'nodeLabelChanged', id: 'n1', oldLabels: ['person'], newLabels: ['person', 'admin'] }],
+        [{ type: 'nodeLabelChanged', id: 'n1', oldLabels: ['person', 'admin'], newLabels: ['robot'] }],
+      ]);
+    });
+
+    it('should emit edge changes', () => {
+      graph.addNode('n1', 'person', { name: 'Alice' });
+      graph.addNode('n2', 'person', { name: 'Bob' });
+      changeSets.length = 0;
+
+      graph.addEdge('n1', 'n2', 'KNOWS', { weight: 1 });
+      graph.updateEdge('n1', 'n2', 'KNOWS', { weight: 2 });
+      graph.removeEdge('n1', 'n2', 'KNOWS');
+
+      expect(changeSets).toEqual([
+        [{ type: 'edgeAdded', edge: { source: 'n1', target: 'n2', label: 'KNOWS', data: { weight: 1 } } }],
+        [{ type: 'edgeUpdated', source: 'n1', target: 'n2', label: 'KNOWS', oldData: { weight: 1 }, newData: { weight: 2 } }],
+        [{ type: 'edgeRemoved', edge: { source: 'n1', target: 'n2', label: 'KNOWS', data: { weight: 2 } } }],
+      ]);
+    });
+
+    it('should report the edges removed along with a node in the same change set', () => {
+      graph.addNode('n1', 'person', { name: 'Alice' });
+      graph.addNode('n2', 'person', { name: 'Bob' });
+      graph.addNode('n3', 'person', { name: 'Carol' });
+      graph.addEdge('n1', 'n2', 'KNOWS', { weight: 1 });
+      graph.addEdge('n3', 'n1', 'KNOWS', { weight: 2 });
+      changeSets.length = 0;
+
+      graph.removeNode('n1');
+
+      expect(changeSets).toHaveLength(1);
+      expect(changeSets[0].map(c => c.type)).toEqual(['edgeRemoved', 'edgeRemoved', 'nodeRemoved']);
+      expect(changeSets[0]).toContainEqual(
+        { type: 'edgeRemoved', edge: { source: 'n3', target: 'n1', label: 'KNOWS', data: { weight: 2 } } }
+      );
+    });
+
+    it('should not emit anything for no-op mutations', () => {
+      expect(graph.removeNode('missing')).toBe(false);
+      expect(graph.updateNodeData('missing', { name: 'x' })).toBe(false);
+      expect(graph.removeEdge('a', 'b')).toBe(false);
+      expect(changeSets).toEqual([]);
+    });
+
+    it('should group changes made in a batch into one change set', () => {
+      const result = graph.batch(() => {
+        graph.addNode('n1', 'person', { name: 'Alice' });
+        graph.batch(() => graph.addNode('n2', 'person', { name: 'Bob' }));
+        graph.addEdge('n1', 'n2', 'KNOWS', { weight: 1 });
+        return 'done';
+      });
+
+      expect(result).toBe('done');
+      expect(changeSets).toHaveLength(1);
+      expect(changeSets[0].map(c => c.type)).toEqual(['nodeAdded', 'nodeAdded', 'edgeAdded']);
+    });
+
+    it('should deliver the changes of a batch that throws', () => {
+      expect(() => graph.batch(() => {
+        graph.addNode('n1', 'person', { name: 'Alice' });
+        graph.addNode('n1', 'person', { name: 'Alice again' });
+      })).toThrow('already exists');
+
+      expect(changeSets).toEqual([
+        [{ type: 'nodeAdded', node: { id: 'n1', label: 'person', labels: ['person'], data: { name: 'Alice' } } }]
+      ]);
+    });
+
+    it('should support typed handlers and unsubscribing', () => {
+      const added: string[] = [];
+      const unsubscribe = graph.on('nodeAdded', change => added.push(change.node.id));
+
+      graph.addNode('n1', 'person', { name: 'Alice' });
+      graph.updateNodeData('n1', { name: 'Alicia' });
+      unsubscribe();
+      graph.addNode('n2', 'person', { name: 'Bob' });
+
+      expect(added).toEqual(['n1']);
+    });
+
+    it('should report removals and additions of clear and fromJSON', () => {
+      graph.addNode('n1', 'person', { name: 'Alice' });
+      graph.addNode('n2', 'person', { name: 'Bob' });
+      graph.addEdge('n1', 'n2', 'KNOWS', { weight: 1 });
+      const json = graph.toJSON();
+      changeSets.length = 0;
+
+      graph.fromJSON(json);
+      expect(changeSets).toHaveLength(1);
+      expect(changeSets[0].map(c => c.type)).toEqual([
+        'edgeRemoved', 'nodeRemoved', 'nodeRemoved', 'nodeAdded', 'nodeAdded', 'edgeAdded'
+      ]);
+    });
+  });
+
+  describe('Transactions', () => {
+    // Rolling back restores contents, not insertion order
+    const snapshot = () => {
+      const { nodes, edges } = graph.toJSON();
+      return { nodes: [...nodes].sort((a, b) => a.id.localeCompare(b.id)), edges };
+    };
+
+    beforeEach(() => {
+      graph.addNode('n1', 'person', { name: 'Alice' });
+      graph.addNode('n2', 'person', { name: 'Bob' });
+      graph.addEdge('n1', 'n2', 'KNOWS', { weight: 2020 });
+    });
+
+    it('should journal mutations and keep them on commit', () => {
+      const transaction = graph.beginTransaction();
+      graph.addNode('n3', 'person', { name: 'Charlie' });
+      graph.updateNodeData('n1', { name: 'Alicia' });
+
+      expect(graph.inTransaction()).toBe(true);
+      expect(transaction.changes.map(c => c.type)).toEqual(['nodeAdded', 'nodeDataUpdated']);
+
+      transaction.commit();
+      expect(transaction.state).toBe('committed');
+      expect(graph.inTransaction()).toBe(false);
+      expect(graph.hasNode('n3')).toBe(true);
+      expect(graph.getNode('n1')?.data).toEqual({ name: 'Alicia' });
+    });
+
+    it('should restore the previous state on rollback', () => {
+      const before = snapshot();
+      const transaction = graph.beginTransaction();
+
+      graph.addNode('n3', 'person', { name: 'Charlie' });
+      graph.addEdge('n3', 'n1', 'KNOWS', { weight: 2024 });
+      graph.updateNodeData('n2', { name: 'Robert' });
+      graph.addNodeLabel('n2', 'employee');
+      graph.updateEdge('n1', 'n2', 'KNOWS', { weight: 2021 });
+      graph.removeNode('n1');
+
+      transaction.rollback();
+      expect(transaction.state).toBe('rolledBack');
+      expect(snapshot()).toEqual(before);
+      expect(graph.getNodesByLabel('employee')).toEqual([]);
+      expect(graph.getRelationshipsByType('KNOWS')).toHaveLength(1);
+    });
+
+    it('should restore a cleared graph on rollback', () => {
+      const before = snapshot();
+      const transaction = graph.beginTransaction();
+      graph.clear();
+      transaction.rollback();
+
+      expect(snapshot()).toEqual(before);
+    });
+
+    it('should keep indexes and constraints consistent across a rollback', () => {
+      graph.createIndex('person', 'name');
+      graph.createConstraint('UNIQUE (person.name)');
+
+      const transaction = graph.beginTransaction();
+      graph.updateNodeData('n1', { name: 'Alicia' });
+      graph.addNode('n3', 'person', { name: 'Alice' });
+      transaction.rollback();
+
+      expect(graph.findNodesByIndex('person', 'name', { type: 'equals', value: 'Alice' }).map(n => n.id))
+        .toEqual(['n1']);
+      expect(() => graph.addNode('n3', 'person', { name: 'Alice' })).toThrow(ConstraintViolationError);
+    });
+
+    it('should only undo the changes of a nested transaction', () => {
+      const outer = graph.beginTransaction();
+      graph.addNode('n3', 'person', { name: 'Charlie' });
+
+      const inner = graph.beginTransaction();
+      graph.addNode('n4', 'person', { name: 'Dave' });
+      inner.rollback();
+
+      expect(graph.hasNode('n3')).toBe(true);
+      expect(graph.hasNode('n4')).toBe(false);
+
+      outer.rollback();
+      expect(graph.hasNode('n3')).toBe(false);
+    });
+
+    it('should require nested transactions to finish first', () => {
+      const outer = graph.beginTransaction();
+      const inner = graph.beginTransaction();
+
+      expect(() => outer.commit()).toThrow('nested transaction is active');
+      inner.commit();
+      outer.commit();
+      expect(() => outer.rollback()).toThrow('already been committed');
+    });
+
+    it('should deliver a rollback to subscribers as one change set', () => {
+      const changeSets: GraphChange[][] = [];
+      const transaction = graph.beginTransaction();
+      graph.addNode('n3', 'person', { name: 'Charlie' });
+      graph.updateNodeData('n1', { name: 'Alicia' });
+
+      graph.subscribe(changes => changeSets.push(changes));
+      transaction.rollback();
+
+      expect(changeSets).toHaveLength(1);
+      expect(changeSets[0].map(c => c.type)).toEqual(['nodeDataUpdated', 'nodeRemoved']);
+    });
+
+    it('should invert every kind of change', () => {
+      const node = { id: 'n3', label: 'person', labels: ['person'], data: {} };
+      const edge = { source: 'n1', target: 'n2', label: 'KNOWS', data: {} };
+
+      expect(invertChange({ type: 'nodeAdded', node })).toEqual({ type: 'nodeRemoved', node });
+      expect(invertChange({ type: 'edgeRemoved', edge })).toEqual({ type: 'edgeAdded', edge });
+      expect(invertChange({ type: 'nodeLabelChanged', id: 'n1', oldLabels: ['a'], newLabels: ['a', 'b'] }))
+        .toEqual({ type: 'nodeLabelChanged', id: 'n1', oldLabels: ['a', 'b'], newLabels: ['a'] });
+      expect(invertChange({
+        type: 'edgeUpdated', source: 'n1', target: 'n2', label: 'KNOWS', oldData: { since: 1 }, newData: { since: 2 }
+      })).toEqual({
+        type: 'edgeUpdated', source: 'n1', target: 'n2', label: 'KNOWS', oldData: { since: 2 }, newData: { since: 1 }
+      });
+    });
+  });
+
   describe('Edge operations', () => {
     beforeEach(() => {
       graph.addNode('n1', 'person', { name: 'Alice' });
@@ -226,6 +804,107 @@ describe('Graph', () => {
     });
   });
 
+  describe('Parallel edges', () => {
+    beforeEach(() => {
+      graph.addNode('alice', 'person', { name: 'Alice' });
+      graph.addNode('bob', 'person', { name: 'Bob' });
+      graph.addEdge('alice', 'bob', 'PAID', { weight: 10 }, 'p1');
+      graph.addEdge('alice', 'bob', 'PAID', { weight: 20 }, 'p2');
+    });
+
+    it('should keep several edges with the same type between two nodes', () => {
+      expect(graph.getEdgeById('p1')).toEqual({ id: 'p1', source: 'alice', target: 'bob', label: 'PAID', data: { weight: 10 } });
+      expect(graph.getEdgeById('p2')?.data.weight).toBe(20);
+      expect(graph.getAllEdges().map(edge => edge.id)).toEqual(['p1', 'p2']);
+      expect(graph.getRelationshipsByType('PAID')).toHaveLength(2);
+      expect(graph.getEdgesForNode('bob', 'incoming')).toHaveLength(2);
+      expect(graph.getNeighbors('alice', 'outgoing').map(node => node.id)).toEqual(['bob']);
+    });
+
+    it('should reject a duplicate edge ID', () => {
+      graph.addNode('carol', 'person', { name: 'Carol' });
+
+      expect(() => graph.addEdge('bob', 'carol', 'PAID', { weight: 1 }, 'p1')).toThrow('Edge with ID "p1" already exists');
+      expect(graph.hasEdge('bob', 'carol')).toBe(false);
+    });
+
+    it('should still allow only one edge without an ID per type between two nodes', () => {
+      graph.addEdge('alice', 'bob', 'PAID', { weight: 30 });
+
+      expect(() => graph.addEdge('alice', 'bob', 'PAID', { weight: 40 })).toThrow();
+      expect(graph.getRelationshipsByType('PAID')).toHaveLength(3);
+    });
+
+    it('should address the edge without an ID, else the first one added, by endpoints and type', () => {
+      expect(graph.getEdge('alice', 'bob', 'PAID')?.id).toBe('p1');
+
+      graph.addEdge('alice', 'bob', 'PAID', { weight: 30 });
+
+      expect(graph.getEdge('alice', 'bob', 'PAID')).toEqual({ source: 'alice', target: 'bob', label: 'PAID', data: { weight: 30 } });
+    });
+
+    it('should update and remove edges by ID', () => {
+      expect(graph.updateEdgeById('p2', { weight: 25 })).toBe(true);
+      expect(graph.getEdgeById('p2')?.data.weight).toBe(25);
+      expect(graph.getEdgeById('p1')?.data.weight).toBe(10);
+
+      expect(graph.removeEdgeById('p1')).toBe(true);
+      expect(graph.getEdgeById('p1')).toBeUndefined();
+      expect(graph.getEdge('alice', 'bob', 'PAID')?.id).toBe('p2');
+      expect(graph.getRelationshipsByType('PAID')).toHaveLength(1);
+
+      expect(graph.updateEdgeById('p1', { weight: 1 })).toBe(false);
+      expect(graph.removeEdgeById('p1')).toBe(false);
+    });
+
+    it('should remove one edge by type and all of them without a type', () => {
+      expect(graph.removeEdge('alice', 'bob', 'PAID')).toBe(true);
+      expect(graph.getAllEdges().map(edge => edge.id)).toEqual(['p2']);
+
+      graph.addEdge('alice', 'bob', 'PAID', { weight: 30 }, 'p3');
+      expect(graph.removeEdge('alice', 'bob')).toBe(true);
+      expect(graph.getAllEdges()).toEqual([]);
+      expect(graph.getRelationshipsByType('PAID')).toEqual([]);
+    });
+
+    it('should remove edges with IDs together with their nodes', () => {
+      graph.removeNode('bob');
+
+      expect(graph.getEdgeById('p1')).toBeUndefined();
+      expect(graph.getEdgeById('p2')).toBeUndefined();
+    });
+
+    it('should keep edge IDs through JSON', () => {
+      const copy = new Graph<{ name: string }, { weight: number }>();
+      copy.fromJSON(JSON.parse(JSON.stringify(graph.toJSON())) as GraphData<{ name: string }, { weight: number }>);
+
+      expect(copy.getAllEdges()).toEqual(graph.getAllEdges());
+      expect(copy.getEdgeById('p2')?.data.weight).toBe(20);
+    });
+
+    it('should restore edges with IDs when a transaction is rolled back', () => {
+      const transaction = graph.beginTransaction();
+      graph.updateEdgeById('p1', { weight: 15 });
+      graph.removeEdgeById('p2');
+      graph.addEdge('alice', 'bob', 'PAID', { weight: 30 }, 'p3');
+      transaction.rollback();
+
+      expect(graph.getEdgeById('p1')?.data.weight).toBe(10);
+      expect(graph.getEdgeById('p2')?.data.weight).toBe(20);
+      expect(graph.getEdgeById('p3')).toBeUndefined();
+    });
+
+    it('should include the ID in events for edges with one', () => {
+      const changes: GraphChange[] = [];
+      graph.subscribe(changeSet => changes.push(...changeSet));
+
+      graph.updateEdgeById('p2', { weight: 25 });
+
+      expect(changes).toHaveLength(1);
+      expect(changes[0]).toMatchObject({ type: 'edgeUpdated', id: 'p2', source: 'alice', target: 'bob', label: 'PAID' });
+    });
+  });
+
   describe('Traversal operations', () => {
     beforeEach(() => {
       // Set up a small network
@@ -357,6 +1036,67 @@ describe('Graph', () => {
       expect(allPaths.length).toBe(2);
     });
 
+    describe('Bidirectional path finding', () => {
+      const sortPaths = (paths: NodeId[][]) => paths.map(p => p.join('>')).sort();
+
+      it('should find the same paths as the BFS search', () => {
+        for (const options of [
+          { direction: 'outgoing' as const },
+          { direction: 'incoming' as const },
+          { direction: 'both' as const },
+          { direction: 'both' as const, maxDepth: 2 },
+          { direction: 'both' as const, relationshipTypes: ['KNOWS'] }
+        ]) {
+          for (const [start, end] of [['a', 'd'], ['d', 'a'], ['e', 'f'], ['a', 'f']]) {
+            const bfs = graph.findPaths(start, end, options);
+            const bidirectional = graph.findPaths(start, end, { ...options, algorithm: 'bidirectional' });
+            expect(sortPaths(bidirectional)).toEqual(sortPaths(bfs));
+          }
+        }
+      });
+
+      it('should return paths shortest first', () => {
+        graph.addEdge('a', 'd', 'WORKS_WITH', { weight: 1 });
+        const paths = graph.findPaths('a', 'f', { algorithm: 'bidirectional' });
+
+        expect(paths.map(p => p.length)).toEqual([3, 4, 5]);
+        expect(paths[0]).toEqual(['a', 'd', 'f']);
+      });
+
+      it('should agree with the BFS search on a random graph', () => {
+        // Deterministic pseudo-random generator so failures are reproducible
+        let seed = 42;
+        const random = () => {
+          seed = (seed * 1103515245 + 12345) % 2147483648;
+          return seed / 2147483648;
+        };
+        const dense = new Graph();
+        for (let i = 0; i < 30; i++) {
+          dense.addNode(`n${i}`, 'node', {});
+        }
+        for (let i = 0; i < 120; i++) {
+          const source = `n${Math.floor(random() * 30)}`;
+          const target = `n${Math.floor(random() * 30)}`;
+          const label = random() < 0.5 ? 'A' : 'B';
+          if (source !== target && !dense.hasEdge(source, target, label)) {
+            dense.addEdge(source, target, label, {});
+          }
+        }
+
+        for (const maxDepth of [1, 2, 3, 4, 5]) {
+          const options = { maxDepth, direction: 'both' as const };
+          const bfs = dense.findPaths('n0', 'n1', options);
+          const bidirectional = dense.findPaths('n0', 'n1', { ...options, algorithm: 'bidirectional' });
+          expect(sortPaths(bidirectional)).toEqual(sortPaths(bfs));
+        }
+      });
+
+      it('should return no paths from a node to itself or for missing nodes', () => {
+        expect(graph.findPaths('a', 'a', { algorithm: 'bidirectional', direction: 'both' })).toEqual([]);
+        expect(graph.findPaths('a', 'missing', { algorithm: 'bidirectional' })).toEqual([]);
+      });
+    });
+
     describe('BFS Traversal', () => {
       it('should perform basic BFS traversal with visitor pattern', () => {
         const visited: string[] = [];
@@ -512,6 +1252,141 @@ describe('Graph', () => {
       });
     });
 
+    describe('DFS Traversal', () => {
+      let dag: Graph;
+
+      // a -> b -> d, a -> c -> d, d -> e, e -> b (cycle b-d-e), a -> e
+      beforeEach(() => {
+        dag = new Graph();
+        for (const id of ['a', 'b', 'c', 'd', 'e']) {
+          dag.addNode(id, 'Task', {});
+        }
+        dag.addEdge('a', 'b', 'DEPENDS_ON', {});
+        dag.addEdge('a', 'c', 'DEPENDS_ON', {});
+        dag.addEdge('b', 'd', 'DEPENDS_ON', {});
+        dag.addEdge('c', 'd', 'DEPENDS_ON', {});
+        dag.addEdge('d', 'e', 'DEPENDS_ON', {});
+        dag.addEdge('e', 'b', 'DEPENDS_ON', {});
+        dag.addEdge('a', 'e', 'DEPENDS_ON', {});
+      });
+
+      it('should visit nodes in pre-order and post-order', () => {
+        const pre: string[] = [];
+        const post: string[] = [];
+        const finished: string[] = [];
+
+        dag.traverseDFS('a', {
+          preOrder: node => pre.push(node.id),
+          postOrder: node => post.push(node.id),
+          finishNode: node => finished.push(node.id)
+        });
+
+        expect(pre).toEqual(['a', 'b', 'd', 'e', 'c']);
+        expect(post).toEqual(['e', 'd', 'b', 'c', 'a']);
+        expect(finished).toEqual(post);
+      });
+
+      it('should classify every edge', () => {
+        const kinds: Record<string, string[]> = { tree: [], back: [], forward: [], cross: [] };
+        const record = (kind: string) => (edge: Edge) => {
+          kinds[kind].push(`${edge.source}->${edge.target}`);
+        };
+
+        dag.traverseDFS('a', {
+          treeEdge: record('tree'),
+          backEdge: record('back'),
+          forwardEdge: record('forward'),
+          crossEdge: record('cross')
+        });
+
+        expect(kinds).toEqual({
+          tree: ['a->b', 'b->d', 'd->e', 'a->c'],
+          back: ['e->b'],
+          forward: ['a->e'],
+          cross: ['c->d']
+        });
+      });
+
+      it('should report depths and paths', () => {
+        const paths: Record<string, string[]> = {};
+        const depths: Record<string, number> = {};
+
+        dag.traverseDFS('a', {
+          discoverNode: (node, depth, path) => {
+            depths[node.id] = depth;
+            paths[node.id] = path!.nodes.map(n => n.id);
+            return true;
+          }
+        }, { trackPaths: true });
+
+        expect(depths).toEqual({ a: 0, b: 1, d: 2, e: 3, c: 1 });
+        expect(paths.e).toEqual(['a', 'b', 'd', 'e']);
+      });
+
+      it('should let the visitor skip nodes and edges', () => {
+        const pre: string[] = [];
+
+        dag.traverseDFS('a', {
+          discoverNode: node => node.id !== 'd',
+          examineEdge: (_edge, _source, target) => target.id !== 'e',
+          preOrder: node => pre.push(node.id)
+        });
+
+        // d is discovered but not expanded, e is never reached
+        expect(pre).toEqual(['a', 'b', 'c']);
+      });
+
+      it('should respect maxDepth and direction', () => {
+        const shallow: string[] = [];
+        dag.traverseDFS('a', { preOrder: node => shallow.push(node.id) }, { maxDepth: 1 });
+        expect(shallow).toEqual(['a', 'b', 'c', 'e']);
+
+        const upstream: string[] = [];
+        dag.traverseDFS('d', { preOrder: node => upstream.push(node.id) }, { direction: 'incoming' });
+        expect(upstream).toEqual(['d', 'b', 'a', 'e', 'c']);
+      });
+
+      it('should report each edge once when traversing both directions', () => {
+        const tree: string[] = [];
+        const back: string[] = [];
+
+        dag.traverseDFS('c', {
+          treeEdge: edge => tree.push(`${edge.source}->${edge.target}`),
+          backEdge: edge => back.push(`${edge.source}->${edge.target}`)
+        }, { direction: 'both' });
+
+        expect(tree).toHaveLength(4);
+        expect(tree.length + back.length).toBe(7);
+      });
+
+      it('should do nothing for a missing start node', () => {
+        let started = false;
+        dag.traverseDFS('missing', { start: () => { started = true; } });
+        expect(started).toBe(false);
+      });
+
+      it('should traverse very deep graphs without overflowing the stack', () => {
+        const chain = new Graph();
+        const length = 100000;
+        for (let i = 0; i < length; i++) {
+          chain.addNode(`n${i}`, 'Step', {});
+          if (i > 0) {
+            chain.addEdge(`n${i - 1}`, `n${i}`, 'NEXT', {});
+          }
+        }
+
+        let maxDepth = 0;
+        let finished = 0;
+        chain.traverseDFS('n0', {
+          preOrder: (_node, depth) => { maxDepth = Math.max(maxDepth, depth); },
+          postOrder: () => { finished++; }
+        });
+
+        expect(maxDepth).toBe(length - 1);
+        expect(finished).toBe(length);
+      });
+    });
+
     describe('Pattern Matching with BFS', () => {
       it('should find simple paths that match a pattern', () => {
         // Find all paths from a where nodes work at a location
@@ -655,6 +1530,123 @@ describe('Graph', () => {
     });
   });
 
+  describe('Lazy iteration', () => {
+    beforeEach(() => {
+      graph.addNode('a', 'Person', { name: 'A' });
+      graph.addNode('b', 'Person', { name: 'B' });
+      graph.addNode('c', 'Person', { name: 'C' });
+      graph.addEdge('a', 'b', 'KNOWS', { weight: 1 });
+      graph.addEdge('a', 'b', 'LIKES', { weight: 2 });
+      graph.addEdge('c', 'a', 'KNOWS', { weight: 3 });
+      graph.addEdge('b', 'a', 'KNOWS', { weight: 4 });
+    });
+
+    it('should iterate over the same nodes and edges as the array methods', () => {
+      expect(Array.from(graph.nodes())).toEqual(graph.getAllNodes());
+      expect(Array.from(graph.edges())).toEqual(graph.getAllEdges());
+      for (const direction of ['outgoing', 'incoming', 'both'] as const) {
+        expect(Array.from(graph.neighborsOf('a', direction))).toEqual(graph.getNeighbors('a', direction));
+        expect(Array.from(graph.edgesOf('a', direction))).toEqual(graph.getEdgesForNode('a', direction));
+      }
+    });
+
+    it('should yield distinct neighbors, outgoing first', () => {
+      expect(Array.from(graph.neighborsOf('a'), node => node.id)).toEqual(['b', 'c']);
+      expect(Array.from(graph.edgesOf('a'), edge => `${edge.source}-${edge.label}->${edge.target}`)).toEqual([
+        'a-KNOWS->b', 'a-LIKES->b', 'c-KNOWS->a', 'b-KNOWS->a'
+      ]);
+    });
+
+    it('should produce items on demand', () => {
+      const nodes = graph.nodes();
+      expect(nodes.next().value?.id).toBe('a');
+
+      // Changes made during the iteration are visible, like with Map iteration
+      graph.removeNode('b');
+      graph.addNode('d', 'Person', { name: 'D' });
+      expect(Array.from(nodes, node => node.id)).toEqual(['c', 'd']);
+    });
+
+    it('should yield nothing for unknown nodes', () => {
+      expect(Array.from(graph.neighborsOf('missing'))).toEqual([]);
+      expect(Array.from(graph.edgesOf('missing'))).toEqual([]);
+    });
+  });
+
+  describe('Subgraphs', () => {
+    beforeEach(() => {
+      // a -> b -> c -> d, a -> c, e alone
+      graph.addNode('a', ['Person', 'Admin'], { name: 'A' });
+      graph.addNode('b', 'Person', { name: 'B' });
+      graph.addNode('c', 'Person', { name: 'C' });
+      graph.addNode('d', 'Team', { name: 'D' });
+      graph.addNode('e', 'Person', { name: 'E' });
+      graph.addEdge('a', 'b', 'KNOWS', { weight: 1 });
+      graph.addEdge('b', 'c', 'KNOWS', { weight: 2 });
+      graph.addEdge('c', 'd', 'MEMBER_OF', { weight: 3 });
+      graph.addEdge('a', 'c', 'MEMBER_OF', { weight: 4 });
+    });
+
+    const ids = (g: Graph) => g.getAllNodes().map(node => node.id);
+    const edgeKeys = (g: Graph) => g.getAllEdges().map(edge => `${edge.source}-${edge.label}->${edge.target}`);
+
+    it('should extract an induced subgraph', () => {
+      const subgraph = graph.inducedSubgraph(['c', 'a', 'b', 'missing']);
+
+      expect(ids(subgraph)).toEqual(['a', 'b', 'c']);
+      expect(edgeKeys(subgraph)).toEqual(['a-KNOWS->b', 'a-MEMBER_OF->c', 'b-KNOWS->c']);
+      expect(subgraph.getNode('a')!.labels).toEqual(['Person', 'Admin']);
+    });
+
+    it('should copy data unless asked to share it', () => {
+      const copied = graph.inducedSubgraph(['a', 'b']);
+      copied.getNode('a')!.data.name = 'changed';
+      copied.getEdge('a', 'b', 'KNOWS')!.data.weight = 10;
+      expect(graph.getNode('a')!.data.name).toBe('A');
+      expect(graph.getEdge('a', 'b', 'KNOWS')!.data.weight).toBe(1);
+
+      const shared = graph.inducedSubgraph(['a', 'b'], { copyData: false });
+      expect(shared.getNode('a')!.data).toBe(graph.getNode('a')!.data);
+      expect(shared.getEdge('a', 'b', 'KNOWS')!.data).toBe(graph.getEdge('a', 'b', 'KNOWS')!.data);
+    });
+
+    it('should extract an ego network', () => {
+      expect(ids(graph.egoNetwork('b')!)).toEqual(['a', 'b', 'c']);
+      expect(ids(graph.egoNetwork('b', { hops: 2 })!)).toEqual(['a', 'b', 'c', 'd']);
+      expect(ids(graph.egoNetwork('b', { hops: 2, direction: 'outgoing' })!)).toEqual(['b', 'c', 'd']);
+      expect(graph.egoNetwork('missing')).toBeUndefined();
+    });
+
+    it('should only follow and copy the given relationship types in an ego network', () => {
+      const network = graph.egoNetwork('a', { hops: 3, relationshipTypes: ['KNOWS'] })!;
+
+      expect(ids(network)).toEqual(['a', 'b', 'c']);
+      expect(edgeKeys(network)).toEqual(['a-KNOWS->b', 'b-KNOWS->c']);
+    });
+
+    it('should filter nodes and edges', () => {
+      const people = graph.filter(node => node.labels.includes('Person'));
+      expect(ids(people)).toEqual(['a', 'b', 'c', 'e']);
+      expect(edgeKeys(people)).toEqual(['a-KNOWS->b', 'a-MEMBER_OF->c', 'b-KNOWS->c']);
+
+      const heavy = graph.filter(() => true, edge => edge.data.weight > 2);
+      expect(ids(heavy)).toEqual(['a', 'b', 'c', 'd', 'e']);
+      expect(edgeKeys(heavy)).toEqual(['a-MEMBER_OF->c', 'c-MEMBER_OF->d']);
+    });
+
+    it('should not share indexes, constraints or subscribers', () => {
+      graph.createIndex('Person', 'name');
+      const changes: unknown[] = [];
+      graph.subscribe(changeSet => changes.push(changeSet));
+
+      const subgraph = graph.filter(() => true);
+      subgraph.addNode('f', 'Person', { name: 'F' });
+
+      expect(subgraph.hasIndex('Person', 'name')).toBe(false);
+      expect(changes).toHaveLength(0);
+    });
+  });
+
   describe('Graph-wide operations', () => {
     beforeEach(() => {
       graph.addNode('n1', 'person', { name: 'Alice' });
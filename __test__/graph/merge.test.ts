@@ -0,0 +1,135 @@
+import { ConstraintViolationError, Graph } from '@/graph';
+
+interface NodeData {
+  name: string;
+  tags?: string[];
+  meta?: { created?: number; updated?: number };
+}
+
+describe('Graph merge', () => {
+  let graph: Graph<NodeData, { weight: number }>;
+  let other: Graph<NodeData, { weight: number }>;
+
+  beforeEach(() => {
+    graph = new Graph();
+    graph.addNode('a', 'Person', { name: 'Alice', meta: { created: 1 } });
+    graph.addNode('b', 'Person', { name: 'Bob' });
+    graph.addEdge('a', 'b', 'KNOWS', { weight: 1 });
+
+    other = new Graph();
+    other.addNode('a', ['Person', 'Admin'], { name: 'Alice Smith', meta: { updated: 2 } });
+    other.addNode('b', 'Person', { name: 'Bob' });
+    other.addNode('c', 'Person', { name: 'Carol' });
+    other.addEdge('a', 'b', 'KNOWS', { weight: 5 });
+    other.addEdge('b', 'c', 'KNOWS', { weight: 2 });
+  });
+
+  it('should add new elements and keep existing ones by default', () => {
+    const report = graph.merge(other);
+
+    expect(report).toEqual({
+      addedNodes: ['c'],
+      updatedNodes: [],
+      conflictingNodes: ['a'],
+      addedEdges: [{ source: 'b', target: 'c', label: 'KNOWS' }],
+      updatedEdges: [],
+      conflictingEdges: [{ source: 'a', target: 'b', label: 'KNOWS' }]
+    });
+    expect(graph.getNode('a')!.data.name).toBe('Alice');
+    expect(graph.getNode('a')!.labels).toEqual(['Person']);
+    expect(graph.getEdge('a', 'b', 'KNOWS')!.data.weight).toBe(1);
+  });
+
+  it('should overwrite conflicting elements', () => {
+    const report = graph.merge(other, { onNodeConflict: 'overwrite', onEdgeConflict: 'overwrite' });
+
+    expect(report.updatedNodes).toEqual(['a']);
+    expect(report.updatedEdges).toEqual([{ source: 'a', target: 'b', label: 'KNOWS' }]);
+    expect(graph.getNode('a')!.labels).toEqual(['Person', 'Admin']);
+    expect(graph.getNode('a')!.data).toEqual({ name: 'Alice Smith', meta: { updated: 2 } });
+    expect(graph.getEdge('a', 'b', 'KNOWS')!.data.weight).toBe(5);
+  });
+
+  it('should deep-merge data and combine labels', () => {
+    graph.merge(other, { onNodeConflict: 'mergeData' });
+
+    expect(graph.getNode('a')!.labels).toEqual(['Person', 'Admin']);
+    expect(graph.getNode('a')!.data).toEqual({ name: 'Alice Smith', meta: { created: 1, updated: 2 } });
+  });
+
+  it('should resolve conflicts with custom resolvers', () => {
+    const report = graph.merge(other, {
+      onNodeConflict: (existing, incoming) => ({ ...existing.data, tags: [incoming.data.name] }),
+      onEdgeConflict: (existing, incoming) => ({ weight: existing.data.weight + incoming.data.weight })
+    });
+
+    expect(graph.getNode('a')!.data).toEqual({ name: 'Alice', meta: { created: 1 }, tags: ['Alice Smith'] });
+    expect(graph.getNode('a')!.labels).toEqual(['Person', 'Admin']);
+    expect(graph.getEdge('a', 'b', 'KNOWS')!.data.weight).toBe(6);
+    expect(report.updatedNodes).toEqual(['a']);
+  });
+
+  it('should copy incoming data unless asked to share it', () => {
+    graph.merge(other);
+    expect(graph.getNode('c')!.data).not.toBe(other.getNode('c')!.data);
+
+    const shared = new Graph<NodeData, { weight: number }>();
+    shared.merge(other, { copyData: false });
+    expect(shared.getNode('c')!.data).toBe(other.getNode('c')!.data);
+  });
+
+  it('should deliver one change set and leave the other graph unchanged', () => {
+    const changeSets: unknown[] = [];
+    graph.subscribe(changes => changeSets.push(changes));
+
+    graph.merge(other, { onNodeConflict: 'overwrite' });
+
+    expect(changeSets).toHaveLength(1);
+    expect(other.getNode('a')!.data).toEqual({ name: 'Alice Smith', meta: { updated: 2 } });
+  });
+
+  it('should match edges with IDs by ID', () => {
+    graph.addEdge('a', 'b', 'KNOWS', { weight: 2 }, 'k1');
+    other.addEdge('a', 'b', 'KNOWS', { weight: 3 }, 'k1');
+    other.addEdge('a', 'b', 'KNOWS', { weight: 4 }, 'k2');
+
+    const report = graph.merge(other, { onEdgeConflict: 'overwrite' });
+
+    expect(report.addedEdges).toEqual([
+      { id: 'k2', source: 'a', target: 'b', label: 'KNOWS' },
+      { source: 'b', target: 'c', label: 'KNOWS' }
+    ]);
+    expect(report.updatedEdges).toEqual([
+      { source: 'a', target: 'b', label: 'KNOWS' },
+      { id: 'k1', source: 'a', target: 'b', label: 'KNOWS' }
+    ]);
+    expect(graph.getEdgeById('k1')!.data.weight).toBe(3);
+    expect(graph.getEdgeById('k2')!.data.weight).toBe(4);
+    expect(graph.getEdge('a', 'b', 'KNOWS')!.data.weight).toBe(5);
+  });
+
+  it('should refuse an edge ID that connects different nodes in the two graphs', () => {
+    graph.addEdge('a', 'b', 'KNOWS', { weight: 2 }, 'k1');
+    other.addEdge('b', 'a', 'KNOWS', { weight: 2 }, 'k1');
+
+    expect(() => graph.merge(other)).toThrow('Edge with ID "k1" connects different nodes');
+    expect(graph.hasNode('c')).toBe(false);
+  });
+
+  it('should roll back everything when a change violates a constraint', () => {
+    graph.createConstraint('UNIQUE (Person.name)');
+    other.addNode('d', 'Person', { name: 'Alice' });
+
+    let error: unknown;
+    try {
+      graph.merge(other);
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error).toBeInstanceOf(ConstraintViolationError);
+    expect(graph.hasNode('c')).toBe(false);
+    expect(graph.getAllNodes()).toHaveLength(2);
+    expect(graph.inTransaction()).toBe(false);
+  });
+});
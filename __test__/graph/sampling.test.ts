@@ -0,0 +1,132 @@
+import { Graph, egoSample, forestFireSample, randomNodeSample, randomWalks } from '@/graph';
+
+describe('Random walks and sampling', () => {
+  let graph: Graph<{ name: string }, Record<string, never>>;
+
+  beforeEach(() => {
+    // A 5 x 5 grid with edges pointing right and down
+    graph = new Graph();
+    for (let row = 0; row < 5; row++) {
+      for (let col = 0; col < 5; col++) {
+        graph.addNode(`${row}${col}`, 'Cell', { name: `${row}${col}` });
+        if (col > 0) {
+          graph.addEdge(`${row}${col - 1}`, `${row}${col}`, 'RIGHT', {});
+        }
+        if (row > 0) {
+          graph.addEdge(`${row - 1}${col}`, `${row}${col}`, 'DOWN', {});
+        }
+      }
+    }
+  });
+
+  describe('randomWalks', () => {
+    it('should follow edges from every node', () => {
+      const walks = randomWalks(graph, { walkLength: 4, seed: 1 });
+
+      expect(walks).toHaveLength(25);
+      for (const walk of walks) {
+        expect(walk.nodes.length).toBeLessThanOrEqual(4);
+        expect(walk.edges).toHaveLength(walk.nodes.length - 1);
+        walk.edges.forEach((edge, i) => {
+          expect(edge.source).toBe(walk.nodes[i].id);
+          expect(edge.target).toBe(walk.nodes[i + 1].id);
+        });
+      }
+      // Walks from the last cell can't go anywhere
+      expect(walks[24].nodes.map(node => node.id)).toEqual(['44']);
+    });
+
+    it('should repeat walks for the same seed', () => {
+      const ids = (seed: number) => randomWalks(graph, { walksPerNode: 3, seed }).map(walk => walk.nodes.map(node => node.id));
+
+      expect(ids(5)).toEqual(ids(5));
+      expect(ids(5)).not.toEqual(ids(6));
+    });
+
+    it('should respect start nodes, direction and relationship types', () => {
+      const walks = randomWalks(graph, {
+        startNodeIds: ['44', 'missing'],
+        direction: 'incoming',
+        relationshipTypes: ['RIGHT'],
+        walkLength: 10,
+        seed: 2
+      });
+
+      expect(walks).toHaveLength(1);
+      expect(walks[0].nodes.map(node => node.id)).toEqual(['44', '43', '42', '41', '40']);
+    });
+
+    it('should bias steps back to the previous node with p', () => {
+      const backSteps = (p: number) => randomWalks(graph, { direction: 'both', walkLength: 20, p, seed: 3 })
+        .reduce((count, walk) => count + walk.nodes.filter((node, i) => i > 1 && node.id === walk.nodes[i - 2].id).length, 0);
+
+      expect(backSteps(0.05)).toBeGreaterThan(backSteps(20) * 5);
+    });
+
+    it('should reject invalid parameters', () => {
+      expect(() => randomWalks(graph, { q: 0 })).toThrow('Invalid node2vec parameters p=1, q=0');
+    });
+  });
+
+  describe('randomNodeSample', () => {
+    it('should copy the sampled nodes and the edges between them', () => {
+      const sample = randomNodeSample(graph, { size: 10, seed: 4 });
+
+      expect(sample.getAllNodes()).toHaveLength(10);
+      for (const edge of graph.getAllEdges()) {
+        const inSample = sample.hasNode(edge.source) && sample.hasNode(edge.target);
+        expect(sample.hasEdge(edge.source, edge.target, edge.label)).toBe(inSample);
+      }
+
+      sample.getAllNodes().forEach(node => sample.updateNodeData(node.id, { name: 'changed' }));
+      expect(graph.getAllNodes().every(node => node.data.name !== 'changed')).toBe(true);
+    });
+
+    it('should repeat samples for the same seed and cap the size', () => {
+      const ids = (seed: number) => randomNodeSample(graph, { size: 5, seed }).getAllNodes().map(node => node.id);
+
+      expect(ids(9)).toEqual(ids(9));
+      expect(randomNodeSample(graph, { size: 100 }).getAllNodes()).toHaveLength(25);
+    });
+  });
+
+  describe('forestFireSample', () => {
+    it('should burn the requested number of nodes', () => {
+      const sample = forestFireSample(graph, { size: 12, seed: 5 });
+
+      expect(sample.getAllNodes()).toHaveLength(12);
+      expect(sample.getAllEdges().length).toBeGreaterThan(0);
+      expect(forestFireSample(graph, { size: 12, seed: 5 }).getAllNodes()).toEqual(sample.getAllNodes());
+    });
+
+    it('should restart when the fire dies out', () => {
+      const sample = forestFireSample(graph, { size: 25, burnProbability: 0, seed: 6 });
+
+      expect(sample.getAllNodes()).toHaveLength(25);
+      expect(() => forestFireSample(graph, { size: 5, burnProbability: 1 })).toThrow('Invalid burn probability 1');
+    });
+  });
+
+  describe('egoSample', () => {
+    it('should sample the nodes within k hops', () => {
+      const sample = egoSample(graph, '22', { depth: 2 })!;
+
+      expect(sample.getAllNodes().map(node => node.id).sort()).toEqual(
+        ['02', '11', '12', '13', '20', '21', '22', '23', '24', '31', '32', '33', '42'].sort()
+      );
+      expect(sample.hasEdge('21', '22', 'RIGHT')).toBe(true);
+    });
+
+    it('should follow direction and limit the fanout', () => {
+      expect(egoSample(graph, '22', { direction: 'outgoing' })!.getAllNodes().map(node => node.id))
+        .toEqual(['22', '23', '32']);
+
+      const sample = egoSample(graph, '22', { depth: 2, fanout: 1, seed: 7 })!;
+      expect(sample.getAllNodes()).toHaveLength(3);
+    });
+
+    it('should return undefined for a missing center', () => {
+      expect(egoSample(graph, 'missing')).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,229 @@
+import { Graph } from '@/graph';
+
+describe('Weighted shortest paths', () => {
+  let graph: Graph<{ name: string }, { distance?: number }>;
+
+  beforeEach(() => {
+    graph = new Graph();
+    // a --5--> b --1--> d
+    // a --1--> c --1--> b
+    // c --7--> d, d --1--> e (FERRY)
+    for (const id of ['a', 'b', 'c', 'd', 'e', 'f']) {
+      graph.addNode(id, 'City', { name: id.toUpperCase() });
+    }
+    graph.addEdge('a', 'b', 'ROAD', { distance: 5 });
+    graph.addEdge('a', 'c', 'ROAD', { distance: 1 });
+    graph.addEdge('c', 'b', 'ROAD', { distance: 1 });
+    graph.addEdge('b', 'd', 'ROAD', { distance: 1 });
+    graph.addEdge('c', 'd', 'ROAD', { distance: 7 });
+    graph.addEdge('d', 'e', 'FERRY', { distance: 1 });
+  });
+
+  describe('shortestPath', () => {
+    it('should find the cheapest path by edge property', () => {
+      const path = graph.shortestPath('a', 'd', { weight: 'distance' });
+
+      expect(path?.nodes.map(n => n.id)).toEqual(['a', 'c', 'b', 'd']);
+      expect(path?.edges.map(e => `${e.source}->${e.target}`)).toEqual(['a->c', 'c->b', 'b->d']);
+      expect(path?.cost).toBe(3);
+    });
+
+    it('should count hops when no weight is given', () => {
+      const path = graph.shortestPath('a', 'd');
+
+      expect(path?.nodes).toHaveLength(3);
+      expect(path?.cost).toBe(2);
+    });
+
+    it('should accept a weight function', () => {
+      const path = graph.shortestPath('a', 'd', { weight: edge => edge.target === 'b' ? 100 : 1 });
+
+      expect(path?.nodes.map(n => n.id)).toEqual(['a', 'c', 'd']);
+      expect(path?.cost).toBe(2);
+    });
+
+    it('should respect direction', () => {
+      expect(graph.shortestPath('d', 'a', { weight: 'distance' })).toBeUndefined();
+
+      const incoming = graph.shortestPath('d', 'a', { weight: 'distance', direction: 'incoming' });
+      expect(incoming?.nodes.map(n => n.id)).toEqual(['d', 'b', 'c', 'a']);
+      // Edges keep their stored orientation
+      expect(incoming?.edges[0]).toMatchObject({ source: 'b', target: 'd' });
+
+      const both = graph.shortestPath('e', 'a', { weight: 'distance', direction: 'both' });
+      expect(both?.cost).toBe(4);
+    });
+
+    it('should only traverse the given relationship types', () => {
+      expect(graph.shortestPath('a', 'e', { relationshipTypes: ['ROAD'] })).toBeUndefined();
+      expect(graph.shortestPath('a', 'e', { relationshipTypes: ['ROAD', 'FERRY'] })?.cost).toBe(3);
+    });
+
+    it('should return a zero-cost path from a node to itself', () => {
+      const path = graph.shortestPath('a', 'a', { weight: 'distance' });
+
+      expect(path?.nodes.map(n => n.id)).toEqual(['a']);
+      expect(path?.edges).toEqual([]);
+      expect(path?.cost).toBe(0);
+    });
+
+    it('should return undefined for unreachable or missing nodes', () => {
+      expect(graph.shortestPath('a', 'f')).toBeUndefined();
+      expect(graph.shortestPath('a', 'missing')).toBeUndefined();
+    });
+
+    it('should reject negative and missing weights', () => {
+      graph.addEdge('e', 'f', 'ROAD', { distance: -1 });
+      graph.addEdge('f', 'a', 'ROAD', {});
+
+      expect(() => graph.shortestPath('e', 'f', { weight: 'distance' }))
+        .toThrow('Invalid weight -1 from property "distance" for edge (e)-[:ROAD]->(f)');
+      expect(() => graph.shortestPath('f', 'a', { weight: 'distance' })).toThrow('Invalid weight undefined');
+    });
+  });
+
+  describe('shortestPathDistances', () => {
+    it('should return the cost to every reachable node', () => {
+      const distances = graph.shortestPathDistances('a', { weight: 'distance' });
+
+      expect(Object.fromEntries(distances)).toEqual({ a: 0, c: 1, b: 2, d: 3, e: 4 });
+    });
+
+    it('should return an empty map for a missing start node', () => {
+      expect(graph.shortestPathDistances('missing').size).toBe(0);
+    });
+  });
+
+  describe('aStar', () => {
+    type Point = { x: number; y: number };
+    let grid: Graph<Point, { length: number }>;
+    const straightLine = (node: { data: Point }, goal: { data: Point }) =>
+      Math.hypot(node.data.x - goal.data.x, node.data.y - goal.data.y);
+
+    // A 10x10 grid with unit-length roads in both directions between neighbours
+    beforeEach(() => {
+      grid = new Graph();
+      for (let x = 0; x < 10; x++) {
+        for (let y = 0; y < 10; y++) {
+          grid.addNode(`${x},${y}`, 'Junction', { x, y });
+        }
+      }
+      for (let x = 0; x < 10; x++) {
+        for (let y = 0; y < 10; y++) {
+          if (x < 9) {
+            grid.addEdge(`${x},${y}`, `${x + 1},${y}`, 'ROAD', { length: 1 });
+            grid.addEdge(`${x + 1},${y}`, `${x},${y}`, 'ROAD', { length: 1 });
+          }
+          if (y < 9) {
+            grid.addEdge(`${x},${y}`, `${x},${y + 1}`, 'ROAD', { length: 1 });
+            grid.addEdge(`${x},${y + 1}`, `${x},${y}`, 'ROAD', { length: 1 });
+          }
+        }
+      }
+    });
+
+    it('should find a cheapest path and expand fewer nodes than a blind search', () => {
+      const guided = grid.aStar('0,0', '9,0', { weight: 'length', heuristic: straightLine });
+      const blind = grid.aStar('0,0', '9,0', { weight: 'length', heuristic: () => 0 });
+
+      expect(guided.path?.cost).toBe(9);
+      expect(guided.path?.nodes.map(n => n.id)).toEqual(
+        Array.from({ length: 10 }, (_, x) => `${x},0`)
+      );
+      expect(guided.path?.edges).toHaveLength(9);
+      expect(blind.path?.cost).toBe(9);
+      expect(guided.expanded).toBeLessThan(blind.expanded);
+    });
+
+    it('should agree with Dijkstra on weighted graphs', () => {
+      const dijkstra = graph.shortestPath('a', 'e', { weight: 'distance' });
+      const { path } = graph.aStar('a', 'e', { weight: 'distance', heuristic: () => 0 });
+
+      expect(path?.nodes.map(n => n.id)).toEqual(dijkstra?.nodes.map(n => n.id));
+      expect(path?.cost).toBe(dijkstra?.cost);
+    });
+
+    it('should respect direction and relationship types', () => {
+      expect(graph.aStar('d', 'a', { heuristic: () => 0 }).path).toBeUndefined();
+      expect(graph.aStar('d', 'a', { heuristic: () => 0, direction: 'incoming' }).path?.cost).toBe(2);
+      expect(graph.aStar('a', 'e', { heuristic: () => 0, relationshipTypes: ['ROAD'] }).path).toBeUndefined();
+    });
+
+    it('should report the expanded nodes when the goal is unreachable', () => {
+      const result = graph.aStar('a', 'f', { heuristic: () => 0 });
+
+      expect(result.path).toBeUndefined();
+      expect(result.expanded).toBe(5);
+    });
+
+    it('should reject invalid heuristic values', () => {
+      expect(() => graph.aStar('a', 'd', { heuristic: () => -1 }))
+        .toThrow('Invalid heuristic value -1 for node "a"');
+    });
+  });
+
+  describe('allShortestPaths', () => {
+    it('should return every path that ties for the lowest cost', () => {
+      const paths = graph.allShortestPaths('a', 'd');
+
+      expect(paths.map(p => p.nodes.map(n => n.id))).toEqual([
+        ['a', 'b', 'd'],
+        ['a', 'c', 'd']
+      ]);
+      expect(paths.every(p => p.cost === 2)).toBe(true);
+    });
+
+    it('should tell parallel edges apart', () => {
+      graph.addEdge('a', 'b', 'RAIL', { distance: 5 });
+      const paths = graph.allShortestPaths('a', 'b');
+
+      expect(paths.map(p => p.edges.map(e => e.label))).toEqual([['ROAD'], ['RAIL']]);
+    });
+
+    it('should use the weight', () => {
+      const paths = graph.allShortestPaths('a', 'd', { weight: 'distance' });
+
+      expect(paths).toHaveLength(1);
+      expect(paths[0].cost).toBe(3);
+    });
+
+    it('should return an empty array when there is no path', () => {
+      expect(graph.allShortestPaths('a', 'f')).toEqual([]);
+      expect(graph.allShortestPaths('missing', 'a')).toEqual([]);
+    });
+  });
+
+  describe('kShortestPaths', () => {
+    it('should return the k cheapest simple paths in order of cost', () => {
+      const paths = graph.kShortestPaths('a', 'd', 3, { weight: 'distance' });
+
+      expect(paths.map(p => p.nodes.map(n => n.id))).toEqual([
+        ['a', 'c', 'b', 'd'],
+        ['a', 'b', 'd'],
+        ['a', 'c', 'd']
+      ]);
+      expect(paths.map(p => p.cost)).toEqual([3, 6, 8]);
+      expect(paths[1].edges.map(e => e.label)).toEqual(['ROAD', 'ROAD']);
+    });
+
+    it('should return fewer paths when fewer exist', () => {
+      expect(graph.kShortestPaths('a', 'd', 10, { weight: 'distance' })).toHaveLength(3);
+      expect(graph.kShortestPaths('a', 'f', 3)).toEqual([]);
+      expect(graph.kShortestPaths('a', 'd', 0)).toEqual([]);
+    });
+
+    it('should only return loopless paths when traversing both directions', () => {
+      const paths = graph.kShortestPaths('a', 'e', 20, { direction: 'both' });
+
+      for (const path of paths) {
+        const ids = path.nodes.map(n => n.id);
+        expect(new Set(ids).size).toBe(ids.length);
+        expect(path.edges).toHaveLength(ids.length - 1);
+      }
+      const keys = paths.map(p => p.edges.map(e => `${e.source}-${e.label}-${e.target}`).join(','));
+      expect(new Set(keys).size).toBe(keys.length);
+      expect(paths.map(p => p.cost)).toEqual([...paths.map(p => p.cost)].sort((x, y) => x - y));
+    });
+  });
+});
+
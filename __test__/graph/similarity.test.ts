@@ -0,0 +1,102 @@
+import { Graph, SimilarityOptions, findSimilarNodes, nodeSimilarity } from '@/graph';
+
+describe('Similarity', () => {
+  let graph: Graph<{ name: string }, { score?: number }>;
+  const tagged: SimilarityOptions = { direction: 'outgoing', relationshipTypes: ['TAGGED'] };
+
+  beforeEach(() => {
+    graph = new Graph();
+    for (const id of ['n1', 'n2', 'n3', 'n4']) {
+      graph.addNode(id, 'Note', { name: id });
+    }
+    for (const id of ['t1', 't2', 't3']) {
+      graph.addNode(id, 'Tag', { name: id });
+    }
+    // n1 and n2 share both tags, n3 shares t2 with them and t3 with n4
+    graph.addEdge('n1', 't1', 'TAGGED', {});
+    graph.addEdge('n1', 't2', 'TAGGED', {});
+    graph.addEdge('n2', 't1', 'TAGGED', {});
+    graph.addEdge('n2', 't2', 'TAGGED', {});
+    graph.addEdge('n3', 't2', 'TAGGED', {});
+    graph.addEdge('n3', 't3', 'TAGGED', {});
+    graph.addEdge('n4', 't3', 'TAGGED', {});
+    graph.addEdge('n1', 'n3', 'LINKS', {});
+  });
+
+  describe('nodeSimilarity', () => {
+    it('should compare neighbor sets', () => {
+      expect(nodeSimilarity(graph, 'n1', 'n2', tagged)).toBe(1);
+      expect(nodeSimilarity(graph, 'n1', 'n3', tagged)).toBeCloseTo(1 / 3, 10);
+      expect(nodeSimilarity(graph, 'n3', 'n4', { ...tagged, metric: 'overlap' })).toBe(1);
+      expect(nodeSimilarity(graph, 'n1', 'n3', { ...tagged, metric: 'cosine' })).toBeCloseTo(0.5, 10);
+      expect(nodeSimilarity(graph, 'n1', 'n4', tagged)).toBe(0);
+    });
+
+    it('should compute link prediction scores', () => {
+      expect(nodeSimilarity(graph, 'n1', 'n3', { ...tagged, metric: 'commonNeighbors' })).toBe(1);
+      expect(nodeSimilarity(graph, 'n1', 'n4', { ...tagged, metric: 'preferentialAttachment' })).toBe(2);
+      // t1 has 2 neighbors and t2 has 3
+      expect(nodeSimilarity(graph, 'n1', 'n2', { ...tagged, metric: 'adamicAdar' }))
+        .toBeCloseTo(1 / Math.log(2) + 1 / Math.log(3), 10);
+    });
+
+    it('should follow direction and relationship types', () => {
+      // Ignoring direction, n1 also has n3 as a neighbor
+      expect(nodeSimilarity(graph, 'n1', 'n2')).toBeCloseTo(2 / 3, 10);
+      // Tags are similar by the notes pointing at them
+      expect(nodeSimilarity(graph, 't1', 't2', { direction: 'incoming' })).toBeCloseTo(2 / 3, 10);
+      expect(nodeSimilarity(graph, 't1', 't2', { direction: 'outgoing' })).toBe(0);
+    });
+
+    it('should return undefined for missing nodes', () => {
+      expect(nodeSimilarity(graph, 'n1', 'missing')).toBeUndefined();
+    });
+  });
+
+  describe('findSimilarNodes', () => {
+    it('should keep the top K nodes per node', () => {
+      expect(findSimilarNodes(graph, { ...tagged, topK: 1 })).toEqual([
+        { source: 'n1', target: 'n2', score: 1 },
+        { source: 'n2', target: 'n1', score: 1 },
+        { source: 'n3', target: 'n4', score: 0.5 },
+        { source: 'n4', target: 'n3', score: 0.5 }
+      ]);
+    });
+
+    it('should filter by node and minimum score', () => {
+      const results = findSimilarNodes(graph, { ...tagged, nodeIds: ['n3'], minScore: 0.4 });
+
+      expect(results).toEqual([{ source: 'n3', target: 'n4', score: 0.5 }]);
+    });
+
+    it('should skip existing neighbors to predict links', () => {
+      const results = findSimilarNodes(graph, { metric: 'commonNeighbors', nodeIds: ['n1'], excludeNeighbors: true });
+
+      expect(results).toEqual([
+        { source: 'n1', target: 'n2', score: 2 },
+        { source: 'n1', target: 't3', score: 1 }
+      ]);
+    });
+
+    it('should consider all nodes for preferential attachment', () => {
+      const results = findSimilarNodes(graph, { ...tagged, metric: 'preferentialAttachment', nodeIds: ['n4'] });
+
+      expect(results.map(result => [result.target, result.score])).toEqual([['n1', 2], ['n2', 2], ['n3', 2]]);
+    });
+
+    it('should write similarity edges with the score', () => {
+      const changeSets: unknown[] = [];
+      graph.subscribe(changes => changeSets.push(changes));
+
+      findSimilarNodes(graph, { ...tagged, topK: 1, writeRelationshipType: 'SIMILAR_TO' });
+
+      expect(graph.getRelationshipsByType('SIMILAR_TO').map(edge => [edge.source, edge.target, edge.data.score]))
+        .toEqual([['n1', 'n2', 1], ['n2', 'n1', 1], ['n3', 'n4', 0.5], ['n4', 'n3', 0.5]]);
+      expect(changeSets).toHaveLength(1);
+
+      // Running again updates the existing edges
+      findSimilarNodes(graph, { ...tagged, topK: 1, writeRelationshipType: 'SIMILAR_TO', writeProperty: 'weight' });
+      expect(graph.getEdge('n1', 'n2', 'SIMILAR_TO')!.data).toEqual({ score: 1, weight: 1 });
+    });
+  });
+});
@@ -0,0 +1,91 @@
+import { Graph, globalClusteringCoefficient, localClusteringCoefficient, triangleCount } from '@/graph';
+
+describe('Triangles', () => {
+  let graph: Graph<{ triangles?: number }, Record<string, never>>;
+
+  beforeEach(() => {
+    // Triangles a-b-c and b-c-d, a tail d-e and a lone node f
+    graph = new Graph();
+    for (const id of ['a', 'b', 'c', 'e', 'f']) {
+      graph.addNode(id, 'Note', {});
+    }
+    graph.addNode('d', 'Tag', {});
+    graph.addEdge('a', 'b', 'LINKS', {});
+    graph.addEdge('b', 'c', 'LINKS', {});
+    graph.addEdge('c', 'a', 'LINKS', {});
+    graph.addEdge('c', 'd', 'LINKS', {});
+    graph.addEdge('d', 'b', 'CITES', {});
+    graph.addEdge('d', 'e', 'LINKS', {});
+    // Parallel and reverse edges and self-loops add no triangles
+    graph.addEdge('a', 'b', 'CITES', {});
+    graph.addEdge('b', 'a', 'LINKS', {});
+    graph.addEdge('a', 'a', 'LINKS', {});
+  });
+
+  it('should count the triangles of every node', () => {
+    expect(Object.fromEntries(triangleCount(graph))).toEqual({ a: 1, b: 2, c: 2, d: 1, e: 0, f: 0 });
+  });
+
+  it('should compute local clustering coefficients', () => {
+    const coefficients = localClusteringCoefficient(graph);
+
+    expect(coefficients.get('a')).toBe(1);
+    expect(coefficients.get('b')).toBeCloseTo(2 / 3, 10);
+    expect(coefficients.get('d')).toBeCloseTo(1 / 3, 10);
+    expect(coefficients.get('e')).toBe(0);
+    expect(coefficients.get('f')).toBe(0);
+  });
+
+  it('should compute the global clustering coefficient', () => {
+    // 6 closed of 10 connected triples
+    expect(globalClusteringCoefficient(graph)).toBeCloseTo(0.6, 10);
+    expect(globalClusteringCoefficient(new Graph())).toBe(0);
+  });
+
+  it('should filter by relationship type and node label', () => {
+    expect(Object.fromEntries(triangleCount(graph, { relationshipTypes: ['LINKS'] })))
+      .toEqual({ a: 1, b: 1, c: 1, d: 0, e: 0, f: 0 });
+    expect(Object.fromEntries(triangleCount(graph, { nodeLabels: ['Note'] })))
+      .toEqual({ a: 1, b: 1, c: 1, e: 0, f: 0 });
+    expect(globalClusteringCoefficient(graph, { nodeLabels: ['Note'] })).toBe(1);
+  });
+
+  it('should write triangle counts into node data', () => {
+    triangleCount(graph, { writeProperty: 'triangles' });
+
+    expect(graph.getNode('b')!.data.triangles).toBe(2);
+  });
+
+  it('should match a brute-force count on a random graph', () => {
+    const random = new Graph();
+    let seed = 11;
+    const next = () => (seed = (seed * 16807) % 2147483647) / 2147483647;
+    const size = 40;
+    for (let i = 0; i < size; i++) {
+      random.addNode(`n${i}`, 'Node', {});
+    }
+    for (let i = 0; i < 200; i++) {
+      const source = `n${Math.floor(next() * size)}`;
+      const target = `n${Math.floor(next() * size)}`;
+      if (!random.hasEdge(source, target, 'LINK')) {
+        random.addEdge(source, target, 'LINK', {});
+      }
+    }
+
+    const adjacent = (x: string, y: string) => x !== y && (random.hasEdge(x, y) || random.hasEdge(y, x));
+    const expected = new Map<string, number>();
+    for (let i = 0; i < size; i++) {
+      let count = 0;
+      for (let j = 0; j < size; j++) {
+        for (let k = j + 1; k < size; k++) {
+          if (adjacent(`n${i}`, `n${j}`) && adjacent(`n${i}`, `n${k}`) && adjacent(`n${j}`, `n${k}`)) {
+            count++;
+          }
+        }
+      }
+      expected.set(`n${i}`, count);
+    }
+
+    expect(triangleCount(random)).toEqual(expected);
+  });
+});
@@ -209,6 +209,82 @@ describe('End-to-End Query Execution', () => {
     );
   });
 
-  // Add more tests for complex WHERE clauses, OR, NOT, EXISTS etc. as needed
+  describe('Property indexes', () => {
+    // Records the index lookups the matcher performs
+    const recordIndexLookups = (target: Graph): unknown[][] => {
+      const calls: unknown[][] = [];
+      const findNodesByIndex = target.findNodesByIndex.bind(target);
+      target.findNodesByIndex = (...args) => {
+        calls.push(args);
+        return findNodesByIndex(...args);
+      };
+      return calls;
+    };
+
+    beforeEach(() => {
+      graph.createIndex('task', 'status');
+      graph.createIndex('person', 'age');
+      graph.createIndex('person', 'name');
+    });
+
+    test('uses an index for pattern properties', () => {
+      const lookups = recordIndexLookups(graph);
+      const results = executeQuery(graph, "MATCH (t:task {status: 'open'}) RETURN t");
+
+      expect(results.map(b => b.get('t')?.id).sort()).toEqual(['t1', 't3']);
+      expect(lookups).toContainEqual(['task', 'status', { type: 'equals', value: 'open' }]);
+    });
+
+    test('uses an index for pushed-down equality predicates', () => {
+      const lookups = recordIndexLookups(graph);
+      const results = executeQuery(graph, "MATCH (t:task)-[:PART_OF]->(p:project) WHERE t.status = 'closed' RETURN t");
+
+      expect(results.map(b => b.get('t')?.id)).toEqual(['t2']);
+      expect(lookups).toContainEqual(['task', 'status', { type: 'equals', value: 'closed' }]);
+    });
+
+    test('uses an index for range predicates, including a literal on the left', () => {
+      const lookups = recordIndexLookups(graph);
+
+      const older = executeQuery(graph, "MATCH (p:person) WHERE p.age >= 30 RETURN p");
+      expect(older.map(b => b.get('p')?.id).sort()).toEqual(['p1', 'p3']);
+      expect(lookups.pop()).toEqual(['person', 'age', {
+        type: 'range', lower: { value: 30, inclusive: true }
+      }]);
+
+      const younger = executeQuery(graph, "MATCH (p:person) WHERE 30 > p.age RETURN p");
+      expect(younger.map(b => b.get('p')?.id)).toEqual(['p2']);
+      expect(lookups.pop()).toEqual(['person', 'age', {
+        type: 'range', upper: { value: 30, inclusive: false }
+      }]);
+    });
+
+    test('uses an index for STARTS WITH predicates', () => {
+      const lookups = recordIndexLookups(graph);
+      const results = executeQuery(graph, "MATCH (p:person) WHERE p.name STARTS WITH 'D' RETURN p");
+
+      expect(results.map(b => b.get('p')?.id)).toEqual(['p3']);
+      expect(lookups).toContainEqual(['person', 'name', { type: 'prefix', prefix: 'D' }]);
+    });
+
+    test('still applies predicates that the index does not cover', () => {
+      const results = executeQuery(graph, "MATCH (p:person) WHERE p.age > 20 AND p.name <> 'Bob' RETURN p");
+      expect(results.map(b => b.get('p')?.id).sort()).toEqual(['p1', 'p3']);
+    });
+
+    test('sees updates made through updateNodeData', () => {
+      graph.updateNodeData('t2', { name: 'Write docs', status: 'open' });
+      const results = executeQuery(graph, "MATCH (t:task {status: 'open'}) RETURN t");
+      expect(results.map(b => b.get('t')?.id).sort()).toEqual(['t1', 't2', 't3']);
+    });
+
+    test('falls back to a label scan when the property is not indexed', () => {
+      const lookups = recordIndexLookups(graph);
+      const results = executeQuery(graph, "MATCH (t:task) WHERE t.name = 'Fix bug' RETURN t");
+
+      expect(results.map(b => b.get('t')?.id)).toEqual(['t1']);
+      expect(lookups).toEqual([]);
+    });
+  });
 
 });
\ No newline at end of file
@@ -975,7 +975,13 @@ describe('Parser', () => {
 
     it('should parse node pattern with multiple labels', () => {
       parser = new Parser(new Lexer(), '(person:Person:Employee)');
-      expect(() => parser['parseNodePattern']()).toThrow(/single label supported/)
+      const result = parser['parseNodePattern']();
+
+      expect(result).toEqual({
+        variable: 'person',
+        labels: ['Person', 'Employee'],
+        properties: {}
+      });
     });
 
     it('should parse node pattern with properties', () => {
@@ -1775,4 +1781,47 @@ describe('Parser', () => {
       expect((result.return?.items[1].expression as PropertyExpression).property).toBe('age');
     });
   });
+
+  describe('CALL Clause Parsing', () => {
+    it('should parse a procedure call with arguments and YIELD', () => {
+      const query = "CALL algo.scc({relationshipTypes: ['LINKS', 'CITES'], algorithm: 'kosaraju', limit: 5}) YIELD node, componentId";
+      const parser = new Parser(new Lexer(), query);
+
+      const result = parser.parse();
+
+      expect(parser.getErrors()).toEqual([]);
+      expect(result.call).toEqual({
+        procedure: 'algo.scc',
+        arguments: { relationshipTypes: ['LINKS', 'CITES'], algorithm: 'kosaraju', limit: 5 },
+        yield: ['node', 'componentId']
+      });
+    });
+
+    it('should parse a call without arguments or YIELD', () => {
+      const parser = new Parser(new Lexer(), 'CALL algo.wcc()');
+
+      expect(parser.parse().call).toEqual({ procedure: 'algo.wcc', arguments: {} });
+      expect(parser.getErrors()).toEqual([]);
+    });
+
+    it('should parse a call followed by other clauses', () => {
+      const query = 'CALL algo.wcc({relationshipTypes: []}) YIELD node, componentId MATCH (node:Page) SET node.component = componentId';
+      const parser = new Parser(new Lexer(), query);
+
+      const result = parser.parse();
+
+      expect(parser.getErrors()).toEqual([]);
+      expect(result.call?.arguments).toEqual({ relationshipTypes: [] });
+      expect(result.match?.patterns).toHaveLength(1);
+      expect(result.set?.settings[0].value).toEqual({ type: 'variable', name: 'componentId' });
+    });
+
+    it('should report a missing argument list', () => {
+      const parser = new Parser(new Lexer(), 'CALL algo.wcc YIELD node');
+
+      parser.parse();
+
+      expect(parser.getErrors()[0]).toContain("Expected '(' after procedure name");
+    });
+  });
 });
\ No newline at end of file
@@ -61,6 +61,29 @@ describe('ActionExecutor', () => {
     expect(graph.hasEdge('node1', 'node2', 'ASSIGNED_TO')).toBe(true); // Edge should be restored
   });
 
+  test('should rollback SetPropertyAction on failure', () => {
+    graph.addNode('alice', 'Person', { name: 'Alice', age: 25 });
+    graph.addNode('bob', 'Person', { name: 'Bob' });
+    graph.addEdge('alice', 'bob', 'KNOWS', { since: 2020 });
+    bindings.set('n', graph.getNode('alice'));
+    bindings.set('r', graph.getEdge('alice', 'bob', 'KNOWS'));
+
+    const setNodeAction = new SetPropertyAction('n', 'age', { type: 'literal', value: 30, dataType: 'number' });
+    const setEdgeAction = new SetPropertyAction('r', 'since', { type: 'literal', value: 2024, dataType: 'number' });
+    const invalidAction = new CreateNodeAction('n', ['Person'], { name: 'Duplicate' }); // Will fail due to duplicate variable
+
+    const result = executor.executeActions(graph, [setNodeAction, setEdgeAction, invalidAction], bindings, {
+      rollbackOnFailure: true,
+      validateBeforeExecute: false
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.actionResults[0].success).toBe(true);
+    expect(result.actionResults[1].success).toBe(true);
+    expect(graph.getNode('alice')?.data).toEqual({ name: 'Alice', age: 25 });
+    expect(graph.getEdge('alice', 'bob', 'KNOWS')?.data).toEqual({ since: 2020 });
+  });
+
   test('should execute actions in the correct order', () => {
     // Setup graph
     graph.addNode('alice', 'Person', { name: 'Alice' });
@@ -86,6 +86,21 @@ describe('DeleteAction', () => {
     expect(graph.hasEdge('node1', 'node2', 'ASSIGNED_TO')).toBe(false);
   });
 
+  test('should delete only the bound edge of parallel edges', () => {
+    graph.addNode('node1', 'Person', { name: 'Alice' });
+    graph.addNode('node2', 'Person', { name: 'Bob' });
+    graph.addEdge('node1', 'node2', 'PAID', { amount: 10 }, 'p1');
+    graph.addEdge('node1', 'node2', 'PAID', { amount: 20 }, 'p2');
+    bindings.set('r', graph.getEdgeById('p2'));
+
+    const action = new DeleteAction(['r'], false);
+    const result = action.execute(graph, bindings);
+
+    expect(result.success).toBe(true);
+    expect(graph.getEdgeById('p1')).toBeDefined();
+    expect(graph.getEdgeById('p2')).toBeUndefined();
+  });
+
   test('should describe the action correctly', () => {
     const actionDetach = new DeleteAction(['n'], true);
     expect(actionDetach.describe()).toBe('DETACH DELETE n');
@@ -0,0 +1,141 @@
+import { Graph } from '@/graph';
+import { QueryEngine, createQueryEngine } from '@/query/query-engine';
+import { Procedure } from '@/query/procedures';
+
+describe('Procedures', () => {
+  let engine: QueryEngine;
+  let graph: Graph;
+
+  beforeEach(() => {
+    engine = createQueryEngine();
+    graph = new Graph();
+
+    // a <-> b form a cycle, c links to them, d is on its own
+    graph.addNode('a', 'Page', { title: 'A' });
+    graph.addNode('b', 'Page', { title: 'B' });
+    graph.addNode('c', 'Page', { title: 'C' });
+    graph.addNode('d', 'Note', { title: 'D' });
+    graph.addEdge('a', 'b', 'LINKS', {});
+    graph.addEdge('b', 'a', 'LINKS', {});
+    graph.addEdge('c', 'a', 'CITES', {});
+  });
+
+  test('a standalone CALL returns the yielded columns', () => {
+    const result = engine.executeQuery(graph, 'CALL algo.wcc()');
+
+    expect(result.success).toBe(true);
+    expect(result.query!.columns).toEqual(['node', 'componentId', 'componentSize']);
+    expect(result.query!.rows.map(row => [row[0].value.id, row[1].value, row[2].value])).toEqual([
+      ['a', 0, 3],
+      ['b', 0, 3],
+      ['c', 0, 3],
+      ['d', 1, 1]
+    ]);
+  });
+
+  test('yielded columns can be written back with SET', () => {
+    const result = engine.executeQuery(
+      graph,
+      "CALL algo.scc({relationshipTypes: ['LINKS', 'CITES']}) YIELD node, componentId SET node.component = componentId"
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.actions?.affectedNodes).toHaveLength(4);
+    expect(graph.getAllNodes().map(n => n.data.component)).toEqual([0, 0, 1, 2]);
+  });
+
+  test('relationship types and algorithm are passed to the procedure', () => {
+    const result = engine.executeQuery(
+      graph,
+      "CALL algo.wcc({relationshipTypes: 'LINKS'}) YIELD node, componentSize RETURN node.title, componentSize"
+    );
+
+    expect(result.query!.columns).toEqual(['node.title', 'componentSize']);
+    expect(result.query!.rows.map(row => row[1].value)).toEqual([2, 2, 1, 1]);
+
+    const kosaraju = engine.executeQuery(graph, "CALL algo.scc({algorithm: 'kosaraju'}) YIELD componentId RETURN componentId");
+    expect(kosaraju.query!.rows.map(row => row[0].value)).toEqual([0, 0, 1, 2]);
+  });
+
+  test('CALL results are joined with MATCH on shared variables and filtered by WHERE', () => {
+    const result = engine.executeQuery(
+      graph,
+      'CALL algo.wcc() YIELD node, componentSize MATCH (node:Page) WHERE componentSize > 1 RETURN node.title'
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.query!.rows.map(row => row[0].value)).toEqual(['A', 'B', 'C']);
+  });
+
+  test('custom procedures can be registered', () => {
+    const degree: Procedure = {
+      name: 'test.degree',
+      arguments: ['label'],
+      yields: ['node', 'degree'],
+      call: (g, args) => g.getNodesByLabel(String(args.label)).map(node => ({
+        node,
+        degree: g.getEdgesForNode(node.id).length
+      }))
+    };
+    engine.registerProcedure(degree);
+
+    const result = engine.executeQuery(graph, "CALL test.degree({label: 'Page'}) YIELD node, degree RETURN node.title, degree");
+
+    expect(engine.getProcedures().map(p => p.name)).toContain('test.degree');
+    expect(result.query!.rows.map(row => [row[0].value, row[1].value])).toEqual([['A', 3], ['B', 2], ['C', 1]]);
+  });
+
+  test('unknown procedures, arguments and columns are reported', () => {
+    expect(engine.executeQuery(graph, 'CALL algo.missing()').error).toBe('Unknown procedure: algo.missing');
+    expect(engine.executeQuery(graph, 'CALL algo.wcc({weight: 1})').error)
+      .toBe('Unknown argument "weight" for procedure algo.wcc');
+    expect(engine.executeQuery(graph, 'CALL algo.wcc() YIELD rank').error)
+      .toContain('Procedure algo.wcc does not yield "rank"');
+    expect(engine.executeQuery(graph, "CALL algo.scc({algorithm: 'fast'})").error)
+      .toBe("Argument \"algorithm\" of algo.scc must be one of 'tarjan', 'kosaraju'");
+  });
+});
+
+describe('Triangle procedures', () => {
+  let engine: QueryEngine;
+  let graph: Graph;
+
+  beforeEach(() => {
+    engine = createQueryEngine();
+    graph = new Graph();
+
+    // a, b and c form a triangle, c links to d
+    for (const id of ['a', 'b', 'c', 'd']) {
+      graph.addNode(id, 'Note', { title: id.toUpperCase() });
+    }
+    graph.addEdge('a', 'b', 'LINKS', {});
+    graph.addEdge('b', 'c', 'LINKS', {});
+    graph.addEdge('c', 'a', 'LINKS', {});
+    graph.addEdge('c', 'd', 'LINKS', {});
+  });
+
+  test('algo.triangleCount yields the triangles of every node', () => {
+    const result = engine.executeQuery(graph, 'CALL algo.triangleCount() YIELD node, triangleCount RETURN node.title, triangleCount');
+
+    expect(result.query!.rows.map(row => [row[0].value, row[1].value])).toEqual([['A', 1], ['B', 1], ['C', 1], ['D', 0]]);
+  });
+
+  test('algo.localClusteringCoefficient can be filtered and written back', () => {
+    const result = engine.executeQuery(
+      graph,
+      'CALL algo.localClusteringCoefficient() YIELD node, clusteringCoefficient ' +
+      'WHERE clusteringCoefficient < 1 SET node.clustering = clusteringCoefficient'
+    );
+
+    expect(result.success).toBe(true);
+    expect(graph.getAllNodes().map(node => node.data.clustering)).toEqual([undefined, undefined, 1 / 3, 0]);
+  });
+
+  test('algo.globalClusteringCoefficient yields a single row', () => {
+    const result = engine.executeQuery(graph, "CALL algo.globalClusteringCoefficient({relationshipTypes: ['LINKS']})");
+
+    expect(result.query!.columns).toEqual(['clusteringCoefficient']);
+    expect(result.query!.rows).toHaveLength(1);
+    expect(result.query!.rows[0][0].value).toBeCloseTo(0.6, 10);
+  });
+});
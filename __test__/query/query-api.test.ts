@@ -141,6 +141,17 @@ describe('Query API', () => {
       expect(parsed.query[1]['p.age']).toBe(25);
     });
 
+    test('formats all labels of multi-label nodes', () => {
+      graph.addNode('item1', ['Task', 'ListItem'], { title: 'Item' });
+      const queryResult = engine.executeQuery(graph, 'MATCH (t:ListItem) RETURN t');
+
+      expect(formatter.toTextTable(queryResult)).toContain('[Task:ListItem]:item1 {title: "Item"}');
+      expect(formatter.toMarkdownTable(queryResult, { includeIds: false })).toContain('[Task:ListItem] {title: "Item"}');
+
+      const parsed = JSON.parse(formatter.toJSON(queryResult));
+      expect(parsed.query[0].t.labels).toEqual(['Task', 'ListItem']);
+    });
+
     test('handles empty results gracefully', () => {
       const emptyResult = engine.executeQuery(graph, 'MATCH (p:Person) WHERE p.age > 100 RETURN p.name');
 
@@ -210,6 +221,23 @@ describe('Query API', () => {
       expect(utils.isEmpty(nonEmptyResult)).toBe(false);
     });
 
+    test('fromPaths wraps paths for formatting and subgraph extraction', () => {
+      graph.addEdge('person1', 'person2', 'KNOWS', {});
+      const paths = [
+        ...graph.kShortestPaths('person1', 'task2', 2),
+        ...graph.allShortestPaths('person1', 'task1')
+      ];
+      const result = utils.fromPaths(paths);
+
+      expect(result.query?.columns).toEqual(['n0', 'r0', 'n1', 'r1', 'n2', 'cost']);
+      expect(result.query?.rows[1].map(value => value.type)).toEqual(['node', 'edge', 'node', 'null', 'null', 'number']);
+      expect(formatter.toTextTable(result)).toContain('KNOWS');
+
+      const subgraph = utils.toSubgraph(result);
+      expect(subgraph.getAllNodes().map(n => n.id).sort()).toEqual(['person1', 'person2', 'task1', 'task2']);
+      expect(subgraph.getAllEdges()).toHaveLength(3);
+    });
+
     test('getSingleValue gets a single value from results', () => {
       const queryResult = engine.executeQuery(graph, 'MATCH (p:Person) WHERE p.name = "Alice" RETURN p.age');
       const age = utils.getSingleValue(queryResult);
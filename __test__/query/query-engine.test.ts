@@ -414,6 +414,139 @@ describe('QueryEngine', () => {
     expect(graph.getAllEdges().length).toBe(0);
   });
 
+  test('executeQuery emits one grouped change set per statement', () => {
+    const changeSets: string[][] = [];
+    graph.subscribe(changes => changeSets.push(changes.map(c => c.type)));
+
+    const result = engine.executeQuery(graph,
+      "MATCH (p:Person) CREATE (p)-[:OWNS]->(t:Ticket {title: 'New'}) SET p.active = true");
+
+    expect(result.success).toBe(true);
+    expect(changeSets).toHaveLength(1);
+    expect(changeSets[0].filter(t => t === 'nodeAdded')).toHaveLength(2);
+    expect(changeSets[0].filter(t => t === 'edgeAdded')).toHaveLength(2);
+    expect(changeSets[0].filter(t => t === 'nodeDataUpdated')).toHaveLength(2);
+
+    // Read-only statements don't emit anything
+    engine.executeQuery(graph, 'MATCH (p:Person) RETURN p');
+    expect(changeSets).toHaveLength(1);
+  });
+
+  test('executeQuery matches, updates and deletes parallel edges one by one', () => {
+    graph.addEdge('person1', 'person2', 'PAID', { amount: 10 }, 'p1');
+    graph.addEdge('person1', 'person2', 'PAID', { amount: 20 }, 'p2');
+
+    const matched = engine.executeQuery(graph, 'MATCH (a:Person)-[r:PAID]->(b:Person) RETURN r.amount');
+    expect(matched.query?.rows.map(row => row[0].value)).toEqual([10, 20]);
+
+    const updated = engine.executeQuery(graph, 'MATCH (a:Person)-[r:PAID]->(b:Person) WHERE r.amount > 15 SET r.flagged = true');
+    expect(updated.success).toBe(true);
+    expect(graph.getEdgeById('p1')?.data).toEqual({ amount: 10 });
+    expect(graph.getEdgeById('p2')?.data).toEqual({ amount: 20, flagged: true });
+
+    const deleted = engine.executeQuery(graph, 'MATCH (a:Person)-[r:PAID]->(b:Person) WHERE r.amount < 15 DELETE r');
+    expect(deleted.success).toBe(true);
+    expect(deleted.actions?.deletedEdgeKeys).toEqual(['p1']);
+    expect(graph.getEdgeById('p1')).toBeUndefined();
+    expect(graph.getEdgeById('p2')).toBeDefined();
+  });
+
+  describe('Constraints', () => {
+    beforeEach(() => {
+      graph.updateNodeData('person1', { name: 'Alice', email: 'alice@example.com' });
+      graph.createConstraint('UNIQUE (Person.email)');
+    });
+
+    test('CREATE fails with a clear error when it violates a uniqueness constraint', () => {
+      const result = engine.executeQuery(graph,
+        "CREATE (a:Person {name: 'Carol'}), (b:Person {name: 'Alice 2', email: 'alice@example.com'})");
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('UNIQUE (Person.email) violated: node "person1" already has email "alice@example.com"');
+      // The node created before the violation is rolled back
+      expect(graph.getNodesByLabel('Person').map(n => n.data.name).sort()).toEqual(['Alice', 'Bob']);
+    });
+
+    test('SET fails with a clear error when it violates a uniqueness constraint', () => {
+      const result = engine.executeQuery(graph, "MATCH (p:Person {name: 'Bob'}) SET p.email = 'alice@example.com'");
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('UNIQUE (Person.email) violated');
+      expect(graph.getNode('person2')?.data.email).toBeUndefined();
+    });
+
+    test('properties SET before a violation are rolled back', () => {
+      const result = engine.executeQuery(graph,
+        "MATCH (p:Person {name: 'Bob'}) SET p.age = 41, p.email = 'alice@example.com'");
+
+      expect(result.success).toBe(false);
+      expect(graph.getNode('person2')?.data.age).toBeUndefined();
+      expect(graph.getNode('person2')?.data.email).toBeUndefined();
+    });
+
+    test('SET succeeds when the value stays unique', () => {
+      const result = engine.executeQuery(graph, "MATCH (p:Person {name: 'Bob'}) SET p.email = 'bob@example.com'");
+
+      expect(result.success).toBe(true);
+      expect(graph.getNode('person2')?.data.email).toBe('bob@example.com');
+    });
+
+    test('CREATE fails when a node key property is missing', () => {
+      graph.createConstraint('KEY (Document.vault, Document.path)');
+      const result = engine.executeQuery(graph, "CREATE (d:Document {vault: 'notes'})");
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('KEY (Document.vault, Document.path) violated: property "path" is missing');
+      expect(graph.getNodesByLabel('Document')).toEqual([]);
+    });
+  });
+
+  describe('Atomic execution', () => {
+    beforeEach(() => {
+      graph.createConstraint('UNIQUE (Person.email)');
+    });
+
+    test('without atomic, changes of matches before the failure are kept', () => {
+      const result = engine.executeQuery(graph, "MATCH (p:Person) SET p.email = 'shared@example.com'");
+
+      expect(result.success).toBe(false);
+      expect(result.rolledBack).toBeUndefined();
+      expect(graph.findNodes(n => n.data.email === 'shared@example.com')).toHaveLength(1);
+    });
+
+    test('a failure on any match reverts the changes of every match', () => {
+      const before = graph.toJSON();
+      const result = engine.executeQuery(graph,
+        "MATCH (p:Person) CREATE (t:Task {title: 'Review'}) SET p.email = 'shared@example.com'",
+        { atomic: true });
+
+      expect(result.success).toBe(false);
+      expect(result.rolledBack).toBe(true);
+      expect(result.error).toContain('Statement rolled back, no changes were written');
+      expect(result.error).toContain('UNIQUE (Person.email) violated');
+      expect(result.actions?.affectedNodes).toEqual([]);
+      expect(result.actions?.affectedEdges).toEqual([]);
+      expect(graph.toJSON()).toEqual(before);
+    });
+
+    test('stops executing matches after the first failure', () => {
+      graph.addNode('person3', 'Person', { name: 'Carol' });
+      const result = engine.executeQuery(graph, "MATCH (p:Person) SET p.email = 'shared@example.com'", { atomic: true });
+
+      // The first match succeeds and the second fails; no further matches are attempted
+      expect(result.actions?.actionResults).toHaveLength(2);
+      expect(result.actions?.actionResults.map(r => r.success)).toEqual([true, false]);
+    });
+
+    test('a successful atomic statement keeps all changes', () => {
+      const result = engine.executeQuery(graph, "MATCH (p:Person) SET p.checked = true", { atomic: true });
+
+      expect(result.success).toBe(true);
+      expect(result.rolledBack).toBeUndefined();
+      expect(graph.getNodesByLabel('Person').every(n => n.data.checked === true)).toBe(true);
+    });
+  });
+
   // Tests for private type guard methods
   describe('Type Guards', () => {
     const testNode = { id: 'n1', label: 'TestNode', data: { prop: 'value' } };
@@ -0,0 +1,150 @@
+import { Edge, EdgeDirection, EdgeReference, Graph, NodeId } from "./graph";
+
+/**
+ * IDs of the distinct nodes one edge away in a direction, skipping self-loops
+ * @param graph The graph
+ * @param id ID of the node
+ * @param direction Direction to follow
+ * @param relationshipTypes Only follow relationships of these types (all if empty)
+ */
+export function getDistinctNeighborIds<NodeData, EdgeData>(
+  graph: Graph<NodeData, EdgeData>,
+  id: NodeId,
+  direction: EdgeDirection,
+  relationshipTypes: string[]
+): NodeId[] {
+  const result = new Set<NodeId>();
+  for (const edge of graph.getEdgesForNode(id, direction)) {
+    if (relationshipTypes.length > 0 && !relationshipTypes.includes(edge.label)) {
+      continue;
+    }
+    const neighbor = edge.source === id ? edge.target : edge.source;
+    if (neighbor !== id) {
+      result.add(neighbor);
+    }
+  }
+  return Array.from(result);
+}
+
+/**
+ * Find the edge a reference points to: the edge with its ID, or for a reference
+ * without an ID, the edge without an ID between its endpoints with its type
+ * @param graph The graph
+ * @param reference The edge to find
+ */
+export function findEdge<NodeData, EdgeData>(
+  graph: Graph<NodeData, EdgeData>,
+  reference: EdgeReference
+): Edge<EdgeData> | undefined {
+  if (reference.id !== undefined) {
+    return graph.getEdgeById(reference.id);
+  }
+  const edge = graph.getEdge(reference.source, reference.target, reference.label);
+  return edge?.id === undefined ? edge : undefined;
+}
+
+/**
+ * Replace the data of the edge a reference points to, by ID if it has one
+ * @param graph The graph
+ * @param reference The edge to update
+ * @param data The new data
+ * @returns True if the edge was found and updated
+ */
+export function updateEdgeData<NodeData, EdgeData>(
+  graph: Graph<NodeData, EdgeData>,
+  reference: EdgeReference,
+  data: EdgeData
+): boolean {
+  return reference.id !== undefined
+    ? graph.updateEdgeById(reference.id, data)
+    : graph.updateEdge(reference.source, reference.target, reference.label, data);
+}
+
+/**
+ * The identifying fields of an edge, with its ID only if it has one
+ * @param edge The edge
+ */
+export function toEdgeReference({ id, source, target, label }: EdgeReference): EdgeReference {
+  return id === undefined ? { source, target, label } : { id, source, target, label };
+}
+
+/**
+ * Store a value per node in a node data property, as one batch of changes
+ * @param graph The graph to update
+ * @param values The value of each node
+ * @param property Name of the node data property to set
+ * @throws ConstraintViolationError if the new data violates a constraint
+ */
+export function writeNodeProperty<NodeData, EdgeData>(
+  graph: Graph<NodeData, EdgeData>,
+  values: Map<NodeId, unknown>,
+  property: string
+): void {
+  graph.batch(() => {
+    for (const [id, value] of values) {
+      const node = graph.getNode(id);
+      if (node) {
+        graph.updateNodeData(id, { ...node.data, [property]: value } as NodeData);
+      }
+    }
+  });
+}
+
+/**
+ * The weight of an edge taken from one of its data properties
+ * @param edge The edge
+ * @param property Name of the numeric edge data property, or undefined to weigh every edge 1
+ * @returns The weight
+ * @throws Error if the property isn't a non-negative number
+ */
+export function getEdgeWeight<EdgeData>(edge: Edge<EdgeData>, property: string | undefined): number {
+  if (property === undefined) {
+    return 1;
+  }
+  const weight = (edge.data as Record<string, unknown> | undefined)?.[property];
+  if (typeof weight !== "number" || !(weight >= 0)) {
+    throw new Error(
+      `Invalid weight ${String(weight)} from property "${property}" for edge ` +
+      `(${edge.source})-[:${edge.label}]->(${edge.target}): weights must be non-negative numbers`
+    );
+  }
+  return weight;
+}
+
+/**
+ * A source of random numbers in [0, 1)
+ */
+export type RandomSource = () => number;
+
+/**
+ * Create a random number generator, repeatable when seeded (mulberry32)
+ * @param seed Seed for a repeatable sequence, or undefined to use Math.random
+ * @returns The generator
+ */
+export function createRandom(seed?: number): RandomSource {
+  if (seed === undefined) {
+    return Math.random;
+  }
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Shuffle an array in place (Fisher-Yates)
+ * @param items The array to shuffle
+ * @param random Source of random numbers
+ * @returns The same array
+ */
+export function shuffle<T>(items: T[], random: RandomSource): T[] {
+  for (let i = items.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [items[i], items[j]] = [items[j], items[i]];
+  }
+  return items;
+}
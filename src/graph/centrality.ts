@@ -0,0 +1,280 @@
+import { EdgeDirection, Graph, NodeId } from "./graph";
+import { getDistinctNeighborIds, getEdgeWeight, writeNodeProperty } from "./algorithm-utils";
+
+/**
+ * Options shared by the centrality algorithms
+ */
+export interface CentralityOptions {
+  /** Only follow relationships of these types (default: all) */
+  relationshipTypes?: string[];
+  /** Also store each node's score in this node data property */
+  writeProperty?: string;
+}
+
+/**
+ * Options for PageRank
+ */
+export interface PageRankOptions extends CentralityOptions {
+  /** Probability of following an edge rather than jumping to a random node (default: 0.85) */
+  dampingFactor?: number;
+  /** Maximum number of iterations (default: 100) */
+  maxIterations?: number;
+  /** Stop once the scores change by less than this in total during one iteration (default: 1e-6) */
+  tolerance?: number;
+  /** Numeric edge property that weights how much rank flows along an edge (default: all edges weigh the same) */
+  weightProperty?: string;
+}
+
+/**
+ * Options for degree centrality
+ */
+export interface DegreeCentralityOptions extends CentralityOptions {
+  /** Which edges to count: outgoing, incoming, or both (default: both) */
+  direction?: EdgeDirection;
+  /** Divide by the number of other nodes (default: false) */
+  normalized?: boolean;
+}
+
+/**
+ * Options for betweenness and closeness centrality
+ */
+export interface PathCentralityOptions extends CentralityOptions {
+  /** Direction of the shortest paths: outgoing, incoming, or both to ignore direction (default: outgoing) */
+  direction?: EdgeDirection;
+}
+
+/**
+ * Options for betweenness centrality
+ */
+export interface BetweennessCentralityOptions extends PathCentralityOptions {
+  /** Divide by the number of node pairs the other nodes form (default: false) */
+  normalized?: boolean;
+}
+
+/**
+ * Rank nodes by PageRank: the probability that a random walk along edges, with
+ * occasional jumps to random nodes, is at a node. Scores sum to 1.
+ * @param graph The graph to analyze
+ * @param options Damping, convergence, edge weights and write-back
+ * @returns The score of every node
+ * @throws Error if the damping factor is outside [0, 1] or an edge weight is negative or not a number
+ */
+export function pageRank<NodeData, EdgeData>(
+  graph: Graph<NodeData, EdgeData>,
+  options: PageRankOptions = {}
+): Map<NodeId, number> {
+  const dampingFactor = options.dampingFactor ?? 0.85;
+  const maxIterations = options.maxIterations ?? 100;
+  const tolerance = options.tolerance ?? 1e-6;
+  const relationshipTypes = options.relationshipTypes ?? [];
+  if (!(dampingFactor >= 0 && dampingFactor <= 1)) {
+    throw new Error(`Invalid damping factor ${dampingFactor}: it must be between 0 and 1`);
+  }
+
+  const nodes = graph.getAllNodes();
+  const n = nodes.length;
+  if (n === 0) {
+    return new Map();
+  }
+
+  // Share of each node's rank that flows to each target
+  const flows = new Map<NodeId, Array<{ target: NodeId; share: number }>>();
+  for (const node of nodes) {
+    const weighted: Array<{ target: NodeId; weight: number }> = [];
+    for (const edge of graph.getEdgesForNode(node.id, "outgoing")) {
+      if (relationshipTypes.length > 0 && !relationshipTypes.includes(edge.label)) {
+        continue;
+      }
+      weighted.push({ target: edge.target, weight: getEdgeWeight(edge, options.weightProperty) });
+    }
+    const total = weighted.reduce((sum, { weight }) => sum + weight, 0);
+    flows.set(node.id, total > 0 ? weighted.map(({ target, weight }) => ({ target, share: weight / total })) : []);
+  }
+
+  let ranks = new Map<NodeId, number>(nodes.map(node => [node.id, 1 / n]));
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    // Rank of nodes without outgoing edges is spread over all nodes
+    let dangling = 0;
+    for (const node of nodes) {
+      if (flows.get(node.id)!.length === 0) {
+        dangling += ranks.get(node.id)!;
+      }
+    }
+
+    const base = (1 - dampingFactor) / n + dampingFactor * dangling / n;
+    const next = new Map<NodeId, number>(nodes.map(node => [node.id, base]));
+    for (const node of nodes) {
+      const rank = ranks.get(node.id)!;
+      for (const { target, share } of flows.get(node.id)!) {
+        next.set(target, next.get(target)! + dampingFactor * rank * share);
+      }
+    }
+
+    let change = 0;
+    for (const node of nodes) {
+      change += Math.abs(next.get(node.id)! - ranks.get(node.id)!);
+    }
+    ranks = next;
+    if (change < tolerance) {
+      break;
+    }
+  }
+
+  return finish(graph, ranks, options);
+}
+
+/**
+ * Score nodes by the number of edges they have
+ * @param graph The graph to analyze
+ * @param options Direction, normalization and write-back
+ * @returns The score of every node
+ */
+export function degreeCentrality<NodeData, EdgeData>(
+  graph: Graph<NodeData, EdgeData>,
+  options: DegreeCentralityOptions = {}
+): Map<NodeId, number> {
+  const direction = options.direction ?? "both";
+  const relationshipTypes = options.relationshipTypes ?? [];
+  const nodes = graph.getAllNodes();
+  const scale = options.normalized && nodes.length > 1 ? 1 / (nodes.length - 1) : 1;
+
+  const scores = new Map<NodeId, number>();
+  for (const node of nodes) {
+    const degree = graph.getEdgesForNode(node.id, direction)
+      .filter(edge => relationshipTypes.length === 0 || relationshipTypes.includes(edge.label))
+      .length;
+    scores.set(node.id, degree * scale);
+  }
+
+  return finish(graph, scores, options);
+}
+
+/**
+ * Score nodes by how many shortest paths between other nodes pass through them
+ * (Brandes' algorithm). Paths are counted in hops; a pair with several shortest
+ * paths contributes to each path's nodes in proportion.
+ * @param graph The graph to analyze
+ * @param options Direction, normalization and write-back
+ * @returns The score of every node
+ */
+export function betweennessCentrality<NodeData, EdgeData>(
+  graph: Graph<NodeData, EdgeData>,
+  options: BetweennessCentralityOptions = {}
+): Map<NodeId, number> {
+  const direction = options.direction ?? "outgoing";
+  const relationshipTypes = options.relationshipTypes ?? [];
+  const nodes = graph.getAllNodes();
+  const neighbors = new Map(nodes.map(node => [
+    node.id, getDistinctNeighborIds(graph, node.id, direction, relationshipTypes)
+  ]));
+
+  const scores = new Map<NodeId, number>(nodes.map(node => [node.id, 0]));
+  for (const source of nodes) {
+    const { order, pathCounts, predecessors } = shortestPathDag(source.id, neighbors);
+
+    // Accumulate dependencies from the farthest nodes back towards the source
+    const dependency = new Map<NodeId, number>();
+    for (let i = order.length - 1; i > 0; i--) {
+      const w = order[i];
+      const coefficient = (1 + (dependency.get(w) ?? 0)) / pathCounts.get(w)!;
+      for (const v of predecessors.get(w)!) {
+        dependency.set(v, (dependency.get(v) ?? 0) + pathCounts.get(v)! * coefficient);
+      }
+      scores.set(w, scores.get(w)! + (dependency.get(w) ?? 0));
+    }
+  }
+
+  // Ignoring direction, every pair was counted from both ends
+  const n = nodes.length;
+  let scale = direction === "both" ? 0.5 : 1;
+  if (options.normalized && n > 2) {
+    scale *= direction === "both" ? 2 / ((n - 1) * (n - 2)) : 1 / ((n - 1) * (n - 2));
+  }
+  for (const [id, score] of scores) {
+    scores.set(id, score * scale);
+  }
+
+  return finish(graph, scores, options);
+}
+
+/**
+ * Score nodes by how close they are to the nodes they can reach: the inverse of
+ * the average hop distance, scaled by the fraction of other nodes reached so
+ * that nodes in small components don't score highest (Wasserman and Faust)
+ * @param graph The graph to analyze
+ * @param options Direction and write-back
+ * @returns The score of every node, 0 for nodes that reach no other node
+ */
+export function closenessCentrality<NodeData, EdgeData>(
+  graph: Graph<NodeData, EdgeData>,
+  options: PathCentralityOptions = {}
+): Map<NodeId, number> {
+  const direction = options.direction ?? "outgoing";
+  const relationshipTypes = options.relationshipTypes ?? [];
+  const nodes = graph.getAllNodes();
+  const neighbors = new Map(nodes.map(node => [
+    node.id, getDistinctNeighborIds(graph, node.id, direction, relationshipTypes)
+  ]));
+
+  const scores = new Map<NodeId, number>();
+  for (const source of nodes) {
+    const { order, distances } = shortestPathDag(source.id, neighbors);
+    const reached = order.length - 1;
+    const total = order.reduce((sum, id) => sum + distances.get(id)!, 0);
+    scores.set(source.id, total > 0 ? (reached / total) * (reached / (nodes.length - 1)) : 0);
+  }
+
+  return finish(graph, scores, options);
+}
+
+/**
+ * Breadth-first search recording, for every reached node, its distance, the
+ * number of shortest paths to it and its predecessors on those paths
+ */
+function shortestPathDag(
+  source: NodeId,
+  neighbors: Map<NodeId, NodeId[]>
+): {
+  order: NodeId[];
+  distances: Map<NodeId, number>;
+  pathCounts: Map<NodeId, number>;
+  predecessors: Map<NodeId, NodeId[]>;
+} {
+  const order = [source];
+  const distances = new Map<NodeId, number>([[source, 0]]);
+  const pathCounts = new Map<NodeId, number>([[source, 1]]);
+  const predecessors = new Map<NodeId, NodeId[]>([[source, []]]);
+
+  for (let i = 0; i < order.length; i++) {
+    const v = order[i];
+    const distance = distances.get(v)! + 1;
+    for (const w of neighbors.get(v)!) {
+      if (!distances.has(w)) {
+        distances.set(w, distance);
+        pathCounts.set(w, 0);
+        predecessors.set(w, []);
+        order.push(w);
+      }
+      if (distances.get(w) === distance) {
+        pathCounts.set(w, pathCounts.get(w)! + pathCounts.get(v)!);
+        predecessors.get(w)!.push(v);
+      }
+    }
+  }
+
+  return { order, distances, pathCounts, predecessors };
+}
+
+/**
+ * Write the scores back if requested and return them
+ */
+function finish<NodeData, EdgeData>(
+  graph: Graph<NodeData, EdgeData>,
+  scores: Map<NodeId, number>,
+  options: CentralityOptions
+): Map<NodeId, number> {
+  if (options.writeProperty !== undefined) {
+    writeNodeProperty(graph, scores, options.writeProperty);
+  }
+  return scores;
+}
@@ -0,0 +1,336 @@
+import { Graph, NodeId } from "./graph";
+import { ComponentResult } from "./components";
+import { RandomSource, createRandom, getEdgeWeight, shuffle, writeNodeProperty } from "./algorithm-utils";
+
+/**
+ * Options for measuring modularity
+ */
+export interface ModularityOptions {
+  /** Only count relationships of these types (default: all) */
+  relationshipTypes?: string[];
+  /** Numeric edge property to use as edge weight (default: every edge weighs 1) */
+  weightProperty?: string;
+}
+
+/**
+ * Options for community detection
+ */
+export interface CommunityOptions extends ModularityOptions {
+  /** Seed for the random node order and tie-breaking, for repeatable results (default: unseeded) */
+  seed?: number;
+  /** Also store each node's community number in this node data property */
+  writeProperty?: string;
+}
+
+/**
+ * Options for label propagation
+ */
+export interface LabelPropagationOptions extends CommunityOptions {
+  /** Maximum number of passes over all nodes (default: 20) */
+  maxIterations?: number;
+}
+
+/**
+ * Communities found in a graph
+ */
+export interface CommunityResult extends ComponentResult {
+  /** Modularity of the communities, from -0.5 (worse than random) to 1 */
+  modularity: number;
+}
+
+/**
+ * Undirected weighted view of a graph with nodes numbered 0..n-1
+ */
+interface WeightedGraph {
+  /** Weight to each neighbor, summed over parallel edges and both directions */
+  links: Map<number, number>[];
+  /** Total weight of each node's self-loops */
+  loops: number[];
+  /** Total weight of all edges */
+  totalWeight: number;
+}
+
+/**
+ * Find communities by label propagation: every node starts in its own
+ * community, then repeatedly joins the community with the largest total edge
+ * weight among its neighbors until no node wants to move. Edges are treated as
+ * undirected. Fast, but results depend on the node order, so pass `seed` for
+ * repeatable results.
+ * @param graph The graph to analyze
+ * @param options Edge filter, weights, seed, iterations and write-back
+ * @returns Community membership, sizes and modularity
+ * @throws Error if an edge weight is negative or not a number
+ */
+export function labelPropagation<NodeData, EdgeData>(
+  graph: Graph<NodeData, EdgeData>,
+  options: LabelPropagationOptions = {}
+): CommunityResult {
+  const maxIterations = options.maxIterations ?? 20;
+  const random = createRandom(options.seed);
+  const ids = graph.getAllNodes().map(node => node.id);
+  const weighted = toWeightedGraph(graph, ids, options);
+  const labels = ids.map((_, i) => i);
+  const order = ids.map((_, i) => i);
+
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    let changed = false;
+    for (const i of shuffle(order, random)) {
+      const weights = new Map<number, number>();
+      for (const [j, weight] of weighted.links[i]) {
+        weights.set(labels[j], (weights.get(labels[j]) ?? 0) + weight);
+      }
+      if (weights.size === 0) {
+        continue;
+      }
+
+      const heaviest = Math.max(...weights.values());
+      const best = Array.from(weights).filter(([, weight]) => weight >= heaviest - 1e-12).map(([label]) => label);
+      if (!best.includes(labels[i])) {
+        labels[i] = best[Math.floor(random() * best.length)];
+        changed = true;
+      }
+    }
+    if (!changed) {
+      break;
+    }
+  }
+
+  return finish(graph, ids, labels, weighted, options);
+}
+
+/**
+ * Find communities with the Louvain method: nodes repeatedly move to the
+ * neighboring community that increases modularity most, then each community is
+ * merged into a single node and the process repeats until nothing moves. Edges
+ * are treated as undirected. Pass `seed` for repeatable results.
+ * @param graph The graph to analyze
+ * @param options Edge filter, weights, seed and write-back
+ * @returns Community membership, sizes and modularity
+ * @throws Error if an edge weight is negative or not a number
+ */
+export function louvain<NodeData, EdgeData>(
+  graph: Graph<NodeData, EdgeData>,
+  options: CommunityOptions = {}
+): CommunityResult {
+  const random = createRandom(options.seed);
+  const ids = graph.getAllNodes().map(node => node.id);
+  const weighted = toWeightedGraph(graph, ids, options);
+
+  // Community of every original node among the nodes of the current level
+  let membership = ids.map((_, i) => i);
+  let level = weighted;
+  while (weighted.totalWeight > 0) {
+    const { communities, moved } = moveNodes(level, random);
+    if (!moved) {
+      break;
+    }
+
+    const renumbered = new Map<number, number>();
+    for (const community of communities) {
+      if (!renumbered.has(community)) {
+        renumbered.set(community, renumbered.size);
+      }
+    }
+    membership = membership.map(node => renumbered.get(communities[node])!);
+    level = aggregate(level, communities.map(community => renumbered.get(community)!), renumbered.size);
+  }
+
+  return finish(graph, ids, membership, weighted, options);
+}
+
+/**
+ * Measure how well communities divide a graph: the fraction of edge weight
+ * inside communities minus the fraction expected if edges were placed at
+ * random. Edges are treated as undirected.
+ * @param graph The graph
+ * @param membership Community of each node; nodes without one count as alone
+ * @param options Edge filter and weights
+ * @returns The modularity, 0 for a graph without edges
+ * @throws Error if an edge weight is negative or not a number
+ */
+export function modularity<NodeData, EdgeData>(
+  graph: Graph<NodeData, EdgeData>,
+  membership: Map<NodeId, number>,
+  options: ModularityOptions = {}
+): number {
+  const ids = graph.getAllNodes().map(node => node.id);
+  // A fresh symbol per unassigned node can't equal any other community
+  return computeModularity(
+    toWeightedGraph(graph, ids, options),
+    ids.map(id => membership.get(id) ?? Symbol(id))
+  );
+}
+
+/**
+ * Build the undirected weighted view of the nodes and the matching edges
+ */
+function toWeightedGraph<NodeData, EdgeData>(
+  graph: Graph<NodeData, EdgeData>,
+  ids: NodeId[],
+  options: ModularityOptions
+): WeightedGraph {
+  const relationshipTypes = options.relationshipTypes ?? [];
+  const index = new Map(ids.map((id, i) => [id, i]));
+  const links = ids.map(() => new Map<number, number>());
+  const loops = ids.map(() => 0);
+  let totalWeight = 0;
+
+  for (const edge of graph.getAllEdges()) {
+    if (relationshipTypes.length > 0 && !relationshipTypes.includes(edge.label)) {
+      continue;
+    }
+    const weight = getEdgeWeight(edge, options.weightProperty);
+    const source = index.get(edge.source)!;
+    const target = index.get(edge.target)!;
+    if (source === target) {
+      loops[source] += weight;
+    } else {
+      links[source].set(target, (links[source].get(target) ?? 0) + weight);
+      links[target].set(source, (links[target].get(source) ?? 0) + weight);
+    }
+    totalWeight += weight;
+  }
+
+  return { links, loops, totalWeight };
+}
+
+/**
+ * Total edge weight at each node, self-loops counting twice
+ */
+function getDegrees({ links, loops }: WeightedGraph): number[] {
+  return links.map((neighbors, i) => {
+    let degree = 2 * loops[i];
+    for (const weight of neighbors.values()) {
+      degree += weight;
+    }
+    return degree;
+  });
+}
+
+/**
+ * Modularity of a division of the nodes of a weighted graph
+ */
+function computeModularity(weighted: WeightedGraph, communities: unknown[]): number {
+  const { links, loops, totalWeight } = weighted;
+  if (totalWeight === 0) {
+    return 0;
+  }
+
+  const degrees = getDegrees(weighted);
+  const internal = new Map<unknown, number>();
+  const totals = new Map<unknown, number>();
+  communities.forEach((community, i) => {
+    let inside = 2 * loops[i];
+    for (const [j, weight] of links[i]) {
+      if (communities[j] === community) {
+        inside += weight;
+      }
+    }
+    internal.set(community, (internal.get(community) ?? 0) + inside);
+    totals.set(community, (totals.get(community) ?? 0) + degrees[i]);
+  });
+
+  let result = 0;
+  for (const [community, total] of totals) {
+    result += internal.get(community)! / (2 * totalWeight) - (total / (2 * totalWeight)) ** 2;
+  }
+  return result;
+}
+
+/**
+ * Louvain's first phase: move nodes between communities while that increases modularity
+ */
+function moveNodes(weighted: WeightedGraph, random: RandomSource): { communities: number[]; moved: boolean } {
+  const { links, totalWeight } = weighted;
+  const degrees = getDegrees(weighted);
+  const communities = degrees.map((_, i) => i);
+  const totals = degrees.slice();
+  const order = shuffle(degrees.map((_, i) => i), random);
+  let moved = false;
+
+  let improved = true;
+  while (improved) {
+    improved = false;
+    for (const i of order) {
+      const current = communities[i];
+      const weightTo = new Map<number, number>();
+      for (const [j, weight] of links[i]) {
+        weightTo.set(communities[j], (weightTo.get(communities[j]) ?? 0) + weight);
+      }
+
+      // Gain of joining a community, up to a factor shared by all communities
+      totals[current] -= degrees[i];
+      let best = current;
+      let bestGain = (weightTo.get(current) ?? 0) - totals[current] * degrees[i] / (2 * totalWeight);
+      for (const [community, weight] of weightTo) {
+        const gain = weight - totals[community] * degrees[i] / (2 * totalWeight);
+        if (gain > bestGain + 1e-12) {
+          best = community;
+          bestGain = gain;
+        }
+      }
+      totals[best] += degrees[i];
+      communities[i] = best;
+
+      if (best !== current) {
+        improved = true;
+        moved = true;
+      }
+    }
+  }
+
+  return { communities, moved };
+}
+
+/**
+ * Louvain's second phase: merge every community into a single node
+ */
+function aggregate(weighted: WeightedGraph, communities: number[], count: number): WeightedGraph {
+  const links = Array.from({ length: count }, () => new Map<number, number>());
+  const loops = new Array<number>(count).fill(0);
+
+  weighted.links.forEach((neighbors, i) => {
+    const community = communities[i];
+    loops[community] += weighted.loops[i];
+    for (const [j, weight] of neighbors) {
+      if (communities[j] === community) {
+        // Every edge is listed from both ends
+        loops[community] += weight / 2;
+      } else {
+        links[community].set(communities[j], (links[community].get(communities[j]) ?? 0) + weight);
+      }
+    }
+  });
+
+  return { links, loops, totalWeight: weighted.totalWeight };
+}
+
+/**
+ * Number the communities in the insertion order of their first node, measure
+ * modularity and write back if requested
+ */
+function finish<NodeData, EdgeData>(
+  graph: Graph<NodeData, EdgeData>,
+  ids: NodeId[],
+  communities: number[],
+  weighted: WeightedGraph,
+  options: CommunityOptions
+): CommunityResult {
+  const renumbered = new Map<number, number>();
+  const membership = new Map<NodeId, number>();
+  const sizes: number[] = [];
+  ids.forEach((id, i) => {
+    if (!renumbered.has(communities[i])) {
+      renumbered.set(communities[i], sizes.length);
+      sizes.push(0);
+    }
+    const community = renumbered.get(communities[i])!;
+    membership.set(id, community);
+    sizes[community]++;
+  });
+
+  if (options.writeProperty !== undefined) {
+    writeNodeProperty(graph, membership, options.writeProperty);
+  }
+  return { membership, sizes, modularity: computeModularity(weighted, communities) };
+}
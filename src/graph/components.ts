@@ -0,0 +1,246 @@
+import { EdgeDirection, Graph, NodeId } from "./graph";
+
+/**
+ * Options for connected component algorithms
+ */
+export interface ComponentOptions {
+  /** Only follow relationships of these types (default: all) */
+  relationshipTypes?: string[];
+}
+
+/**
+ * Options for strongly connected components
+ */
+export interface StronglyConnectedComponentOptions extends ComponentOptions {
+  /** Algorithm to use; both find the same components (default: "tarjan") */
+  algorithm?: "tarjan" | "kosaraju";
+}
+
+/**
+ * The components of a graph. Components are numbered from 0 in the insertion
+ * order of their earliest inserted node, so the numbering is deterministic.
+ */
+export interface ComponentResult {
+  /** Maps every node to the number of its component */
+  membership: Map<NodeId, number>;
+  /** Number of nodes in each component, indexed by component number */
+  sizes: number[];
+}
+
+/**
+ * Find the weakly connected components of a graph: the groups of nodes that are
+ * connected when edge direction is ignored
+ * @param graph The graph to analyze
+ * @param options Relationship types to follow
+ * @returns Component membership and sizes
+ */
+export function findWeaklyConnectedComponents<NodeData, EdgeData>(
+  graph: Graph<NodeData, EdgeData>,
+  options: ComponentOptions = {}
+): ComponentResult {
+  const relationshipTypes = options.relationshipTypes ?? [];
+  const visited = new Set<NodeId>();
+  const components: NodeId[][] = [];
+
+  for (const node of graph.getAllNodes()) {
+    if (visited.has(node.id)) {
+      continue;
+    }
+    visited.add(node.id);
+    const component = [node.id];
+    for (let i = 0; i < component.length; i++) {
+      for (const neighbor of getNeighborIds(graph, component[i], "both", relationshipTypes)) {
+        if (!visited.has(neighbor)) {
+          visited.add(neighbor);
+          component.push(neighbor);
+        }
+      }
+    }
+    components.push(component);
+  }
+
+  return numberComponents(graph, components);
+}
+
+/**
+ * Find the strongly connected components of a graph: the largest groups of nodes
+ * in which every node can reach every other node along edge direction
+ * @param graph The graph to analyze
+ * @param options Relationship types to follow and the algorithm to use
+ * @returns Component membership and sizes
+ */
+export function findStronglyConnectedComponents<NodeData, EdgeData>(
+  graph: Graph<NodeData, EdgeData>,
+  options: StronglyConnectedComponentOptions = {}
+): ComponentResult {
+  const relationshipTypes = options.relationshipTypes ?? [];
+  const components = options.algorithm === "kosaraju"
+    ? kosaraju(graph, relationshipTypes)
+    : tarjan(graph, relationshipTypes);
+  return numberComponents(graph, components);
+}
+
+/**
+ * Tarjan's algorithm, with an explicit stack so deep graphs don't overflow the call stack
+ * @returns The components as lists of node IDs, in no particular order
+ */
+function tarjan<NodeData, EdgeData>(graph: Graph<NodeData, EdgeData>, relationshipTypes: string[]): NodeId[][] {
+  const index = new Map<NodeId, number>();
+  const lowLink = new Map<NodeId, number>();
+  // Nodes visited but not yet assigned to a component
+  const pending: NodeId[] = [];
+  const isPending = new Set<NodeId>();
+  const components: NodeId[][] = [];
+
+  for (const root of graph.getAllNodes()) {
+    if (index.has(root.id)) {
+      continue;
+    }
+
+    const stack: Array<{ id: NodeId; neighbors: NodeId[]; next: number }> = [];
+    const visit = (id: NodeId) => {
+      index.set(id, index.size);
+      lowLink.set(id, index.get(id)!);
+      pending.push(id);
+      isPending.add(id);
+      stack.push({ id, neighbors: getNeighborIds(graph, id, "outgoing", relationshipTypes), next: 0 });
+    };
+    visit(root.id);
+
+    while (stack.length > 0) {
+      const frame = stack[stack.length - 1];
+
+      if (frame.next < frame.neighbors.length) {
+        const neighbor = frame.neighbors[frame.next++];
+        if (!index.has(neighbor)) {
+          visit(neighbor);
+        } else if (isPending.has(neighbor)) {
+          lowLink.set(frame.id, Math.min(lowLink.get(frame.id)!, index.get(neighbor)!));
+        }
+        continue;
+      }
+
+      stack.pop();
+      if (stack.length > 0) {
+        const parent = stack[stack.length - 1].id;
+        lowLink.set(parent, Math.min(lowLink.get(parent)!, lowLink.get(frame.id)!));
+      }
+
+      // The node is the root of a component: everything pending above it belongs to it
+      if (lowLink.get(frame.id) === index.get(frame.id)) {
+        const component: NodeId[] = [];
+        let id: NodeId;
+        do {
+          id = pending.pop()!;
+          isPending.delete(id);
+          component.push(id);
+        } while (id !== frame.id);
+        components.push(component);
+      }
+    }
+  }
+
+  return components;
+}
+
+/**
+ * Kosaraju's algorithm: order nodes by DFS finish time, then collect the nodes
+ * reachable against edge direction in reverse finish order
+ * @returns The components as lists of node IDs, in no particular order
+ */
+function kosaraju<NodeData, EdgeData>(graph: Graph<NodeData, EdgeData>, relationshipTypes: string[]): NodeId[][] {
+  const finished: NodeId[] = [];
+  const visited = new Set<NodeId>();
+
+  for (const root of graph.getAllNodes()) {
+    if (visited.has(root.id)) {
+      continue;
+    }
+    visited.add(root.id);
+    const stack = [{ id: root.id, neighbors: getNeighborIds(graph, root.id, "outgoing", relationshipTypes), next: 0 }];
+    while (stack.length > 0) {
+      const frame = stack[stack.length - 1];
+      if (frame.next < frame.neighbors.length) {
+        const neighbor = frame.neighbors[frame.next++];
+        if (!visited.has(neighbor)) {
+          visited.add(neighbor);
+          stack.push({ id: neighbor, neighbors: getNeighborIds(graph, neighbor, "outgoing", relationshipTypes), next: 0 });
+        }
+        continue;
+      }
+      stack.pop();
+      finished.push(frame.id);
+    }
+  }
+
+  const assigned = new Set<NodeId>();
+  const components: NodeId[][] = [];
+  for (let i = finished.length - 1; i >= 0; i--) {
+    if (assigned.has(finished[i])) {
+      continue;
+    }
+    const component = [finished[i]];
+    assigned.add(finished[i]);
+    for (let j = 0; j < component.length; j++) {
+      for (const neighbor of getNeighborIds(graph, component[j], "incoming", relationshipTypes)) {
+        if (!assigned.has(neighbor)) {
+          assigned.add(neighbor);
+          component.push(neighbor);
+        }
+      }
+    }
+    components.push(component);
+  }
+
+  return components;
+}
+
+/**
+ * Number components in the insertion order of their earliest inserted node
+ */
+function numberComponents<NodeData, EdgeData>(
+  graph: Graph<NodeData, EdgeData>,
+  components: NodeId[][]
+): ComponentResult {
+  const componentOf = new Map<NodeId, NodeId[]>();
+  for (const component of components) {
+    for (const id of component) {
+      componentOf.set(id, component);
+    }
+  }
+
+  const numbers = new Map<NodeId[], number>();
+  const membership = new Map<NodeId, number>();
+  const sizes: number[] = [];
+  for (const node of graph.getAllNodes()) {
+    const component = componentOf.get(node.id)!;
+    let number = numbers.get(component);
+    if (number === undefined) {
+      number = sizes.length;
+      numbers.set(component, number);
+      sizes.push(component.length);
+    }
+    membership.set(node.id, number);
+  }
+
+  return { membership, sizes };
+}
+
+/**
+ * IDs of the nodes one edge away in a direction, once per edge
+ */
+function getNeighborIds<NodeData, EdgeData>(
+  graph: Graph<NodeData, EdgeData>,
+  id: NodeId,
+  direction: EdgeDirection,
+  relationshipTypes: string[]
+): NodeId[] {
+  const result: NodeId[] = [];
+  for (const edge of graph.getEdgesForNode(id, direction)) {
+    if (relationshipTypes.length > 0 && !relationshipTypes.includes(edge.label)) {
+      continue;
+    }
+    result.push(edge.source === id ? edge.target : edge.source);
+  }
+  return result;
+}
@@ -0,0 +1,189 @@
+/**
+ * Declarative constraint on the nodes carrying a label or the edges of a relationship type.
+ *
+ * - `unique`: no two entities may share the same combination of values. Entities
+ *   missing any of the properties (or having a null value) are not constrained.
+ * - `key`: every entity must have all of the properties, and their combination must be unique.
+ */
+export interface ConstraintDefinition {
+  /** Kind of constraint */
+  kind: "unique" | "key";
+  /** Whether the constraint applies to nodes (by label) or relationships (by type) */
+  target: "node" | "relationship";
+  /** Node label or relationship type the constraint applies to */
+  label: string;
+  /** Constrained properties */
+  properties: string[];
+}
+
+/**
+ * Error thrown when a mutation would violate a constraint
+ */
+export class ConstraintViolationError extends Error {
+  /** The violated constraint */
+  readonly constraint: ConstraintDefinition;
+
+  constructor(constraint: ConstraintDefinition, message: string) {
+    super(message);
+    this.name = "ConstraintViolationError";
+    this.constraint = constraint;
+  }
+}
+
+/**
+ * Parses a constraint from its textual form.
+ *
+ * Node constraints use parentheses and relationship constraints use brackets:
+ * `UNIQUE (Person.email)`, `KEY (Document.vault, Document.path)`, `UNIQUE [PAID.txId]`.
+ * @param text The constraint text
+ * @returns The parsed constraint definition
+ * @throws Error if the text is not a valid constraint
+ */
+export function parseConstraint(text: string): ConstraintDefinition {
+  const match = /^\s*(UNIQUE|KEY)\s*(\(([^)]*)\)|\[([^\]]*)\])\s*$/i.exec(text);
+  if (!match) {
+    throw new Error(
+      `Invalid constraint "${text}": expected UNIQUE (Label.property) or KEY (Label.property, ...)`
+    );
+  }
+
+  const kind = match[1].toLowerCase() as ConstraintDefinition["kind"];
+  const target = match[3] !== undefined ? "node" : "relationship";
+  const items = (match[3] ?? match[4]).split(",").map(item => item.trim());
+
+  let label: string | undefined;
+  const properties: string[] = [];
+  for (const item of items) {
+    const parts = /^([A-Za-z_][\w]*)\.([A-Za-z_][\w]*)$/.exec(item);
+    if (!parts) {
+      throw new Error(`Invalid constraint "${text}": "${item}" is not of the form Label.property`);
+    }
+    if (label !== undefined && parts[1] !== label) {
+      throw new Error(`Invalid constraint "${text}": all properties must belong to the same label`);
+    }
+    label = parts[1];
+    properties.push(parts[2]);
+  }
+
+  return { kind, target, label: label!, properties };
+}
+
+/**
+ * Renders a constraint in its textual form, e.g. `KEY (Document.vault, Document.path)`
+ * @param constraint The constraint definition
+ * @returns The constraint text
+ */
+export function formatConstraint(constraint: ConstraintDefinition): string {
+  const items = constraint.properties.map(property => `${constraint.label}.${property}`).join(", ");
+  const [open, close] = constraint.target === "node" ? ["(", ")"] : ["[", "]"];
+  return `${constraint.kind.toUpperCase()} ${open}${items}${close}`;
+}
+
+/**
+ * Lookup structure enforcing one constraint.
+ *
+ * Maps the combination of constrained values to the entity holding it, so
+ * checking a new or updated entity is a single map lookup. Entities are
+ * identified by an opaque key chosen by the graph.
+ */
+export class ConstraintIndex {
+  readonly definition: ConstraintDefinition;
+
+  // Maps serialized value combination -> entity key
+  private owners: Map<string, string>;
+
+  // Maps entity key -> serialized value combination
+  private entries: Map<string, string>;
+
+  constructor(definition: ConstraintDefinition) {
+    this.definition = definition;
+    this.owners = new Map();
+    this.entries = new Map();
+  }
+
+  /**
+   * Check whether an entity with the given data would violate the constraint
+   * @param entityKey Key of the entity, or undefined for an entity that doesn't exist yet
+   * @param data The entity's (new) data
+   * @param describe Renders an entity key for error messages
+   * @returns The violation, or undefined if the data satisfies the constraint
+   */
+  check(
+    entityKey: string | undefined,
+    data: unknown,
+    describe: (entityKey: string) => string
+  ): ConstraintViolationError | undefined {
+    const { values, missing } = this.extract(data);
+    const text = formatConstraint(this.definition);
+
+    if (missing !== undefined) {
+      return this.definition.kind === "key"
+        ? new ConstraintViolationError(this.definition, `${text} violated: property "${missing}" is missing`)
+        : undefined;
+    }
+
+    const owner = this.owners.get(JSON.stringify(values));
+    if (owner !== undefined && owner !== entityKey) {
+      const assignments = this.definition.properties
+        .map((property, i) => `${property} ${JSON.stringify(values[i])}`)
+        .join(", ");
+      return new ConstraintViolationError(
+        this.definition,
+        `${text} violated: ${describe(owner)} already has ${assignments}`
+      );
+    }
+    return undefined;
+  }
+
+  /**
+   * Record an entity's values. The entity is expected to satisfy the constraint.
+   * @param entityKey Key of the entity
+   * @param data The entity's data
+   */
+  add(entityKey: string, data: unknown): void {
+    this.remove(entityKey);
+    const { values, missing } = this.extract(data);
+    if (missing !== undefined) {
+      return;
+    }
+    const valueKey = JSON.stringify(values);
+    this.owners.set(valueKey, entityKey);
+    this.entries.set(entityKey, valueKey);
+  }
+
+  /**
+   * Forget an entity's values
+   * @param entityKey Key of the entity
+   */
+  remove(entityKey: string): void {
+    const valueKey = this.entries.get(entityKey);
+    if (valueKey === undefined) {
+      return;
+    }
+    this.entries.delete(entityKey);
+    if (this.owners.get(valueKey) === entityKey) {
+      this.owners.delete(valueKey);
+    }
+  }
+
+  /**
+   * Forget all entities, keeping the constraint definition
+   */
+  clear(): void {
+    this.owners.clear();
+    this.entries.clear();
+  }
+
+  private extract(data: unknown): { values: unknown[]; missing?: string } {
+    const record = data && typeof data === "object" ? (data as Record<string, unknown>) : {};
+    const values: unknown[] = [];
+    for (const property of this.definition.properties) {
+      const value = record[property];
+      if (value === undefined || value === null) {
+        return { values, missing: property };
+      }
+      values.push(value);
+    }
+    return { values };
+  }
+}
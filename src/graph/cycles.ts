@@ -0,0 +1,242 @@
+import { Edge, Graph, Node, NodeId, Path } from "./graph";
+
+/**
+ * Options for topological sorting
+ */
+export interface TopologicalSortOptions {
+  /** Only consider relationships of these types (default: all) */
+  relationshipTypes?: string[];
+  /**
+   * Which end of an edge is ordered first: "outgoing" puts sources before targets,
+   * "incoming" puts targets before sources, e.g. dependencies before the tasks that
+   * DEPENDS_ON them (default: outgoing)
+   */
+  direction?: "outgoing" | "incoming";
+}
+
+/**
+ * Options for cycle enumeration
+ */
+export interface FindCyclesOptions {
+  /** Only consider relationships of these types (default: all) */
+  relationshipTypes?: string[];
+  /** Stop after finding this many cycles (default: find all) */
+  maxCycles?: number;
+}
+
+/**
+ * Error thrown when nodes can't be ordered because their edges form a cycle
+ * @template NodeData Type of data associated with nodes
+ * @template EdgeData Type of data associated with edges
+ */
+export class CycleDetectedError<NodeData = any, EdgeData = any> extends Error {
+  /** One cycle of the graph; its first and last node are the same */
+  readonly cycle: Path<NodeData, EdgeData>;
+
+  constructor(cycle: Path<NodeData, EdgeData>, message: string) {
+    super(message);
+    this.name = "CycleDetectedError";
+    this.cycle = cycle;
+  }
+}
+
+/**
+ * Order all nodes of a graph so that every considered edge leads from an earlier
+ * node to a later one (Kahn's algorithm). Ties are broken by the insertion order
+ * of nodes and edges, so the order is deterministic.
+ * @param graph The graph to sort
+ * @param options Relationship types and direction
+ * @returns All nodes of the graph in topological order
+ * @throws CycleDetectedError if the considered edges form a cycle
+ */
+export function findTopologicalOrder<NodeData, EdgeData>(
+  graph: Graph<NodeData, EdgeData>,
+  options: TopologicalSortOptions = {}
+): Node<NodeData>[] {
+  const direction = options.direction ?? "outgoing";
+  const reverse = direction === "outgoing" ? "incoming" : "outgoing";
+  const relationshipTypes = options.relationshipTypes ?? [];
+
+  const nodes = graph.getAllNodes();
+  // Number of edges from nodes that haven't been ordered yet
+  const remaining = new Map<NodeId, number>();
+  for (const node of nodes) {
+    remaining.set(node.id, getSteps(graph, node.id, reverse, relationshipTypes).length);
+  }
+
+  const order = nodes.filter(node => remaining.get(node.id) === 0);
+  for (let i = 0; i < order.length; i++) {
+    for (const { neighbor } of getSteps(graph, order[i].id, direction, relationshipTypes)) {
+      const count = remaining.get(neighbor)! - 1;
+      remaining.set(neighbor, count);
+      if (count === 0) {
+        order.push(graph.getNode(neighbor)!);
+      }
+    }
+  }
+
+  if (order.length < nodes.length) {
+    const cycle = findRemainingCycle(graph, remaining, reverse, relationshipTypes);
+    throw new CycleDetectedError(cycle, `Cannot sort the graph topologically, it contains a cycle: ${formatCycle(cycle)}`);
+  }
+  return order;
+}
+
+/**
+ * Enumerate the elementary cycles of a graph, i.e. the cycles that don't visit a
+ * node twice (Johnson's algorithm). Every cycle starts and ends at its earliest
+ * inserted node; cycles through parallel edges are reported once per edge.
+ * @param graph The graph to search
+ * @param options Relationship types and the maximum number of cycles
+ * @returns The cycles found, as paths whose first and last node are the same
+ */
+export function findElementaryCycles<NodeData, EdgeData>(
+  graph: Graph<NodeData, EdgeData>,
+  options: FindCyclesOptions = {}
+): Path<NodeData, EdgeData>[] {
+  const relationshipTypes = options.relationshipTypes ?? [];
+  const maxCycles = options.maxCycles ?? Number.MAX_SAFE_INTEGER;
+  const cycles: Path<NodeData, EdgeData>[] = [];
+
+  const nodes = graph.getAllNodes();
+  const position = new Map(nodes.map((node, i) => [node.id, i]));
+
+  for (let i = 0; i < nodes.length && cycles.length < maxCycles; i++) {
+    const start = nodes[i];
+    // Cycles through earlier nodes were found when those nodes were the start
+    const stepsFrom = (id: NodeId) =>
+      getSteps(graph, id, "outgoing", relationshipTypes).filter(step => position.get(step.neighbor)! >= i);
+
+    // Blocked nodes can't currently reach the start without crossing the path;
+    // blockedBy[w] lists the blocked nodes to unblock once w is unblocked
+    const blocked = new Set<NodeId>([start.id]);
+    const blockedBy = new Map<NodeId, Set<NodeId>>();
+    // Nodes on the path that reached the start at least once
+    const closed = new Set<NodeId>();
+
+    const pathNodes: Node<NodeData>[] = [start];
+    const pathEdges: Edge<EdgeData>[] = [];
+    const stack = [{ id: start.id, steps: stepsFrom(start.id), next: 0 }];
+
+    while (stack.length > 0 && cycles.length < maxCycles) {
+      const frame = stack[stack.length - 1];
+
+      if (frame.next < frame.steps.length) {
+        const { edge, neighbor } = frame.steps[frame.next++];
+        if (neighbor === start.id) {
+          cycles.push({ nodes: [...pathNodes, start], edges: [...pathEdges, edge] });
+          for (const node of pathNodes) {
+            closed.add(node.id);
+          }
+        } else if (!blocked.has(neighbor)) {
+          pathNodes.push(graph.getNode(neighbor)!);
+          pathEdges.push(edge);
+          blocked.add(neighbor);
+          closed.delete(neighbor);
+          stack.push({ id: neighbor, steps: stepsFrom(neighbor), next: 0 });
+        }
+        continue;
+      }
+
+      // All edges of the node are explored: leave it blocked unless it led back to the start
+      if (closed.has(frame.id)) {
+        unblock(frame.id, blocked, blockedBy);
+      } else {
+        for (const { neighbor } of frame.steps) {
+          let dependents = blockedBy.get(neighbor);
+          if (!dependents) {
+            dependents = new Set();
+            blockedBy.set(neighbor, dependents);
+          }
+          dependents.add(frame.id);
+        }
+      }
+      stack.pop();
+      pathNodes.pop();
+      pathEdges.pop();
+    }
+  }
+
+  return cycles;
+}
+
+/**
+ * Render a cycle as text, e.g. `(a)-[:DEPENDS_ON]->(b)-[:DEPENDS_ON]->(a)`
+ */
+function formatCycle(cycle: Path): string {
+  let text = `(${cycle.nodes[0].id})`;
+  cycle.edges.forEach((edge, i) => {
+    const forward = edge.source === cycle.nodes[i].id;
+    text += forward ? `-[:${edge.label}]->` : `<-[:${edge.label}]-`;
+    text += `(${cycle.nodes[i + 1].id})`;
+  });
+  return text;
+}
+
+/**
+ * Find a cycle among the nodes Kahn's algorithm couldn't order. Each of them has
+ * an unordered predecessor, so walking predecessors must eventually repeat a node.
+ */
+function findRemainingCycle<NodeData, EdgeData>(
+  graph: Graph<NodeData, EdgeData>,
+  remaining: Map<NodeId, number>,
+  reverse: "outgoing" | "incoming",
+  relationshipTypes: string[]
+): Path<NodeData, EdgeData> {
+  let current = Array.from(remaining.keys()).find(id => remaining.get(id)! > 0)!;
+  const walk: NodeId[] = [];
+  const walkEdges: Edge<EdgeData>[] = [];
+  const seen = new Map<NodeId, number>();
+
+  while (!seen.has(current)) {
+    seen.set(current, walk.length);
+    walk.push(current);
+    const step = getSteps(graph, current, reverse, relationshipTypes).find(
+      ({ neighbor }) => remaining.get(neighbor)! > 0
+    )!;
+    walkEdges.push(step.edge);
+    current = step.neighbor;
+  }
+
+  // The walk went against the edges, so the cycle runs through it backwards
+  const from = seen.get(current)!;
+  const nodes = [...walk.slice(from), current].reverse().map(id => graph.getNode(id)!);
+  const edges = walkEdges.slice(from).reverse();
+  return { nodes, edges };
+}
+
+/**
+ * Edges leading from a node in a direction, with the node they lead to
+ */
+function getSteps<NodeData, EdgeData>(
+  graph: Graph<NodeData, EdgeData>,
+  id: NodeId,
+  direction: "outgoing" | "incoming",
+  relationshipTypes: string[]
+): Array<{ edge: Edge<EdgeData>; neighbor: NodeId }> {
+  const result: Array<{ edge: Edge<EdgeData>; neighbor: NodeId }> = [];
+  for (const edge of graph.getEdgesForNode(id, direction)) {
+    if (relationshipTypes.length > 0 && !relationshipTypes.includes(edge.label)) {
+      continue;
+    }
+    result.push({ edge, neighbor: direction === "outgoing" ? edge.target : edge.source });
+  }
+  return result;
+}
+
+/**
+ * Unblock a node, and transitively the nodes that were waiting for it
+ */
+function unblock(id: NodeId, blocked: Set<NodeId>, blockedBy: Map<NodeId, Set<NodeId>>): void {
+  const pending = [id];
+  while (pending.length > 0) {
+    const node = pending.pop()!;
+    if (blocked.delete(node)) {
+      const dependents = blockedBy.get(node);
+      if (dependents) {
+        pending.push(...dependents);
+        blockedBy.delete(node);
+      }
+    }
+  }
+}
@@ -0,0 +1,455 @@
+import { EdgeReference, Graph, NodeId } from "./graph";
+import { isEqual, isPlainObject } from "./data-utils";
+import { findEdge, toEdgeReference, updateEdgeData } from "./algorithm-utils";
+
+/**
+ * Change of one top-level data property. Data that isn't a plain object is
+ * compared as a whole and reported as a change of the property "".
+ */
+export interface PropertyChange {
+  /** Name of the property */
+  property: string;
+  /** Whether the property was added, removed or changed */
+  type: "added" | "removed" | "changed";
+  /** Value before the change; absent for added properties */
+  before?: unknown;
+  /** Value after the change; absent for removed properties */
+  after?: unknown;
+}
+
+/**
+ * A node added or removed by a patch
+ */
+export interface PatchNode<NodeData = any> {
+  id: NodeId;
+  labels: string[];
+  data: NodeData;
+}
+
+/**
+ * Changes to a node that exists before and after a patch
+ */
+export interface NodeChange {
+  id: NodeId;
+  /** Labels before and after, if they changed (including their order) */
+  labels?: { before: string[]; after: string[] };
+  /** Changes of the node's data */
+  changes: PropertyChange[];
+}
+
+/**
+ * An edge added or removed by a patch
+ */
+export interface PatchEdge<EdgeData = any> extends EdgeReference {
+  data: EdgeData;
+}
+
+/**
+ * Changes to the data of an edge that exists before and after a patch
+ */
+export interface EdgeChange extends EdgeReference {
+  changes: PropertyChange[];
+}
+
+/**
+ * Differences between two graphs that turn the first into the second. Patches
+ * are plain data: they survive `JSON.stringify` and `JSON.parse` as long as node
+ * and edge data do.
+ * @template NodeData Type of data associated with nodes
+ * @template EdgeData Type of data associated with edges
+ */
+export interface GraphPatch<NodeData = any, EdgeData = any> {
+  addedNodes: PatchNode<NodeData>[];
+  removedNodes: PatchNode<NodeData>[];
+  changedNodes: NodeChange[];
+  addedEdges: PatchEdge<EdgeData>[];
+  removedEdges: PatchEdge<EdgeData>[];
+  changedEdges: EdgeChange[];
+}
+
+/**
+ * Options for applying a patch
+ */
+export interface ApplyPatchOptions {
+  /**
+   * Refuse to apply the patch if the graph isn't in the state the patch expects,
+   * e.g. a node to add already exists or a property to change has another value.
+   * When false, conflicting parts are applied as well as possible. (default: true)
+   */
+  strict?: boolean;
+}
+
+/**
+ * Error thrown when a patch doesn't fit the graph it is applied to in strict mode
+ */
+export class PatchConflictError extends Error {
+  /** Descriptions of every conflict */
+  readonly conflicts: string[];
+
+  constructor(conflicts: string[], message: string) {
+    super(message);
+    this.name = "PatchConflictError";
+    this.conflicts = conflicts;
+  }
+}
+
+/**
+ * Compute the patch that turns one graph into another. Nodes are matched by ID
+ * and edges by source, target and type; data is compared per top-level property.
+ * The patch holds copies of the data, so later changes to the graphs don't affect it.
+ * @param a The graph before
+ * @param b The graph after
+ * @returns The patch, with elements in the insertion order of the graph they come from
+ */
+export function diffGraphs<NodeData, EdgeData>(
+  a: Graph<NodeData, EdgeData>,
+  b: Graph<NodeData, EdgeData>
+): GraphPatch<NodeData, EdgeData> {
+  const patch: GraphPatch<NodeData, EdgeData> = {
+    addedNodes: [],
+    removedNodes: [],
+    changedNodes: [],
+    addedEdges: [],
+    removedEdges: [],
+    changedEdges: []
+  };
+
+  for (const node of a.getAllNodes()) {
+    if (!b.hasNode(node.id)) {
+      patch.removedNodes.push({ id: node.id, labels: [...node.labels], data: structuredClone(node.data) });
+    }
+  }
+  for (const node of b.getAllNodes()) {
+    const before = a.getNode(node.id);
+    if (!before) {
+      patch.addedNodes.push({ id: node.id, labels: [...node.labels], data: structuredClone(node.data) });
+      continue;
+    }
+    const change: NodeChange = { id: node.id, changes: diffData(before.data, node.data) };
+    if (!isEqual(before.labels, node.labels)) {
+      change.labels = { before: [...before.labels], after: [...node.labels] };
+    }
+    if (change.labels || change.changes.length > 0) {
+      patch.changedNodes.push(change);
+    }
+  }
+
+  for (const edge of a.getAllEdges()) {
+    if (!findEdge(b, edge)) {
+      patch.removedEdges.push({ ...toEdgeReference(edge), data: structuredClone(edge.data) });
+    }
+  }
+  for (const edge of b.getAllEdges()) {
+    const before = findEdge(a, edge);
+    if (!before) {
+      patch.addedEdges.push({ ...toEdgeReference(edge), data: structuredClone(edge.data) });
+      continue;
+    }
+    const changes = diffData(before.data, edge.data);
+    if (changes.length > 0) {
+      patch.changedEdges.push({ ...toEdgeReference(edge), changes });
+    }
+  }
+
+  return patch;
+}
+
+/**
+ * Apply a patch to a graph: remove edges and nodes, add and change nodes, then
+ * add and change edges. All changes are made in one batch and one transaction,
+ * so subscribers receive a single change set and nothing is kept if a change fails.
+ * @param graph The graph to change
+ * @param patch The patch to apply
+ * @param options Whether conflicts abort the patch
+ * @returns Descriptions of the conflicts that were worked around (always empty in strict mode)
+ * @throws PatchConflictError in strict mode if the graph isn't in the state the patch expects
+ * @throws ConstraintViolationError if a change violates a constraint
+ */
+export function applyGraphPatch<NodeData, EdgeData>(
+  graph: Graph<NodeData, EdgeData>,
+  patch: GraphPatch<NodeData, EdgeData>,
+  options: ApplyPatchOptions = {}
+): string[] {
+  const conflicts = findConflicts(graph, patch);
+  if ((options.strict ?? true) && conflicts.length > 0) {
+    throw new PatchConflictError(
+      conflicts,
+      `Cannot apply the patch, the graph doesn't match it: ${conflicts.join("; ")}`
+    );
+  }
+
+  return graph.batch(() => {
+    const transaction = graph.beginTransaction();
+    try {
+      for (const reference of patch.removedEdges) {
+        const edge = findEdge(graph, reference);
+        if (edge?.id !== undefined) {
+          graph.removeEdgeById(edge.id);
+        } else if (edge) {
+          graph.removeEdge(edge.source, edge.target, edge.label);
+        }
+      }
+      for (const { id } of patch.removedNodes) {
+        graph.removeNode(id);
+      }
+
+      for (const { id, labels, data } of patch.addedNodes) {
+        if (graph.hasNode(id)) {
+          graph.updateNodeLabel(id, labels);
+          graph.updateNodeData(id, structuredClone(data));
+        } else {
+          graph.addNode(id, labels, structuredClone(data));
+        }
+      }
+      for (const { id, labels, changes } of patch.changedNodes) {
+        const node = graph.getNode(id);
+        if (!node) {
+          continue;
+        }
+        if (labels) {
+          graph.updateNodeLabel(id, labels.after);
+        }
+        if (changes.length > 0) {
+          graph.updateNodeData(id, applyDataChanges(node.data, changes) as NodeData);
+        }
+      }
+
+      for (const edge of patch.addedEdges) {
+        if (findEdge(graph, edge)) {
+          updateEdgeData(graph, edge, structuredClone(edge.data));
+        } else if (graph.hasNode(edge.source) && graph.hasNode(edge.target)) {
+          graph.addEdge(edge.source, edge.target, edge.label, structuredClone(edge.data), edge.id);
+        }
+      }
+      for (const change of patch.changedEdges) {
+        const edge = findEdge(graph, change);
+        if (edge) {
+          updateEdgeData(graph, change, applyDataChanges(edge.data, change.changes) as EdgeData);
+        }
+      }
+
+      transaction.commit();
+      return conflicts;
+    } catch (error) {
+      transaction.rollback();
+      throw error;
+    }
+  });
+}
+
+/**
+ * Render a patch as text, one line per change: `+` for additions, `-` for
+ * removals and `~` for changes, e.g. `~ (a) name: "Alice" -> "Alice Smith"`
+ * @param patch The patch to render
+ * @returns The text, or "No changes" for an empty patch
+ */
+export function formatPatch(patch: GraphPatch): string {
+  const lines: string[] = [];
+
+  for (const node of patch.removedNodes) {
+    lines.push(`- (${node.id}:${node.labels.join(":")}) ${formatValue(node.data)}`);
+  }
+  for (const node of patch.addedNodes) {
+    lines.push(`+ (${node.id}:${node.labels.join(":")}) ${formatValue(node.data)}`);
+  }
+  for (const { id, labels, changes } of patch.changedNodes) {
+    if (labels) {
+      lines.push(`~ (${id}) labels: ${labels.before.join(", ")} -> ${labels.after.join(", ")}`);
+    }
+    lines.push(...changes.map(change => `~ (${id}) ${formatPropertyChange(change)}`));
+  }
+
+  for (const edge of patch.removedEdges) {
+    lines.push(`- ${formatEdge(edge)} ${formatValue(edge.data)}`);
+  }
+  for (const edge of patch.addedEdges) {
+    lines.push(`+ ${formatEdge(edge)} ${formatValue(edge.data)}`);
+  }
+  for (const edge of patch.changedEdges) {
+    lines.push(...edge.changes.map(change => `~ ${formatEdge(edge)} ${formatPropertyChange(change)}`));
+  }
+
+  return lines.length > 0 ? lines.join("\n") : "No changes";
+}
+
+/**
+ * Compare data per top-level property
+ */
+function diffData(before: unknown, after: unknown): PropertyChange[] {
+  if (isEqual(before, after)) {
+    return [];
+  }
+  if (!isPlainObject(before) || !isPlainObject(after)) {
+    return [{ property: "", type: "changed", before: structuredClone(before), after: structuredClone(after) }];
+  }
+
+  const changes: PropertyChange[] = [];
+  for (const [property, value] of Object.entries(before)) {
+    if (!(property in after)) {
+      changes.push({ property, type: "removed", before: structuredClone(value) });
+    } else if (!isEqual(value, after[property])) {
+      changes.push({ property, type: "changed", before: structuredClone(value), after: structuredClone(after[property]) });
+    }
+  }
+  for (const [property, value] of Object.entries(after)) {
+    if (!(property in before)) {
+      changes.push({ property, type: "added", after: structuredClone(value) });
+    }
+  }
+  return changes;
+}
+
+/**
+ * New data with the property changes applied
+ */
+function applyDataChanges(data: unknown, changes: PropertyChange[]): unknown {
+  let result: unknown = isPlainObject(data) ? { ...data } : {};
+  for (const change of changes) {
+    if (change.property === "") {
+      result = structuredClone(change.after);
+    } else if (change.type === "removed") {
+      delete (result as Record<string, unknown>)[change.property];
+    } else {
+      (result as Record<string, unknown>)[change.property] = structuredClone(change.after);
+    }
+  }
+  return result;
+}
+
+/**
+ * Describe every way the graph differs from the state the patch expects
+ */
+function findConflicts<NodeData, EdgeData>(
+  graph: Graph<NodeData, EdgeData>,
+  patch: GraphPatch<NodeData, EdgeData>
+): string[] {
+  const conflicts: string[] = [];
+  const removedEdges = new Set(patch.removedEdges.map(edge => edgeKey(edge)));
+  const removedNodes = new Set(patch.removedNodes.map(node => node.id));
+  const addedNodes = new Set(patch.addedNodes.map(node => node.id));
+
+  for (const edge of patch.removedEdges) {
+    const current = findEdge(graph, edge);
+    if (!current) {
+      conflicts.push(`Edge ${formatEdge(edge)} to remove doesn't exist`);
+    } else if (!isEqual(current.data, edge.data)) {
+      conflicts.push(`Edge ${formatEdge(edge)} to remove has different data`);
+    }
+  }
+  for (const node of patch.removedNodes) {
+    const current = graph.getNode(node.id);
+    if (!current) {
+      conflicts.push(`Node "${node.id}" to remove doesn't exist`);
+      continue;
+    }
+    if (!isEqual(current.labels, node.labels) || !isEqual(current.data, node.data)) {
+      conflicts.push(`Node "${node.id}" to remove has different labels or data`);
+    }
+    if (graph.getEdgesForNode(node.id, "both").some(edge => !removedEdges.has(edgeKey(edge)))) {
+      conflicts.push(`Node "${node.id}" to remove has edges the patch doesn't remove`);
+    }
+  }
+
+  for (const node of patch.addedNodes) {
+    if (graph.hasNode(node.id) && !removedNodes.has(node.id)) {
+      conflicts.push(`Node "${node.id}" to add already exists`);
+    }
+  }
+  for (const { id, labels, changes } of patch.changedNodes) {
+    const current = graph.getNode(id);
+    if (!current) {
+      conflicts.push(`Node "${id}" to change doesn't exist`);
+      continue;
+    }
+    if (labels && !isEqual(current.labels, labels.before)) {
+      conflicts.push(`Node "${id}" has labels ${current.labels.join(", ")}, expected ${labels.before.join(", ")}`);
+    }
+    conflicts.push(...findDataConflicts(`node "${id}"`, current.data, changes));
+  }
+
+  for (const edge of patch.addedEdges) {
+    if (findEdge(graph, edge) && !removedEdges.has(edgeKey(edge))) {
+      conflicts.push(`Edge ${formatEdge(edge)} to add already exists`);
+    }
+    for (const id of [edge.source, edge.target]) {
+      if ((!graph.hasNode(id) || removedNodes.has(id)) && !addedNodes.has(id)) {
+        conflicts.push(`Edge ${formatEdge(edge)} to add connects missing node "${id}"`);
+      }
+    }
+  }
+  for (const edge of patch.changedEdges) {
+    const current = findEdge(graph, edge);
+    if (!current) {
+      conflicts.push(`Edge ${formatEdge(edge)} to change doesn't exist`);
+      continue;
+    }
+    conflicts.push(...findDataConflicts(`edge ${formatEdge(edge)}`, current.data, edge.changes));
+  }
+
+  return conflicts;
+}
+
+/**
+ * Describe the properties whose current values differ from the values the changes expect
+ */
+function findDataConflicts(element: string, data: unknown, changes: PropertyChange[]): string[] {
+  const conflicts: string[] = [];
+  for (const change of changes) {
+    if (change.property === "") {
+      if (!isEqual(data, change.before)) {
+        conflicts.push(`Data of ${element} is ${formatValue(data)}, expected ${formatValue(change.before)}`);
+      }
+      continue;
+    }
+
+    const properties = isPlainObject(data) ? data : {};
+    const exists = change.property in properties;
+    if (change.type === "added" && exists) {
+      conflicts.push(`Property "${change.property}" of ${element} to add already exists`);
+    } else if (change.type !== "added" && !exists) {
+      conflicts.push(`Property "${change.property}" of ${element} doesn't exist`);
+    } else if (change.type !== "added" && !isEqual(properties[change.property], change.before)) {
+      conflicts.push(
+        `Property "${change.property}" of ${element} is ${formatValue(properties[change.property])}, ` +
+        `expected ${formatValue(change.before)}`
+      );
+    }
+  }
+  return conflicts;
+}
+
+/**
+ * Key identifying an edge by its endpoints, type and ID
+ */
+function edgeKey(edge: EdgeReference): string {
+  return JSON.stringify([edge.source, edge.target, edge.label, edge.id ?? null]);
+}
+
+/**
+ * Render an edge as `(source)-[:LABEL]->(target)`, or `(source)-[id:LABEL]->(target)` if it has an ID
+ */
+function formatEdge(edge: EdgeReference): string {
+  return `(${edge.source})-[${edge.id ?? ""}:${edge.label}]->(${edge.target})`;
+}
+
+/**
+ * Render a property change as `name: before -> after`, `+name: after` or `-name: before`
+ */
+function formatPropertyChange(change: PropertyChange): string {
+  const name = change.property === "" ? "data" : change.property;
+  switch (change.type) {
+    case "added":
+      return `+${name}: ${formatValue(change.after)}`;
+    case "removed":
+      return `-${name}: ${formatValue(change.before)}`;
+    default:
+      return `${name}: ${formatValue(change.before)} -> ${formatValue(change.after)}`;
+  }
+}
+
+/**
+ * Render a value as JSON
+ */
+function formatValue(value: unknown): string {
+  return JSON.stringify(value) ?? String(value);
+}
@@ -0,0 +1,118 @@
+import { Edge, EdgeId, Node, NodeId } from "./graph";
+
+/**
+ * A node was added to the graph
+ */
+export interface NodeAddedEvent<NodeData = any> {
+  type: "nodeAdded";
+  /** The added node */
+  node: Node<NodeData>;
+}
+
+/**
+ * A node was removed from the graph. Its edges are reported as
+ * `edgeRemoved` events in the same change set, before this event.
+ */
+export interface NodeRemovedEvent<NodeData = any> {
+  type: "nodeRemoved";
+  /** The node as it was before removal */
+  node: Node<NodeData>;
+}
+
+/**
+ * The data of a node was replaced
+ */
+export interface NodeDataUpdatedEvent<NodeData = any> {
+  type: "nodeDataUpdated";
+  /** ID of the updated node */
+  id: NodeId;
+  /** Data before the update */
+  oldData: NodeData;
+  /** Data after the update */
+  newData: NodeData;
+}
+
+/**
+ * The labels of a node changed
+ */
+export interface NodeLabelChangedEvent {
+  type: "nodeLabelChanged";
+  /** ID of the updated node */
+  id: NodeId;
+  /** Labels before the change */
+  oldLabels: string[];
+  /** Labels after the change */
+  newLabels: string[];
+}
+
+/**
+ * An edge was added to the graph
+ */
+export interface EdgeAddedEvent<EdgeData = any> {
+  type: "edgeAdded";
+  /** The added edge */
+  edge: Edge<EdgeData>;
+}
+
+/**
+ * The data of an edge was replaced
+ */
+export interface EdgeUpdatedEvent<EdgeData = any> {
+  type: "edgeUpdated";
+  /** ID of the updated edge, only present for edges with an ID */
+  id?: EdgeId;
+  /** ID of the source node */
+  source: NodeId;
+  /** ID of the target node */
+  target: NodeId;
+  /** Type of the relationship */
+  label: string;
+  /** Data before the update */
+  oldData: EdgeData;
+  /** Data after the update */
+  newData: EdgeData;
+}
+
+/**
+ * An edge was removed from the graph, either directly or because one of its nodes was removed
+ */
+export interface EdgeRemovedEvent<EdgeData = any> {
+  type: "edgeRemoved";
+  /** The edge as it was before removal */
+  edge: Edge<EdgeData>;
+}
+
+/**
+ * Any change to a graph
+ * @template NodeData Type of data associated with nodes
+ * @template EdgeData Type of data associated with edges
+ */
+export type GraphChange<NodeData = any, EdgeData = any> =
+  | NodeAddedEvent<NodeData>
+  | NodeRemovedEvent<NodeData>
+  | NodeDataUpdatedEvent<NodeData>
+  | NodeLabelChangedEvent
+  | EdgeAddedEvent<EdgeData>
+  | EdgeUpdatedEvent<EdgeData>
+  | EdgeRemovedEvent<EdgeData>;
+
+/**
+ * Names of the change events
+ */
+export type GraphChangeType = GraphChange["type"];
+
+/**
+ * Narrows a change to the event of the given type
+ */
+export type GraphChangeOf<
+  T extends GraphChangeType,
+  NodeData = any,
+  EdgeData = any
+> = Extract<GraphChange<NodeData, EdgeData>, { type: T }>;
+
+/**
+ * Receives the changes of one mutation, or of one batch of mutations, in the order they happened
+ */
+export type GraphChangeListener<NodeData = any, EdgeData = any> = (
+  changes: GraphChange<NodeData, EdgeData>[]
+) => void;
@@ -1,6 +1,29 @@
+import { IndexLookup, PropertyIndex, PropertyIndexDefinition } from "./property-index";
+import {
+  ConstraintDefinition, ConstraintIndex, ConstraintViolationError, formatConstraint, parseConstraint
+} from "./constraints";
+import { GraphChange, GraphChangeListener, GraphChangeOf, GraphChangeType } from "./events";
+import { Transaction } from "./transaction";
+import {
+  AStarOptions, AStarResult, findAllShortestPaths, findKShortestPaths, findPathAStar, findShortestPath,
+  findShortestPathDistances, WeightedPath, WeightedPathOptions
+} from "./shortest-path";
+import {
+  findElementaryCycles, FindCyclesOptions, findTopologicalOrder, TopologicalSortOptions
+} from "./cycles";
+import {
+  ComponentOptions, ComponentResult, findStronglyConnectedComponents, findWeaklyConnectedComponents,
+  StronglyConnectedComponentOptions
+} from "./components";
+import { mergeGraphs, MergeOptions, MergeReport } from "./merge";
+import { applyGraphPatch, ApplyPatchOptions, GraphPatch } from "./diff";
+
 // Unique identifier for nodes
 export type NodeId = string;
 
+// Optional stable identifier for edges
+export type EdgeId = string;
+
 /**
  * Core node structure in the graph
  * @template T Type of data associated with the node
@@ -8,8 +31,10 @@ export type NodeId = string;
 export interface Node<T = any> {
   /** Unique identifier for the node */
   id: NodeId;
-  /** label of the Node */
+  /** Primary label of the node (the first of its labels) */
   label: string;
+  /** All labels of the node, in the order they were assigned */
+  labels: string[];
   /** Data associated with the node */
   data: T;
 }
@@ -19,6 +44,8 @@ export interface Node<T = any> {
  * @template T Type of data associated with the edge
  */
 export interface Edge<T = any> {
+  /** Stable identifier of the edge, only present for edges added with an ID */
+  id?: EdgeId;
   /** ID of the source node */
   source: NodeId;
   /** ID of the target node */
@@ -29,6 +56,27 @@ export interface Edge<T = any> {
   data: T;
 }
 
+/**
+ * Identifies an edge by its ID, or by its endpoints and relationship type if it has none
+ */
+export interface EdgeReference {
+  /** ID of the edge, only present for edges with an ID */
+  id?: EdgeId;
+  source: NodeId;
+  target: NodeId;
+  label: string;
+}
+
+/**
+ * Key identifying an edge in query results: its ID, or `source-label-target`
+ * for edges without an ID
+ * @param edge The edge
+ * @returns The key
+ */
+export function getEdgeKey(edge: Edge): string {
+  return edge.id ?? `${edge.source}-${edge.label}-${edge.target}`;
+}
+
 export type EdgeDirection = "outgoing" | "incoming" | "both";
 
 /**
@@ -53,6 +101,12 @@ export interface PathOptions {
   relationshipTypes?: string[];
   /** Direction to traverse: outgoing (source->target), incoming (target->source), or both */
   direction?: EdgeDirection;
+  /**
+   * Search strategy: "bfs" expands paths from the start node only; "bidirectional"
+   * expands from both ends and joins the halves in the middle, which explores far
+   * fewer partial paths on large graphs. Both find the same paths. (default: "bfs")
+   */
+  algorithm?: "bfs" | "bidirectional";
 }
 
 /**
@@ -70,11 +124,46 @@ export interface BFSOptions {
 }
 
 /**
- * Visitor pattern interface for BFS traversal
+ * Options for DFS traversal
+ */
+export interface DFSOptions {
+  /** Maximum depth to traverse; edges of nodes at this depth are not examined */
+  maxDepth?: number;
+  /** Direction to traverse: outgoing, incoming, or both */
+  direction?: EdgeDirection;
+  /** Whether to track the path from the start node to each node */
+  trackPaths?: boolean;
+}
+
+/**
+ * Options for extracting subgraphs
+ */
+export interface SubgraphOptions {
+  /**
+   * Whether the new graph gets deep copies of node and edge data (true) or shares
+   * the same data objects with this graph (false) (default: true)
+   */
+  copyData?: boolean;
+}
+
+/**
+ * Options for extracting ego networks
+ */
+export interface EgoNetworkOptions extends SubgraphOptions {
+  /** Number of hops from the center node (default: 1) */
+  hops?: number;
+  /** Direction to follow edges: outgoing, incoming, or both (default: both) */
+  direction?: EdgeDirection;
+  /** Only follow, and copy, relationships of these types (default: all) */
+  relationshipTypes?: string[];
+}
+
+/**
+ * Visitor pattern interface shared by the BFS and DFS traversals
  * @template NodeData Type of data associated with nodes
  * @template EdgeData Type of data associated with edges
  */
-export interface BFSVisitor<NodeData = any, EdgeData = any> {
+export interface TraversalVisitor<NodeData = any, EdgeData = any> {
   /**
    * Called when starting the traversal
    * @param startNode The node where traversal begins
@@ -130,6 +219,107 @@ export interface BFSVisitor<NodeData = any, EdgeData = any> {
   ): void;
 }
 
+/**
+ * Visitor pattern interface for BFS traversal
+ * @template NodeData Type of data associated with nodes
+ * @template EdgeData Type of data associated with edges
+ */
+export type BFSVisitor<NodeData = any, EdgeData = any> = TraversalVisitor<NodeData, EdgeData>;
+
+/**
+ * Visitor pattern interface for DFS traversal.
+ *
+ * Every edge leading from a node on the current DFS path is reported through
+ * exactly one classification callback. `examineEdge` is only called for edges
+ * to undiscovered nodes and can still veto them; the edges it accepts become
+ * tree edges.
+ * @template NodeData Type of data associated with nodes
+ * @template EdgeData Type of data associated with edges
+ */
+export interface DFSVisitor<NodeData = any, EdgeData = any>
+  extends TraversalVisitor<NodeData, EdgeData> {
+  /**
+   * Called before descending along an edge to an undiscovered node
+   * @param edge The edge being followed
+   * @param sourceNode The source node of the edge
+   * @param targetNode The target node of the edge
+   * @param depth Depth of the node the edge was reached from
+   */
+  treeEdge?(
+    edge: Edge<EdgeData>,
+    sourceNode: Node<NodeData>,
+    targetNode: Node<NodeData>,
+    depth: number
+  ): void;
+
+  /**
+   * Called for an edge leading back to a node on the current DFS path (a cycle)
+   * @param edge The edge being examined
+   * @param sourceNode The source node of the edge
+   * @param targetNode The target node of the edge
+   * @param depth Depth of the node the edge was reached from
+   */
+  backEdge?(
+    edge: Edge<EdgeData>,
+    sourceNode: Node<NodeData>,
+    targetNode: Node<NodeData>,
+    depth: number
+  ): void;
+
+  /**
+   * Called for an edge leading to an already finished descendant of the current node
+   * @param edge The edge being examined
+   * @param sourceNode The source node of the edge
+   * @param targetNode The target node of the edge
+   * @param depth Depth of the node the edge was reached from
+   */
+  forwardEdge?(
+    edge: Edge<EdgeData>,
+    sourceNode: Node<NodeData>,
+    targetNode: Node<NodeData>,
+    depth: number
+  ): void;
+
+  /**
+   * Called for an edge leading to a finished node that isn't a descendant of the current node
+   * @param edge The edge being examined
+   * @param sourceNode The source node of the edge
+   * @param targetNode The target node of the edge
+   * @param depth Depth of the node the edge was reached from
+   */
+  crossEdge?(
+    edge: Edge<EdgeData>,
+    sourceNode: Node<NodeData>,
+    targetNode: Node<NodeData>,
+    depth: number
+  ): void;
+
+  /**
+   * Called when a node is entered, after `discoverNode` and before any of its edges are examined
+   * @param node The node being entered
+   * @param depth Depth of the node in the traversal
+   * @param path The path taken to reach this node (if trackPaths is true)
+   */
+  preOrder?(
+    node: Node<NodeData>,
+    depth: number,
+    path?: Path<NodeData, EdgeData>
+  ): void;
+
+  /**
+   * Called when a node is left, after all of its descendants are finished and
+   * before `finishNode`
+   * @param node The node being left
+   * @param depth Depth of the node in the traversal
+   * @param path The path taken to reach this node (if trackPaths is true)
+   */
+  postOrder?(
+    node: Node<NodeData>,
+    depth: number,
+    path?: Path<NodeData, EdgeData>
+  ): void;
+}
+
 /**
  * Serialization format for graph data
  * @template NodeData Type of data associated with nodes
@@ -139,9 +329,13 @@ export interface GraphData<NodeData = any, EdgeData = any> {
   nodes: Array<{
     id: NodeId;
     label: string;
+    /** All labels of the node, only present for nodes with more than one label */
+    labels?: string[];
     data: NodeData;
   }>;
   edges: Array<{
+    /** ID of the edge, only present for edges added with an ID */
+    id?: EdgeId;
     source: NodeId;
     target: NodeId;
     label: string;
@@ -162,22 +356,58 @@ export interface GraphData<NodeData = any, EdgeData = any> {
 
 export class Graph<NodeData = any, EdgeData = any> {
   // Maps node IDs to their node data
-  private nodes: Map<NodeId, NodeData>;
-  private nodeLabels: Map<NodeId, string>;
+  private nodeData: Map<NodeId, NodeData>;
+  // Maps node IDs to their labels, in the order they were assigned
+  private nodeLabels: Map<NodeId, Set<string>>;
 
-  // Maps source node ID -> target node ID -> label -> edge data
-  // This structure allows efficient edge lookups and traversals
-  private outgoingEdges: Map<NodeId, Map<NodeId, Map<string, EdgeData>>>;
+  // Maps source node ID -> target node ID -> label -> edge ID -> edge data
+  // This structure allows efficient edge lookups and traversals. Edges without
+  // an ID (at most one per label and node pair) are stored under the ID undefined.
+  private outgoingEdges: Map<NodeId, Map<NodeId, Map<string, Map<EdgeId | undefined, EdgeData>>>>;
 
-  // Maps target node ID -> source node ID -> label -> edge data
+  // Maps target node ID -> source node ID -> the same label maps as outgoingEdges
   // This allows efficient backwards traversal
-  private incomingEdges: Map<NodeId, Map<NodeId, Map<string, EdgeData>>>;
+  private incomingEdges: Map<NodeId, Map<NodeId, Map<string, Map<EdgeId | undefined, EdgeData>>>>;
+
+  // Maps edge ID -> endpoints and label of the edge, for edges added with an ID
+  private edgeIds: Map<EdgeId, EdgeReference>;
+
+  // Maps label -> IDs of the nodes carrying that label
+  // Kept in sync by every node mutation so label lookups never go stale
+  private labelIndex: Map<string, Set<NodeId>>;
+
+  // Maps relationship type -> source node ID -> target node IDs
+  // Kept in sync by every edge mutation so type lookups never go stale
+  private typeIndex: Map<string, Map<NodeId, Set<NodeId>>>;
+
+  // Maps label -> property -> secondary index over that property
+  private propertyIndexes: Map<string, Map<string, PropertyIndex>>;
+
+  // Maps constraint text (e.g. "UNIQUE (Person.email)") -> lookup structure enforcing it
+  private constraints: Map<string, ConstraintIndex>;
+
+  // Subscribers notified of every change set
+  private changeListeners: Set<GraphChangeListener<NodeData, EdgeData>>;
+
+  // Changes collected while a batch is open, or null outside of batches
+  private pendingChanges: GraphChange<NodeData, EdgeData>[] | null;
+
+  // Open transactions, outermost first; each records every change
+  private transactions: Transaction<NodeData, EdgeData>[];
 
   constructor() {
-    this.nodes = new Map<NodeId, NodeData>();
-    this.nodeLabels = new Map<NodeId, string>();
-    this.outgoingEdges = new Map<NodeId, Map<NodeId, Map<string, EdgeData>>>();
-    this.incomingEdges = new Map<NodeId, Map<NodeId, Map<string, EdgeData>>>();
+    this.nodeData = new Map<NodeId, NodeData>();
+    this.nodeLabels = new Map<NodeId, Set<string>>();
+    this.outgoingEdges = new Map();
+    this.incomingEdges = new Map();
+    this.edgeIds = new Map();
+    this.labelIndex = new Map<string, Set<NodeId>>();
+    this.typeIndex = new Map<string, Map<NodeId, Set<NodeId>>>();
+    this.propertyIndexes = new Map<string, Map<string, PropertyIndex>>();
+    this.constraints = new Map<string, ConstraintIndex>();
+    this.changeListeners = new Set<GraphChangeListener<NodeData, EdgeData>>();
+    this.pendingChanges = null;
+    this.transactions = [];
   }
 
   /**
@@ -187,9 +417,296 @@ export class Graph<NodeData = any, EdgeData = any> {
    * @returns The full node object or undefined if not found
    */
   private getFullNode(id: NodeId): Node<NodeData> | undefined {
-    const data = this.nodes.get(id);
-    const label = this.nodeLabels.get(id);
-    return data !== undefined && label !== undefined ? { id, label, data } : undefined;
+    const data = this.nodeData.get(id);
+    const labelSet = this.nodeLabels.get(id);
+    if (data === undefined || labelSet === undefined) {
+      return undefined;
+    }
+    const labels = Array.from(labelSet);
+    return { id, label: labels[0], labels, data };
+  }
+
+  /**
+   * Normalizes a single label or a list of labels into a de-duplicated label set.
+   * @private
+   * @param id The ID of the node the labels belong to (used in error messages)
+   * @param label A single label or an array of labels
+   * @returns The set of labels
+   * @throws Error if no label is given
+   */
+  private toLabelSet(id: NodeId, label: string | string[]): Set<string> {
+    const labels = new Set(Array.isArray(label) ? label : [label]);
+    if (labels.size === 0) {
+      throw new Error(`Node "${id}" must have at least one label`);
+    }
+    return labels;
+  }
+
+  /**
+   * Records a node under a label in the label index.
+   * @private
+   */
+  private indexNodeLabel(id: NodeId, label: string): void {
+    let ids = this.labelIndex.get(label);
+    if (!ids) {
+      ids = new Set();
+      this.labelIndex.set(label, ids);
+    }
+    ids.add(id);
+
+    for (const index of this.propertyIndexes.get(label)?.values() ?? []) {
+      index.add(id, this.nodeData.get(id));
+    }
+    for (const constraint of this.getConstraintIndexes("node", label)) {
+      constraint.add(id, this.nodeData.get(id));
+    }
+  }
+
+  /**
+   * Removes a node from a label in the label index, dropping the label once it is unused.
+   * @private
+   */
+  private unindexNodeLabel(id: NodeId, label: string): void {
+    for (const index of this.propertyIndexes.get(label)?.values() ?? []) {
+      index.remove(id);
+    }
+    for (const constraint of this.getConstraintIndexes("node", label)) {
+      constraint.remove(id);
+    }
+
+    const ids = this.labelIndex.get(label);
+    if (!ids) {
+      return;
+    }
+    ids.delete(id);
+    if (ids.size === 0) {
+      this.labelIndex.delete(label);
+    }
+  }
+
+  /**
+   * Records an edge in the relationship type index.
+   * @private
+   */
+  private indexEdge(source: NodeId, target: NodeId, label: string, data: EdgeData, id: EdgeId | undefined): void {
+    let sources = this.typeIndex.get(label);
+    if (!sources) {
+      sources = new Map();
+      this.typeIndex.set(label, sources);
+    }
+    let targets = sources.get(source);
+    if (!targets) {
+      targets = new Set();
+      sources.set(source, targets);
+    }
+    targets.add(target);
+
+    for (const constraint of this.getConstraintIndexes("relationship", label)) {
+      constraint.add(this.edgeKey(source, target, id), data);
+    }
+  }
+
+  /**
+   * Removes an edge, after it was removed from the adjacency maps, from the
+   * relationship type index, dropping the type once it is unused.
+   * @private
+   */
+  private unindexEdge(source: NodeId, target: NodeId, label: string, id: EdgeId | undefined): void {
+    for (const constraint of this.getConstraintIndexes("relationship", label)) {
+      constraint.remove(this.edgeKey(source, target, id));
+    }
+
+    const sources = this.typeIndex.get(label);
+    const targets = sources?.get(source);
+    // Parallel edges of the same type keep the node pair indexed
+    if (!sources || !targets || this.hasEdge(source, target, label)) {
+      return;
+    }
+    targets.delete(target);
+    if (targets.size === 0) {
+      sources.delete(source);
+    }
+    if (sources.size === 0) {
+      this.typeIndex.delete(label);
+    }
+  }
+
+  /**
+   * Key identifying an edge within the constraints of its relationship type.
+   * @private
+   */
+  private edgeKey(source: NodeId, target: NodeId, id: EdgeId | undefined): string {
+    return JSON.stringify(id === undefined ? [source, target] : [source, target, id]);
+  }
+
+  /**
+   * Returns the constraints that apply to a node label or relationship type.
+   * @private
+   */
+  private getConstraintIndexes(target: ConstraintDefinition["target"], label: string): ConstraintIndex[] {
+    const result: ConstraintIndex[] = [];
+    for (const constraint of this.constraints.values()) {
+      if (constraint.definition.target === target && constraint.definition.label === label) {
+        result.push(constraint);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Records a change, delivering it right away unless a batch is open.
+   * @private
+   */
+  private emitChange(change: GraphChange<NodeData, EdgeData>): void {
+    for (const transaction of this.transactions) {
+      transaction.record(change);
+    }
+    if (this.pendingChanges) {
+      this.pendingChanges.push(change);
+    } else if (this.changeListeners.size > 0) {
+      this.notifyListeners([change]);
+    }
+  }
+
+  /**
+   * Delivers a change set to every subscriber.
+   * @private
+   */
+  private notifyListeners(changes: GraphChange<NodeData, EdgeData>[]): void {
+    // Copy so listeners can unsubscribe while being notified
+    for (const listener of Array.from(this.changeListeners)) {
+      listener(changes);
+    }
+  }
+
+
+  // Change events
+
+  /**
+   * Subscribe to changes. The listener receives the changes of each mutation,
+   * or of each batch of mutations, as one change set in the order they happened.
+   * @param listener Function called with each change set
+   * @returns Function that removes the subscription
+   */
+  subscribe(listener: GraphChangeListener<NodeData, EdgeData>): () => void {
+    this.changeListeners.add(listener);
+    return () => {
+      this.changeListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Subscribe to one type of change
+   * @param type The change type to listen for, e.g. "nodeAdded"
+   * @param handler Function called with each change of that type
+   * @returns Function that removes the subscription
+   */
+  on<T extends GraphChangeType>(
+    type: T,
+    handler: (change: GraphChangeOf<T, NodeData, EdgeData>) => void
+  ): () => void {
+    return this.subscribe(changes => {
+      for (const change of changes) {
+        if (change.type === type) {
+          handler(change as GraphChangeOf<T, NodeData, EdgeData>);
+        }
+      }
+    });
+  }
+
+  /**
+   * Run several mutations as one batch: subscribers receive all their changes as
+   * a single change set once the batch completes (also if it throws).
+   * Batches can be nested; changes are delivered when the outermost batch completes.
+   * @param fn Function performing the mutations
+   * @returns The return value of fn
+   */
+  batch<T>(fn: () => T): T {
+    if (this.pendingChanges) {
+      return fn();
+    }
+
+    this.pendingChanges = [];
+    try {
+      return fn();
+    } finally {
+      const changes = this.pendingChanges;
+      this.pendingChanges = null;
+      if (changes.length > 0 && this.changeListeners.size > 0) {
+        this.notifyListeners(changes);
+      }
+    }
+  }
+
+  /**
+   * Whether a batch is currently open, i.e. changes are being held back from subscribers
+   */
+  inBatch(): boolean {
+    return this.pendingChanges !== null;
+  }
+
+
+  // Transactions
+
+  /**
+   * Begin a transaction that records every mutation made to the graph until it is
+   * committed or rolled back. Rolling back undoes the recorded mutations in reverse order.
+   * Transactions can be nested; a nested transaction must be finished first.
+   * @returns The transaction handle
+   */
+  beginTransaction(): Transaction<NodeData, EdgeData> {
+    const transaction = new Transaction<NodeData, EdgeData>(this, finished => {
+      if (this.transactions[this.transactions.length - 1] !== finished) {
+        throw new Error("Cannot finish a transaction while a nested transaction is active");
+      }
+      this.transactions.pop();
+    });
+    this.transactions.push(transaction);
+    return transaction;
+  }
+
+  /**
+   * Whether a transaction is currently active
+   */
+  inTransaction(): boolean {
+    return this.transactions.length > 0;
+  }
+
+  /**
+   * Apply a change to the graph through the corresponding mutation method,
+   * e.g. an `edgeRemoved` change removes the edge. Applying the inverse of a
+   * change (see `invertChange`) undoes it.
+   * @param change The change to apply
+   * @throws Error if the change doesn't fit the current state of the graph
+   */
+  applyChange(change: GraphChange<NodeData, EdgeData>): void {
+    let applied = true;
+    switch (change.type) {
+      case "nodeAdded":
+        this.addNode(change.node.id, change.node.labels, change.node.data);
+        break;
+      case "nodeRemoved":
+        applied = this.removeNode(change.node.id);
+        break;
+      case "nodeDataUpdated":
+        applied = this.updateNodeData(change.id, change.newData);
+        break;
+      case "nodeLabelChanged":
+        applied = this.updateNodeLabel(change.id, change.newLabels);
+        break;
+      case "edgeAdded":
+        this.addEdge(change.edge.source, change.edge.target, change.edge.label, change.edge.data, change.edge.id);
+        break;
+      case "edgeUpdated":
+        applied = this.updateEdgeEntry(change.source, change.target, change.label, change.id, change.newData);
+        break;
+      case "edgeRemoved":
+        applied = this.removeEdgeEntry(change.edge.source, change.edge.target, change.edge.label, change.edge.id);
+        break;
+    }
+    if (!applied) {
+      throw new Error(`Cannot apply ${change.type} change: the target no longer exists`);
+    }
   }
 
 
@@ -198,18 +715,27 @@ export class Graph<NodeData = any, EdgeData = any> {
   /**
    * Add a node to the graph
    * @param id Unique identifier for the node
-   * @param label Label of the node
+   * @param label Label of the node, or an array of labels for multi-label nodes
    * @param data Data to associate with the node
-   * @throws Error if a node with the same ID already exists
+   * @throws Error if a node with the same ID already exists or no label is given
    */
-  addNode(id: NodeId, label: string, data: NodeData): void {
-    if (this.nodes.has(id)) {
+  addNode(id: NodeId, label: string | string[], data: NodeData): void {
+    if (this.nodeData.has(id)) {
       throw new Error(`Node with ID "${id}" already exists`);
     }
-    this.nodes.set(id, data);
-    this.nodeLabels.set(id, label);
+    const labels = this.toLabelSet(id, label);
+    const violation = this.getNodeConstraintViolation(id, Array.from(labels), data);
+    if (violation) {
+      throw violation;
+    }
+    this.nodeData.set(id, data);
+    this.nodeLabels.set(id, labels);
+    for (const l of labels) {
+      this.indexNodeLabel(id, l);
+    }
     this.outgoingEdges.set(id, new Map());
     this.incomingEdges.set(id, new Map());
+    this.emitChange({ type: "nodeAdded", node: this.getFullNode(id)! });
   }
 
   /**
@@ -222,16 +748,37 @@ export class Graph<NodeData = any, EdgeData = any> {
   }
 
   /**
-   * Get the label of a node
+   * Get the primary label of a node
    * @param id The node ID to look up
-   * @returns The label of the node or undefined if not found
+   * @returns The primary (first) label of the node
+   * @throws Error if the node doesn't exist
    */
   getNodeLabel(id: NodeId): string {
-    const label = this.nodeLabels.get(id);
-    if (label === undefined) {
+    return this.getNodeLabels(id)[0];
+  }
+
+  /**
+   * Get all labels of a node
+   * @param id The node ID to look up
+   * @returns The labels of the node, in the order they were assigned
+   * @throws Error if the node doesn't exist
+   */
+  getNodeLabels(id: NodeId): string[] {
+    const labels = this.nodeLabels.get(id);
+    if (labels === undefined) {
       throw new Error(`Node with ID "${id}" has no label`);
     }
-    return label;
+    return Array.from(labels);
+  }
+
+  /**
+   * Check if a node has a specific label
+   * @param id The node ID to check
+   * @param label The label to look for
+   * @returns True if the node exists and has the label, false otherwise
+   */
+  hasNodeLabel(id: NodeId, label: string): boolean {
+    return this.nodeLabels.get(id)?.has(label) ?? false;
   }
 
   /**
@@ -240,7 +787,7 @@ export class Graph<NodeData = any, EdgeData = any> {
    * @returns True if the node exists, false otherwise
    */
   hasNode(id: NodeId): boolean {
-    return this.nodes.has(id);
+    return this.nodeData.has(id);
   }
 
   /**
@@ -248,56 +795,153 @@ export class Graph<NodeData = any, EdgeData = any> {
    * @param id The ID of the node to update
    * @param data The new data to associate with the node
    * @returns True if the node was updated, false if it doesn't exist
+   * @throws ConstraintViolationError if the new data violates a constraint
    */
   updateNodeData(id: NodeId, data: NodeData): boolean {
-    if (!this.nodes.has(id)) {
+    if (!this.nodeData.has(id)) {
       return false;
     }
 
-    this.nodes.set(id, data);
+    const violation = this.getNodeConstraintViolation(id, this.getNodeLabels(id), data);
+    if (violation) {
+      throw violation;
+    }
+
+    const oldData = this.nodeData.get(id)!;
+    this.nodeData.set(id, data);
+    for (const label of this.nodeLabels.get(id)!) {
+      for (const index of this.propertyIndexes.get(label)?.values() ?? []) {
+        index.add(id, data);
+      }
+      for (const constraint of this.getConstraintIndexes("node", label)) {
+        constraint.add(id, data);
+      }
+    }
+    this.emitChange({ type: "nodeDataUpdated", id, oldData, newData: data });
     return true;
   }
 
   /**
-   * Change the label of a node
+   * Replace all labels of a node
    * @param id The ID of the node to update
-   * @param label The new label to associate with the node
+   * @param label The new label, or an array of labels, to associate with the node
    * @returns True if the node was updated, false if it doesn't exist
+   * @throws Error if no label is given
+   * @throws ConstraintViolationError if the node violates a constraint of a new label
+   */
+  updateNodeLabel(id: NodeId, label: string | string[]): boolean {
+    if (!this.nodeData.has(id)) {
+      return false;
+    }
+
+    const labels = this.toLabelSet(id, label);
+    const violation = this.getNodeConstraintViolation(id, Array.from(labels), this.nodeData.get(id)!);
+    if (violation) {
+      throw violation;
+    }
+    const oldLabels = this.getNodeLabels(id);
+    for (const l of oldLabels) {
+      this.unindexNodeLabel(id, l);
+    }
+    this.nodeLabels.set(id, labels);
+    for (const l of labels) {
+      this.indexNodeLabel(id, l);
+    }
+    this.emitChange({ type: "nodeLabelChanged", id, oldLabels, newLabels: Array.from(labels) });
+    return true;
+  }
+
+  /**
+   * Add a label to a node, keeping its existing labels
+   * @param id The ID of the node to update
+   * @param label The label to add
+   * @returns True if the label was added, false if the node doesn't exist or already has the label
+   * @throws ConstraintViolationError if the node violates a constraint of the label
    */
-  updateNodeLabel(id: NodeId, label: string): boolean {
-    if (!this.nodes.has(id)) {
+  addNodeLabel(id: NodeId, label: string): boolean {
+    const labels = this.nodeLabels.get(id);
+    if (!labels || labels.has(label)) {
       return false;
     }
 
-    this.nodeLabels.set(id, label);
+    const violation = this.getNodeConstraintViolation(id, [label], this.nodeData.get(id)!);
+    if (violation) {
+      throw violation;
+    }
+
+    const oldLabels = Array.from(labels);
+    labels.add(label);
+    this.indexNodeLabel(id, label);
+    this.emitChange({ type: "nodeLabelChanged", id, oldLabels, newLabels: Array.from(labels) });
     return true;
   }
 
   /**
-   * Remove a node and all its connected edges
+   * Remove a label from a node
+   * @param id The ID of the node to update
+   * @param label The label to remove
+   * @returns True if the label was removed, false if the node doesn't exist or doesn't have the label
+   * @throws Error if the label is the only label of the node
+   */
+  removeNodeLabel(id: NodeId, label: string): boolean {
+    const labels = this.nodeLabels.get(id);
+    if (!labels || !labels.has(label)) {
+      return false;
+    }
+
+    if (labels.size === 1) {
+      throw new Error(`Cannot remove label "${label}" from node "${id}": a node must have at least one label`);
+    }
+
+    const oldLabels = Array.from(labels);
+    labels.delete(label);
+    this.unindexNodeLabel(id, label);
+    this.emitChange({ type: "nodeLabelChanged", id, oldLabels, newLabels: Array.from(labels) });
+    return true;
+  }
+
+  /**
+   * Remove a node and all its connected edges.
+   * Subscribers receive an `edgeRemoved` change for each connected edge, followed by `nodeRemoved`.
    * @param id The ID of the node to remove
    * @returns True if the node was removed, false if it doesn't exist
    */
   removeNode(id: NodeId): boolean {
-    if (!this.nodes.has(id)) return false;
+    if (!this.nodeData.has(id)) return false;
+
+    return this.batch(() => {
+      const node = this.getFullNode(id)!;
 
-    if (this.outgoingEdges.has(id)) {
-      for (const targetId of this.outgoingEdges.get(id)!.keys()) {
-        this.incomingEdges.get(targetId)?.delete(id);
+      // Outgoing edges first; a self-loop is listed twice and only removed once
+      for (const edge of Array.from(this.edgesOf(id, "both"))) {
+        this.removeEdgeEntry(edge.source, edge.target, edge.label, edge.id);
       }
       this.outgoingEdges.delete(id);
-    }
+      this.incomingEdges.delete(id);
 
-    if (this.incomingEdges.has(id)) {
-      for (const sourceId of this.incomingEdges.get(id)!.keys()) {
-        this.outgoingEdges.get(sourceId)?.delete(id);
+      for (const label of this.nodeLabels.get(id)!) {
+        this.unindexNodeLabel(id, label);
       }
-      this.incomingEdges.delete(id);
-    }
+      this.nodeData.delete(id);
+      this.nodeLabels.delete(id);
+      this.emitChange({ type: "nodeRemoved", node });
+      return true;
+    });
+  }
 
-    this.nodes.delete(id);
-    this.nodeLabels.delete(id);
-    return true;
+  /**
+   * Iterate over all nodes in insertion order without building an array. Like
+   * iterating a Map, nodes added during the iteration are visited and removed
+   * nodes that haven't been reached yet are skipped.
+   * @returns Iterator over all nodes
+   */
+  *nodes(): IterableIterator<Node<NodeData>> {
+    for (const id of this.nodeData.keys()) {
+      const node = this.getFullNode(id);
+      if (node) {
+        yield node;
+      }
+    }
   }
 
   /**
@@ -305,9 +949,7 @@ export class Graph<NodeData = any, EdgeData = any> {
    * @returns Array of all nodes
    */
   getAllNodes(): Node<NodeData>[] {
-    return Array.from(this.nodes.keys())
-      .map(id => this.getFullNode(id)!)
-      .filter(Boolean);
+    return Array.from(this.nodes());
   }
 
   /**
@@ -317,75 +959,321 @@ export class Graph<NodeData = any, EdgeData = any> {
    */
   findNodes(predicate: (node: Node<NodeData>) => boolean): Node<NodeData>[] {
     const result: Node<NodeData>[] = [];
-    for (const id of this.nodes.keys()) {
-      const node = this.getFullNode(id);
-      if (node && predicate(node)) {
+    for (const node of this.nodes()) {
+      if (predicate(node)) {
         result.push(node);
       }
     }
     return result;
   }
 
+  /**
+   * Get all nodes carrying a label, served from the label index
+   * @param label The label to look up (matched exactly)
+   * @returns Array of nodes with the label
+   */
+  getNodesByLabel(label: string): Node<NodeData>[] {
+    const ids = this.labelIndex.get(label);
+    if (!ids) {
+      return [];
+    }
+    return Array.from(ids, id => this.getFullNode(id)!);
+  }
+
+  /**
+   * Get every label currently in use by at least one node
+   * @returns Array of distinct labels
+   */
+  getLabels(): string[] {
+    return Array.from(this.labelIndex.keys());
+  }
+
+  // Property indexes
+
+  /**
+   * Create a secondary index on a property of the nodes carrying a label.
+   * The index is built from the existing nodes and kept up to date by node mutations.
+   * Changes made to node data in place, without `updateNodeData`, are not tracked.
+   * @param label Label of the nodes to index (matched exactly)
+   * @param property Name of the property to index
+   * @throws Error if the index already exists
+   */
+  createIndex(label: string, property: string): void {
+    let indexes = this.propertyIndexes.get(label);
+    if (indexes?.has(property)) {
+      throw new Error(`Index on :${label}(${property}) already exists`);
+    }
+    if (!indexes) {
+      indexes = new Map();
+      this.propertyIndexes.set(label, indexes);
+    }
+
+    const index = new PropertyIndex(label, property);
+    for (const id of this.labelIndex.get(label) ?? []) {
+      index.add(id, this.nodeData.get(id));
+    }
+    indexes.set(property, index);
+  }
+
+  /**
+   * Remove a secondary property index
+   * @param label Label of the indexed nodes
+   * @param property Name of the indexed property
+   * @returns True if the index was removed, false if it doesn't exist
+   */
+  dropIndex(label: string, property: string): boolean {
+    const indexes = this.propertyIndexes.get(label);
+    if (!indexes || !indexes.delete(property)) {
+      return false;
+    }
+    if (indexes.size === 0) {
+      this.propertyIndexes.delete(label);
+    }
+    return true;
+  }
+
+  /**
+   * Check if a secondary property index exists
+   * @param label Label of the indexed nodes
+   * @param property Name of the indexed property
+   * @returns True if the index exists, false otherwise
+   */
+  hasIndex(label: string, property: string): boolean {
+    return this.propertyIndexes.get(label)?.has(property) ?? false;
+  }
+
+  /**
+   * Get the definitions of all secondary property indexes
+   * @returns Array of label/property pairs
+   */
+  getIndexes(): PropertyIndexDefinition[] {
+    const result: PropertyIndexDefinition[] = [];
+    for (const [label, indexes] of this.propertyIndexes.entries()) {
+      for (const property of indexes.keys()) {
+        result.push({ label, property });
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Find nodes through a secondary property index.
+   * Equality lookups also return nodes whose property is an array containing the value,
+   * range and prefix lookups only consider number and string values of the same type as the bound.
+   * @param label Label of the indexed nodes
+   * @param property Name of the indexed property
+   * @param lookup The equality, range or prefix lookup to perform
+   * @returns Array of nodes found in the index
+   * @throws Error if the index doesn't exist
+   */
+  findNodesByIndex(label: string, property: string, lookup: IndexLookup): Node<NodeData>[] {
+    const index = this.propertyIndexes.get(label)?.get(property);
+    if (!index) {
+      throw new Error(`No index on :${label}(${property})`);
+    }
+    return index.lookup(lookup).map(id => this.getFullNode(id)!);
+  }
+
+  // Constraints
+
+  /**
+   * Register a uniqueness or key constraint.
+   * Node constraints are written `UNIQUE (Person.email)` or `KEY (Document.vault, Document.path)`,
+   * relationship constraints use brackets, e.g. `UNIQUE [PAID.txId]`.
+   * Once registered, mutations that would violate the constraint throw a `ConstraintViolationError`.
+   * @param constraint The constraint text or definition
+   * @returns The registered constraint definition
+   * @throws Error if the constraint is invalid or already exists
+   * @throws ConstraintViolationError if existing nodes or edges violate the constraint
+   */
+  createConstraint(constraint: string | ConstraintDefinition): ConstraintDefinition {
+    const definition = typeof constraint === "string" ? parseConstraint(constraint) : constraint;
+    const text = formatConstraint(definition);
+    if (this.constraints.has(text)) {
+      throw new Error(`Constraint ${text} already exists`);
+    }
+
+    // Build the lookup from the existing entities, failing on the first violation
+    const index = new ConstraintIndex(definition);
+    if (definition.target === "node") {
+      for (const id of this.labelIndex.get(definition.label) ?? []) {
+        const violation = index.check(id, this.nodeData.get(id), key => `node "${key}"`);
+        if (violation) {
+          throw violation;
+        }
+        index.add(id, this.nodeData.get(id));
+      }
+    } else {
+      for (const edge of this.getRelationshipsByType(definition.label)) {
+        const key = this.edgeKey(edge.source, edge.target, edge.id);
+        const violation = index.check(key, edge.data, existing => this.describeEdgeKey(existing, definition.label));
+        if (violation) {
+          throw violation;
+        }
+        index.add(key, edge.data);
+      }
+    }
+
+    this.constraints.set(text, index);
+    return definition;
+  }
+
+  /**
+   * Remove a constraint
+   * @param constraint The constraint text or definition
+   * @returns True if the constraint was removed, false if it doesn't exist
+   */
+  dropConstraint(constraint: string | ConstraintDefinition): boolean {
+    const definition = typeof constraint === "string" ? parseConstraint(constraint) : constraint;
+    return this.constraints.delete(formatConstraint(definition));
+  }
+
+  /**
+   * Get all registered constraints
+   * @returns Array of constraint definitions
+   */
+  getConstraints(): ConstraintDefinition[] {
+    return Array.from(this.constraints.values(), constraint => constraint.definition);
+  }
+
+  /**
+   * Check whether a node with the given labels and data would violate a constraint,
+   * without modifying the graph
+   * @param id ID of the node, or undefined for a node that doesn't exist yet
+   * @param label Label or labels of the node
+   * @param data Data of the node
+   * @returns The first violation found, or undefined if the node satisfies all constraints
+   */
+  getNodeConstraintViolation(
+    id: NodeId | undefined,
+    label: string | string[],
+    data: NodeData
+  ): ConstraintViolationError | undefined {
+    for (const l of Array.isArray(label) ? label : [label]) {
+      for (const constraint of this.getConstraintIndexes("node", l)) {
+        const violation = constraint.check(id, data, key => `node "${key}"`);
+        if (violation) {
+          return violation;
+        }
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Check whether an edge with the given data would violate a constraint,
+   * without modifying the graph
+   * @param source ID of the source node
+   * @param target ID of the target node
+   * @param label Type of the relationship
+   * @param data Data of the edge
+   * @param id ID of the edge, if it has one
+   * @returns The first violation found, or undefined if the edge satisfies all constraints
+   */
+  getEdgeConstraintViolation(
+    source: NodeId,
+    target: NodeId,
+    label: string,
+    data: EdgeData,
+    id?: EdgeId
+  ): ConstraintViolationError | undefined {
+    for (const constraint of this.getConstraintIndexes("relationship", label)) {
+      const violation = constraint.check(
+        this.edgeKey(source, target, id),
+        data,
+        key => this.describeEdgeKey(key, label)
+      );
+      if (violation) {
+        return violation;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Renders an edge key for constraint violation messages.
+   * @private
+   */
+  private describeEdgeKey(key: string, label: string): string {
+    const [source, target, id] = JSON.parse(key) as [NodeId, NodeId, EdgeId?];
+    return `relationship (${source})-[:${label}]->(${target})${id === undefined ? "" : ` with ID "${id}"`}`;
+  }
+
   // Edge operations
 
   /**
-   * Add an edge between two nodes
+   * Add an edge between two nodes. Edges without an ID are unique per source,
+   * target and type; edges with an ID can run in parallel to any other edge.
    * @param source ID of the source node
    * @param target ID of the target node
    * @param label Type or category of the relationship
    * @param data Data to associate with the edge
-   * @throws Error if either node doesn't exist or the edge already exists
+   * @param id Optional stable identifier of the edge, unique within the graph
+   * @throws Error if either node doesn't exist, the edge already exists or the ID is taken
+   * @throws ConstraintViolationError if the edge violates a constraint
    */
-  addEdge(source: NodeId, target: NodeId, label: string, data: EdgeData): void {
+  addEdge(source: NodeId, target: NodeId, label: string, data: EdgeData, id?: EdgeId): void {
     // Verify nodes exist
-    if (!this.nodes.has(source)) {
+    if (!this.nodeData.has(source)) {
       throw new Error(`Source node "${source}" doesn't exist`);
     }
 
-    if (!this.nodes.has(target)) {
+    if (!this.nodeData.has(target)) {
       throw new Error(`Target node "${target}" doesn't exist`);
     }
 
     // Check if edge already exists
-    if (this.hasEdge(source, target, label)) {
+    if (id !== undefined && this.edgeIds.has(id)) {
+      throw new Error(`Edge with ID "${id}" already exists`);
+    }
+    if (id === undefined && this.getEdgeBucket(source, target, label)?.has(undefined)) {
       throw new Error(
         `Edge from "${source}" to "${target}" with label "${label}" already exists`,
       );
     }
 
-    // Add to outgoing edges
+    const violation = this.getEdgeConstraintViolation(source, target, label, data, id);
+    if (violation) {
+      throw violation;
+    }
+
+    // Outgoing and incoming edges share the label map of each node pair
     let sourceOutgoing = this.outgoingEdges.get(source);
     if (!sourceOutgoing) {
       sourceOutgoing = new Map();
       this.outgoingEdges.set(source, sourceOutgoing);
     }
-
-    let sourceTargets = sourceOutgoing.get(target);
-    if (!sourceTargets) {
-      sourceTargets = new Map();
-      sourceOutgoing.set(target, sourceTargets);
-    }
-
-    sourceTargets.set(label, data);
-
-    // Add to incoming edges
     let targetIncoming = this.incomingEdges.get(target);
     if (!targetIncoming) {
       targetIncoming = new Map();
       this.incomingEdges.set(target, targetIncoming);
     }
 
-    let targetSources = targetIncoming.get(source);
-    if (!targetSources) {
-      targetSources = new Map();
-      targetIncoming.set(source, targetSources);
+    let labels = sourceOutgoing.get(target);
+    if (!labels) {
+      labels = new Map();
+      sourceOutgoing.set(target, labels);
+      targetIncoming.set(source, labels);
+    }
+
+    let bucket = labels.get(label);
+    if (!bucket) {
+      bucket = new Map();
+      labels.set(label, bucket);
     }
+    bucket.set(id, data);
 
-    targetSources.set(label, data);
+    if (id !== undefined) {
+      this.edgeIds.set(id, { source, target, label });
+    }
+    this.indexEdge(source, target, label, data, id);
+    this.emitChange({ type: "edgeAdded", edge: this.toEdge(source, target, label, id, data) });
   }
 
   /**
-   * Get an edge by source, target, and label
+   * Get an edge by source, target, and label. If parallel edges have this label,
+   * returns the one without an ID, or else the first one added; use `getEdgeById`
+   * to address a specific one.
    * @param source ID of the source node
    * @param target ID of the target node
    * @param label Type of the relationship
@@ -396,22 +1284,27 @@ export class Graph<NodeData = any, EdgeData = any> {
     target: NodeId,
     label: string,
   ): Edge<EdgeData> | undefined {
-    const sourceOutgoing = this.outgoingEdges.get(source);
-    if (!sourceOutgoing) {
+    const bucket = this.getEdgeBucket(source, target, label);
+    if (!bucket) {
       return undefined;
     }
 
-    const sourceTargets = sourceOutgoing.get(target);
-    if (!sourceTargets) {
-      return undefined;
-    }
+    const id = this.getDefaultEdgeId(bucket);
+    return this.toEdge(source, target, label, id, bucket.get(id)!);
+  }
 
-    const data = sourceTargets.get(label);
-    if (data === undefined) {
+  /**
+   * Get an edge by its ID
+   * @param id ID the edge was added with
+   * @returns The edge object or undefined if not found
+   */
+  getEdgeById(id: EdgeId): Edge<EdgeData> | undefined {
+    const reference = this.edgeIds.get(id);
+    if (!reference) {
       return undefined;
     }
-
-    return { source, target, label, data };
+    const { source, target, label } = reference;
+    return this.toEdge(source, target, label, id, this.getEdgeBucket(source, target, label)!.get(id)!);
   }
 
   /**
@@ -427,25 +1320,27 @@ export class Graph<NodeData = any, EdgeData = any> {
       return false;
     }
 
-    const sourceTargets = sourceOutgoing.get(target);
-    if (!sourceTargets) {
+    const labels = sourceOutgoing.get(target);
+    if (!labels) {
       return false;
     }
 
     if (label === undefined) {
-      return sourceTargets.size > 0;
+      return labels.size > 0;
     }
 
-    return sourceTargets.has(label);
+    return labels.has(label);
   }
 
   /**
-   * Update an edge's data
+   * Update an edge's data. If parallel edges have this label, updates the edge
+   * `getEdge` returns; use `updateEdgeById` to address a specific one.
    * @param source ID of the source node
    * @param target ID of the target node
    * @param label Type of the relationship
    * @param data The new data to associate with the edge
    * @returns True if the edge was updated, false if it doesn't exist
+   * @throws ConstraintViolationError if the new data violates a constraint
    */
   updateEdge(
     source: NodeId,
@@ -453,89 +1348,182 @@ export class Graph<NodeData = any, EdgeData = any> {
     label: string,
     data: EdgeData,
   ): boolean {
-    // Check if edge exists in outgoing edges
-    const sourceOutgoing = this.outgoingEdges.get(source);
-    if (!sourceOutgoing) {
+    const bucket = this.getEdgeBucket(source, target, label);
+    if (!bucket) {
       return false;
     }
+    return this.updateEdgeEntry(source, target, label, this.getDefaultEdgeId(bucket), data);
+  }
 
-    const sourceTargets = sourceOutgoing.get(target);
-    if (!sourceTargets || !sourceTargets.has(label)) {
+  /**
+   * Update the data of an edge by its ID
+   * @param id ID the edge was added with
+   * @param data The new data to associate with the edge
+   * @returns True if the edge was updated, false if it doesn't exist
+   * @throws ConstraintViolationError if the new data violates a constraint
+   */
+  updateEdgeById(id: EdgeId, data: EdgeData): boolean {
+    const reference = this.edgeIds.get(id);
+    if (!reference) {
       return false;
     }
-
-    // Update outgoing edge data
-    sourceTargets.set(label, data);
-
-    // Update incoming edge data
-    const targetIncoming = this.incomingEdges.get(target);
-    if (targetIncoming) {
-      const targetSources = targetIncoming.get(source);
-      if (targetSources) {
-        targetSources.set(label, data);
-      }
-    }
-
-    return true;
+    return this.updateEdgeEntry(reference.source, reference.target, reference.label, id, data);
   }
 
   /**
    * Remove an edge from the graph
    * @param source ID of the source node
    * @param target ID of the target node
-   * @param label Optional label to specify which edge to remove. If not provided, removes all edges between source and target.
+   * @param label Optional label to specify which edge to remove; if parallel edges have
+   *   this label, removes the edge `getEdge` returns. If not provided, removes all edges
+   *   between source and target.
    * @returns True if any edge was removed, false otherwise
    */
   removeEdge(source: NodeId, target: NodeId, label?: string): boolean {
-    // Check if source node has any outgoing edges
-    const sourceOutgoing = this.outgoingEdges.get(source);
-    if (!sourceOutgoing) {
+    const labels = this.outgoingEdges.get(source)?.get(target);
+    if (!labels) {
       return false;
     }
 
-    // Check if there are any edges to the target
-    const sourceTargets = sourceOutgoing.get(target);
-    if (!sourceTargets) {
+    if (label !== undefined) {
+      const bucket = labels.get(label);
+      return bucket !== undefined && this.removeEdgeEntry(source, target, label, this.getDefaultEdgeId(bucket));
+    }
+
+    // Remove all edges between source and target
+    const removals = Array.from(labels.entries(), ([edgeLabel, bucket]) =>
+      Array.from(bucket.keys(), id => [edgeLabel, id] as const)
+    ).flat();
+    this.batch(() => {
+      for (const [edgeLabel, id] of removals) {
+        this.removeEdgeEntry(source, target, edgeLabel, id);
+      }
+    });
+    return removals.length > 0;
+  }
+
+  /**
+   * Remove an edge by its ID
+   * @param id ID the edge was added with
+   * @returns True if the edge was removed, false if it doesn't exist
+   */
+  removeEdgeById(id: EdgeId): boolean {
+    const reference = this.edgeIds.get(id);
+    if (!reference) {
       return false;
     }
+    return this.removeEdgeEntry(reference.source, reference.target, reference.label, id);
+  }
 
-    let removed = false;
+  /**
+   * Returns the edges of one type between two nodes, keyed by edge ID.
+   * @private
+   */
+  private getEdgeBucket(source: NodeId, target: NodeId, label: string): Map<EdgeId | undefined, EdgeData> | undefined {
+    return this.outgoingEdges.get(source)?.get(target)?.get(label);
+  }
 
-    if (label === undefined) {
-      // Remove all edges between source and target
-      removed = sourceTargets.size > 0;
-      sourceOutgoing.delete(target);
+  /**
+   * Returns the ID of the edge addressed by source, target and label: the edge
+   * without an ID if there is one, else the first one added.
+   * @private
+   */
+  private getDefaultEdgeId(bucket: Map<EdgeId | undefined, EdgeData>): EdgeId | undefined {
+    return bucket.has(undefined) ? undefined : bucket.keys().next().value;
+  }
 
-      // Also remove from incoming edges
-      const targetIncoming = this.incomingEdges.get(target);
-      if (targetIncoming) {
-        targetIncoming.delete(source);
-      }
-    } else {
-      // Remove specific edge
-      removed = sourceTargets.delete(label);
+  /**
+   * Builds an edge object, with an `id` only for edges that have one.
+   * @private
+   */
+  private toEdge(source: NodeId, target: NodeId, label: string, id: EdgeId | undefined, data: EdgeData): Edge<EdgeData> {
+    return id === undefined ? { source, target, label, data } : { id, source, target, label, data };
+  }
 
-      // If no more edges to target, clean up
-      if (sourceTargets.size === 0) {
-        sourceOutgoing.delete(target);
-      }
+  /**
+   * Replaces the data of one edge.
+   * @private
+   */
+  private updateEdgeEntry(
+    source: NodeId,
+    target: NodeId,
+    label: string,
+    id: EdgeId | undefined,
+    data: EdgeData
+  ): boolean {
+    const bucket = this.getEdgeBucket(source, target, label);
+    if (!bucket || !bucket.has(id)) {
+      return false;
+    }
+
+    const violation = this.getEdgeConstraintViolation(source, target, label, data, id);
+    if (violation) {
+      throw violation;
+    }
+
+    const oldData = bucket.get(id)!;
+    bucket.set(id, data);
+
+    for (const constraint of this.getConstraintIndexes("relationship", label)) {
+      constraint.add(this.edgeKey(source, target, id), data);
+    }
+
+    this.emitChange({
+      type: "edgeUpdated",
+      ...(id === undefined ? {} : { id }),
+      source,
+      target,
+      label,
+      oldData,
+      newData: data
+    });
+    return true;
+  }
+
+  /**
+   * Removes one edge, dropping the maps of its type and node pair once they are empty.
+   * @private
+   */
+  private removeEdgeEntry(source: NodeId, target: NodeId, label: string, id: EdgeId | undefined): boolean {
+    const labels = this.outgoingEdges.get(source)?.get(target);
+    const bucket = labels?.get(label);
+    if (!labels || !bucket || !bucket.has(id)) {
+      return false;
+    }
+
+    const data = bucket.get(id)!;
+    bucket.delete(id);
+    if (bucket.size === 0) {
+      labels.delete(label);
+    }
+    if (labels.size === 0) {
+      this.outgoingEdges.get(source)!.delete(target);
+      this.incomingEdges.get(target)?.delete(source);
+    }
+    if (id !== undefined) {
+      this.edgeIds.delete(id);
+    }
 
-      // Also remove from incoming edges
-      const targetIncoming = this.incomingEdges.get(target);
-      if (targetIncoming) {
-        const targetSources = targetIncoming.get(source);
-        if (targetSources) {
-          targetSources.delete(label);
+    this.unindexEdge(source, target, label, id);
+    this.emitChange({ type: "edgeRemoved", edge: this.toEdge(source, target, label, id, data) });
+    return true;
+  }
 
-          // If no more edges from source, clean up
-          if (targetSources.size === 0) {
-            targetIncoming.delete(source);
+  /**
+   * Iterate over all edges, grouped by source node, without building an array.
+   * Changes made during the iteration behave as for `nodes()`.
+   * @returns Iterator over all edges
+   */
+  *edges(): IterableIterator<Edge<EdgeData>> {
+    for (const [source, targets] of this.outgoingEdges.entries()) {
+      for (const [target, labels] of targets.entries()) {
+        for (const [label, bucket] of labels.entries()) {
+          for (const [id, data] of bucket.entries()) {
+            yield this.toEdge(source, target, label, id, data);
           }
         }
       }
     }
-
-    return removed;
   }
 
   /**
@@ -543,19 +1531,39 @@ export class Graph<NodeData = any, EdgeData = any> {
    * @returns Array of all edges
    */
   getAllEdges(): Edge<EdgeData>[] {
-    const result: Edge<EdgeData>[] = [];
+    return Array.from(this.edges());
+  }
 
-    for (const [source, targets] of this.outgoingEdges.entries()) {
-      for (const [target, labels] of targets.entries()) {
-        for (const [label, data] of labels.entries()) {
-          result.push({ source, target, label, data });
+  /**
+   * Get all edges of a relationship type, served from the type index
+   * @param type The relationship type to look up (matched exactly)
+   * @returns Array of edges with the type
+   */
+  getRelationshipsByType(type: string): Edge<EdgeData>[] {
+    const sources = this.typeIndex.get(type);
+    if (!sources) {
+      return [];
+    }
+
+    const result: Edge<EdgeData>[] = [];
+    for (const [source, targets] of sources.entries()) {
+      for (const target of targets) {
+        for (const [id, data] of this.getEdgeBucket(source, target, type)!.entries()) {
+          result.push(this.toEdge(source, target, type, id, data));
         }
       }
     }
-
     return result;
   }
 
+  /**
+   * Get every relationship type currently in use by at least one edge
+   * @returns Array of distinct relationship types
+   */
+  getRelationshipTypes(): string[] {
+    return Array.from(this.typeIndex.keys());
+  }
+
   /**
    * Find edges that match a predicate
    * @param predicate Function that tests each edge
@@ -563,23 +1571,34 @@ export class Graph<NodeData = any, EdgeData = any> {
    */
   findEdges(predicate: (edge: Edge<EdgeData>) => boolean): Edge<EdgeData>[] {
     const result: Edge<EdgeData>[] = [];
-
-    for (const [source, targets] of this.outgoingEdges.entries()) {
-      for (const [target, labels] of targets.entries()) {
-        for (const [label, data] of labels.entries()) {
-          const edge: Edge<EdgeData> = { source, target, label, data };
-          if (predicate(edge)) {
-            result.push(edge);
-          }
-        }
+    for (const edge of this.edges()) {
+      if (predicate(edge)) {
+        result.push(edge);
       }
     }
-
     return result;
   }
 
   // Traversal operations
 
+  /**
+   * Iterate over the distinct neighbor nodes of a node without building an array
+   * @param id The ID of the node
+   * @param direction Which edges to follow: outgoing, incoming, or both
+   * @returns Iterator over the neighbor nodes, reached over outgoing edges first
+   */
+  *neighborsOf(
+    id: NodeId,
+    direction: EdgeDirection = "both",
+  ): IterableIterator<Node<NodeData>> {
+    for (const neighborId of this.adjacentIds(id, direction, [])) {
+      const node = this.getFullNode(neighborId);
+      if (node) {
+        yield node;
+      }
+    }
+  }
+
   /**
    * Get all neighbor nodes of a node
    * @param id The ID of the node
@@ -590,42 +1609,38 @@ export class Graph<NodeData = any, EdgeData = any> {
     id: NodeId,
     direction: EdgeDirection = "both",
   ): Node<NodeData>[] {
-    const result: Node<NodeData>[] = [];
-    const visited = new Set<NodeId>();
+    return Array.from(this.neighborsOf(id, direction));
+  }
 
-    // Get outgoing neighbors
+  /**
+   * Iterate over the edges connected to a node without building an array
+   * @param id The ID of the node
+   * @param direction Which edges to include: outgoing, incoming, or both
+   * @returns Iterator over the connected edges, outgoing edges first
+   */
+  *edgesOf(
+    id: NodeId,
+    direction: EdgeDirection = "both",
+  ): IterableIterator<Edge<EdgeData>> {
     if (direction === "outgoing" || direction === "both") {
-      const targets = this.outgoingEdges.get(id);
-      if (targets) {
-        for (const targetId of targets.keys()) {
-          if (!visited.has(targetId)) {
-            visited.add(targetId);
-            const node = this.getNode(targetId);
-            if (node) {
-              result.push(node);
-            }
+      for (const [targetId, labels] of this.outgoingEdges.get(id) ?? []) {
+        for (const [label, bucket] of labels.entries()) {
+          for (const [edgeId, data] of bucket.entries()) {
+            yield this.toEdge(id, targetId, label, edgeId, data);
           }
         }
       }
     }
 
-    // Get incoming neighbors
     if (direction === "incoming" || direction === "both") {
-      const sources = this.incomingEdges.get(id);
-      if (sources) {
-        for (const sourceId of sources.keys()) {
-          if (!visited.has(sourceId)) {
-            visited.add(sourceId);
-            const node = this.getNode(sourceId);
-            if (node) {
-              result.push(node);
-            }
+      for (const [sourceId, labels] of this.incomingEdges.get(id) ?? []) {
+        for (const [label, bucket] of labels.entries()) {
+          for (const [edgeId, data] of bucket.entries()) {
+            yield this.toEdge(sourceId, id, label, edgeId, data);
           }
         }
       }
     }
-
-    return result;
   }
 
   /**
@@ -638,33 +1653,7 @@ export class Graph<NodeData = any, EdgeData = any> {
     id: NodeId,
     direction: EdgeDirection = "both",
   ): Edge<EdgeData>[] {
-    const result: Edge<EdgeData>[] = [];
-
-    // Get outgoing edges
-    if (direction === "outgoing" || direction === "both") {
-      const targets = this.outgoingEdges.get(id);
-      if (targets) {
-        for (const [targetId, labels] of targets.entries()) {
-          for (const [label, data] of labels.entries()) {
-            result.push({ source: id, target: targetId, label, data });
-          }
-        }
-      }
-    }
-
-    // Get incoming edges
-    if (direction === "incoming" || direction === "both") {
-      const sources = this.incomingEdges.get(id);
-      if (sources) {
-        for (const [sourceId, labels] of sources.entries()) {
-          for (const [label, data] of labels.entries()) {
-            result.push({ source: sourceId, target: id, label, data });
-          }
-        }
-      }
-    }
-
-    return result;
+    return Array.from(this.edgesOf(id, direction));
   }
 
   /**
@@ -685,19 +1674,22 @@ export class Graph<NodeData = any, EdgeData = any> {
       return [];
     }
 
-    // Use breadth-first search to find paths
-    const queue: { path: NodeId[]; visited: Set<NodeId> }[] = [
-      { path: [start], visited: new Set([start]) },
-    ];
+    if (options.algorithm === "bidirectional") {
+      return this.findPathsBidirectional(start, end, maxDepth, relationshipTypes, direction);
+    }
+
+    // Use breadth-first search to find paths. Paths are short, so checking them
+    // for a neighbor is cheaper than keeping a visited set per path.
+    const queue: NodeId[][] = [[start]];
     const result: NodeId[][] = [];
 
     while (queue.length > 0) {
-      const { path, visited } = queue.shift()!;
+      const path = queue.shift()!;
       const currentNode = path[path.length - 1];
 
       // Check if we've reached the target
       if (currentNode === end && path.length > 1) {
-        result.push([...path]);
+        result.push(path);
         continue;
       }
 
@@ -706,88 +1698,371 @@ export class Graph<NodeData = any, EdgeData = any> {
         continue;
       }
 
-      // Get neighbors based on direction
-      let neighbors: Map<NodeId, Map<string, EdgeData>> | undefined;
+      // Explore neighbors that aren't on the path yet
+      for (const neighborId of this.adjacentIds(currentNode, direction, relationshipTypes)) {
+        if (!path.includes(neighborId)) {
+          queue.push([...path, neighborId]);
+        }
+      }
+    }
+
+    return result;
+  }
 
-      if (direction === "outgoing") {
-        neighbors = this.outgoingEdges.get(currentNode);
-      } else if (direction === "incoming") {
-        neighbors = this.incomingEdges.get(currentNode);
-      } else {
-        // For 'both', we need to combine outgoing and incoming
-        neighbors = new Map();
+  /**
+   * Bidirectional variant of findPaths. A path of L hops is split after its first
+   * ceil(L/2) hops: prefixes are expanded forward from the start node along
+   * `outgoingEdges` (for the outgoing direction) and suffixes backward from the
+   * end node along `incomingEdges`, and every prefix/suffix pair meeting at the
+   * same node without sharing any other node forms a path. Paths are returned
+   * shortest first, like the BFS variant; the order among paths of the same
+   * length may differ.
+   * @private
+   */
+  private findPathsBidirectional(
+    start: NodeId,
+    end: NodeId,
+    maxDepth: number,
+    relationshipTypes: string[],
+    direction: EdgeDirection
+  ): NodeId[][] {
+    if (start === end) {
+      return [];
+    }
 
-        const outgoing = this.outgoingEdges.get(currentNode);
-        if (outgoing) {
-          for (const [targetId, labels] of outgoing.entries()) {
-            neighbors.set(targetId, new Map(labels));
+    // No simple path has more hops than there are other nodes
+    const depth = Math.min(maxDepth, this.nodeData.size - 1);
+    const backwardDirection: EdgeDirection =
+      direction === "outgoing" ? "incoming" : direction === "incoming" ? "outgoing" : "both";
+
+    // forward[h]: simple paths of h hops from start that only touch end as their last node
+    const forward: NodeId[][][] = [[[start]]];
+    for (let h = 1; h <= Math.ceil(depth / 2); h++) {
+      const level: NodeId[][] = [];
+      for (const path of forward[h - 1]) {
+        const last = path[path.length - 1];
+        if (last === end) {
+          continue;
+        }
+        for (const neighbor of this.adjacentIds(last, direction, relationshipTypes)) {
+          if (!path.includes(neighbor)) {
+            level.push([...path, neighbor]);
           }
         }
+      }
+      forward.push(level);
+    }
 
-        const incoming = this.incomingEdges.get(currentNode);
-        if (incoming) {
-          for (const [sourceId, labels] of incoming.entries()) {
-            if (!neighbors.has(sourceId)) {
-              neighbors.set(sourceId, new Map());
+    // backward[k]: simple paths of k hops into end that avoid start, grouped by
+    // their first node and stored in traversal order
+    const backward: Map<NodeId, NodeId[][]>[] = [new Map([[end, [[end]]]])];
+    for (let k = 1; k <= Math.floor(depth / 2); k++) {
+      const level = new Map<NodeId, NodeId[][]>();
+      for (const paths of backward[k - 1].values()) {
+        for (const path of paths) {
+          for (const neighbor of this.adjacentIds(path[0], backwardDirection, relationshipTypes)) {
+            if (neighbor === start || path.includes(neighbor)) {
+              continue;
             }
-
-            const targetLabels = neighbors.get(sourceId)!;
-            for (const [label, data] of labels.entries()) {
-              targetLabels.set(label, data);
+            let group = level.get(neighbor);
+            if (!group) {
+              group = [];
+              level.set(neighbor, group);
             }
+            group.push([neighbor, ...path]);
           }
         }
       }
+      backward.push(level);
+    }
 
-      if (!neighbors) {
-        continue;
+    // Join the halves, shortest paths first
+    const result: NodeId[][] = [];
+    for (let length = 1; length <= depth; length++) {
+      const h = Math.ceil(length / 2);
+      const suffixes = backward[length - h];
+      for (const prefix of forward[h] ?? []) {
+        const meeting = prefix[prefix.length - 1];
+        const prefixNodes = new Set(prefix);
+        for (const suffix of suffixes?.get(meeting) ?? []) {
+          if (suffix.every((id, i) => i === 0 || !prefixNodes.has(id))) {
+            result.push([...prefix, ...suffix.slice(1)]);
+          }
+        }
       }
+    }
+    return result;
+  }
 
-      // Explore neighbors
-      for (const [neighborId, labels] of neighbors.entries()) {
-        // Skip if already visited
-        if (visited.has(neighborId)) {
-          continue;
+  /**
+   * Iterate over the distinct nodes reachable from a node over one edge in the
+   * given direction, optionally only over edges of the given types
+   * @private
+   */
+  private *adjacentIds(id: NodeId, direction: EdgeDirection, relationshipTypes: string[]): IterableIterator<NodeId> {
+    const matches = (labels: Map<string, unknown>) =>
+      relationshipTypes.length === 0 || relationshipTypes.some(type => labels.has(type));
+    const outgoing = direction === "outgoing" || direction === "both" ? this.outgoingEdges.get(id) : undefined;
+
+    for (const [neighborId, labels] of outgoing ?? []) {
+      if (matches(labels)) {
+        yield neighborId;
+      }
+    }
+    if (direction === "incoming" || direction === "both") {
+      for (const [neighborId, labels] of this.incomingEdges.get(id) ?? []) {
+        // Skip neighbors already reached over a matching outgoing edge
+        if (matches(labels) && !(outgoing?.has(neighborId) && matches(outgoing.get(neighborId)!))) {
+          yield neighborId;
         }
+      }
+    }
+  }
 
-        // Check relationship types
-        if (relationshipTypes.length > 0) {
-          let hasMatchingRelation = false;
+  /**
+   * Find the cheapest path between two nodes using Dijkstra's algorithm
+   * @param start ID of the start node
+   * @param end ID of the end node
+   * @param options Edge weight (a function or the name of a numeric edge property;
+   *   every edge costs 1 by default), direction and relationship types
+   * @returns The path with its nodes, edges and total cost, or undefined if there is none
+   * @throws Error if a traversed edge has a negative or non-numeric weight
+   */
+  shortestPath(
+    start: NodeId,
+    end: NodeId,
+    options: WeightedPathOptions<EdgeData> = {}
+  ): WeightedPath<NodeData, EdgeData> | undefined {
+    return findShortestPath(this, start, end, options);
+  }
 
-          for (const label of labels.keys()) {
-            if (relationshipTypes.includes(label)) {
-              hasMatchingRelation = true;
-              break;
-            }
-          }
+  /**
+   * Compute the cost of the cheapest path from a node to every node reachable from it
+   * @param start ID of the start node
+   * @param options Edge weight, direction and relationship types, as for shortestPath
+   * @returns Map of reachable node ID -> cost, including the start node with cost 0
+   * @throws Error if a traversed edge has a negative or non-numeric weight
+   */
+  shortestPathDistances(start: NodeId, options: WeightedPathOptions<EdgeData> = {}): Map<NodeId, number> {
+    return findShortestPathDistances(this, start, options);
+  }
+
+  /**
+   * Find every cheapest path between two nodes. Unlike findPaths, this doesn't enumerate
+   * all simple paths, and each path records which edge was taken between two nodes.
+   * @param start ID of the start node
+   * @param end ID of the end node
+   * @param options Edge weight, direction and relationship types, as for shortestPath
+   * @returns All paths of minimal cost, empty if there is none
+   * @throws Error if a traversed edge has a negative or non-numeric weight
+   */
+  allShortestPaths(
+    start: NodeId,
+    end: NodeId,
+    options: WeightedPathOptions<EdgeData> = {}
+  ): WeightedPath<NodeData, EdgeData>[] {
+    return findAllShortestPaths(this, start, end, options);
+  }
+
+  /**
+   * Find the k cheapest simple paths between two nodes using Yen's algorithm
+   * @param start ID of the start node
+   * @param end ID of the end node
+   * @param k Maximum number of paths to return
+   * @param options Edge weight, direction and relationship types, as for shortestPath
+   * @returns Up to k paths in order of increasing cost
+   * @throws Error if a traversed edge has a negative or non-numeric weight
+   */
+  kShortestPaths(
+    start: NodeId,
+    end: NodeId,
+    k: number,
+    options: WeightedPathOptions<EdgeData> = {}
+  ): WeightedPath<NodeData, EdgeData>[] {
+    return findKShortestPaths(this, start, end, k, options);
+  }
 
-          if (!hasMatchingRelation) {
-            continue;
+  /**
+   * Find the cheapest path between two nodes using A* search. The heuristic estimates
+   * the remaining cost from a node to the goal and steers the search towards it;
+   * the path is the cheapest one as long as the heuristic never overestimates.
+   * @param start ID of the start node
+   * @param end ID of the goal node
+   * @param options Heuristic, plus edge weight, direction and relationship types as for shortestPath
+   * @returns The path with its cost (undefined if there is none) and the number of expanded nodes
+   * @throws Error if an edge weight or heuristic value is negative or not a number
+   */
+  aStar(start: NodeId, end: NodeId, options: AStarOptions<NodeData, EdgeData>): AStarResult<NodeData, EdgeData> {
+    return findPathAStar(this, start, end, options);
+  }
+
+  /**
+   * Order all nodes so that every considered edge leads from an earlier node to a
+   * later one, e.g. tasks after the tasks they depend on
+   * @param options Relationship types to consider and which end of an edge comes first
+   * @returns All nodes in topological order
+   * @throws CycleDetectedError if the considered edges form a cycle; the error's `cycle` holds one
+   */
+  topologicalSort(options: TopologicalSortOptions = {}): Node<NodeData>[] {
+    return findTopologicalOrder(this, options);
+  }
+
+  /**
+   * Find the elementary cycles of the graph, i.e. cycles that don't visit a node twice
+   * @param options Relationship types to consider and the maximum number of cycles
+   * @returns The cycles, as paths whose first and last node are the same
+   */
+  findCycles(options: FindCyclesOptions = {}): Path<NodeData, EdgeData>[] {
+    return findElementaryCycles(this, options);
+  }
+
+  /**
+   * Find the weakly connected components: groups of nodes connected when edge direction is ignored
+   * @param options Relationship types to follow
+   * @returns The component number of every node and the size of every component
+   */
+  weaklyConnectedComponents(options: ComponentOptions = {}): ComponentResult {
+    return findWeaklyConnectedComponents(this, options);
+  }
+
+  /**
+   * Find the strongly connected components: the largest groups of nodes in which every
+   * node can reach every other node along edge direction
+   * @param options Relationship types to follow and the algorithm (Tarjan or Kosaraju)
+   * @returns The component number of every node and the size of every component
+   */
+  stronglyConnectedComponents(options: StronglyConnectedComponentOptions = {}): ComponentResult {
+    return findStronglyConnectedComponents(this, options);
+  }
+
+  // Subgraphs
+
+  /**
+   * Create a new graph with the given nodes and all edges between them.
+   * The new graph has no indexes, constraints or subscribers.
+   * @param nodeIds IDs of the nodes to include; IDs of missing nodes are ignored
+   * @param options Whether to copy or share node and edge data
+   * @returns The subgraph, with nodes and edges in the order of this graph
+   */
+  inducedSubgraph(nodeIds: Iterable<NodeId>, options: SubgraphOptions = {}): Graph<NodeData, EdgeData> {
+    const ids = new Set(nodeIds);
+    return this.buildSubgraph(node => ids.has(node.id), () => true, options);
+  }
+
+  /**
+   * Create a new graph with the nodes within a number of hops of a node, and the
+   * edges between them
+   * @param nodeId ID of the center node
+   * @param options Hops, direction, relationship types and whether to copy data
+   * @returns The ego network, or undefined if the center node doesn't exist
+   */
+  egoNetwork(nodeId: NodeId, options: EgoNetworkOptions = {}): Graph<NodeData, EdgeData> | undefined {
+    if (!this.hasNode(nodeId)) {
+      return undefined;
+    }
+
+    const hops = options.hops ?? 1;
+    const direction = options.direction ?? "both";
+    const relationshipTypes = options.relationshipTypes ?? [];
+    const isFollowed = (edge: Edge<EdgeData>) =>
+      relationshipTypes.length === 0 || relationshipTypes.includes(edge.label);
+
+    const reached = new Set<NodeId>([nodeId]);
+    let frontier = [nodeId];
+    for (let hop = 0; hop < hops && frontier.length > 0; hop++) {
+      const next: NodeId[] = [];
+      for (const id of frontier) {
+        for (const edge of this.getEdgesForNode(id, direction)) {
+          const neighbor = edge.source === id ? edge.target : edge.source;
+          if (isFollowed(edge) && !reached.has(neighbor)) {
+            reached.add(neighbor);
+            next.push(neighbor);
           }
         }
+      }
+      frontier = next;
+    }
+
+    return this.buildSubgraph(node => reached.has(node.id), isFollowed, options);
+  }
 
-        // Add to queue
-        const newPath = [...path, neighborId];
-        const newVisited = new Set(visited);
-        newVisited.add(neighborId);
+  /**
+   * Create a new graph with the nodes and edges that pass the predicates.
+   * Edges are only kept if both their nodes are kept.
+   * @param nodePredicate Function that returns true for nodes to keep
+   * @param edgePredicate Function that returns true for edges to keep (default: all edges)
+   * @param options Whether to copy or share node and edge data
+   * @returns The filtered graph, with nodes and edges in the order of this graph
+   */
+  filter(
+    nodePredicate: (node: Node<NodeData>) => boolean,
+    edgePredicate: (edge: Edge<EdgeData>) => boolean = () => true,
+    options: SubgraphOptions = {}
+  ): Graph<NodeData, EdgeData> {
+    return this.buildSubgraph(nodePredicate, edgePredicate, options);
+  }
 
-        queue.push({ path: newPath, visited: newVisited });
+  /**
+   * Copy the nodes and edges that pass the predicates into a new graph
+   * @private
+   */
+  private buildSubgraph(
+    nodePredicate: (node: Node<NodeData>) => boolean,
+    edgePredicate: (edge: Edge<EdgeData>) => boolean,
+    options: SubgraphOptions
+  ): Graph<NodeData, EdgeData> {
+    const copyData = options.copyData ?? true;
+    const copy = <T>(data: T): T => copyData ? structuredClone(data) : data;
+    const subgraph = new Graph<NodeData, EdgeData>();
+
+    for (const node of this.getAllNodes()) {
+      if (nodePredicate(node)) {
+        subgraph.addNode(node.id, node.labels, copy(node.data));
+      }
+    }
+    for (const edge of this.getAllEdges()) {
+      if (subgraph.hasNode(edge.source) && subgraph.hasNode(edge.target) && edgePredicate(edge)) {
+        subgraph.addEdge(edge.source, edge.target, edge.label, copy(edge.data), edge.id);
       }
     }
 
-    return result;
+    return subgraph;
   }
 
   // Graph-wide operations
 
   /**
    * Clear all nodes and edges from the graph.
+   * Index and constraint definitions are kept. Subscribers receive an `edgeRemoved`
+   * change for every edge and a `nodeRemoved` change for every node.
    */
   clear(): void {
-    this.nodes.clear();
+    if (this.changeListeners.size > 0 || this.pendingChanges || this.transactions.length > 0) {
+      this.batch(() => {
+        for (const edge of this.getAllEdges()) {
+          this.emitChange({ type: "edgeRemoved", edge });
+        }
+        for (const node of this.getAllNodes()) {
+          this.emitChange({ type: "nodeRemoved", node });
+        }
+      });
+    }
+
+    this.nodeData.clear();
     this.nodeLabels.clear();
     this.outgoingEdges.clear();
     this.incomingEdges.clear();
+    this.edgeIds.clear();
+    this.labelIndex.clear();
+    this.typeIndex.clear();
+    for (const indexes of this.propertyIndexes.values()) {
+      for (const index of indexes.values()) {
+        index.clear();
+      }
+    }
+    for (const constraint of this.constraints.values()) {
+      constraint.clear();
+    }
   }
 
 
@@ -796,23 +2071,57 @@ export class Graph<NodeData = any, EdgeData = any> {
    * @returns An object with nodes and edges that can be serialized
    */
   toJSON(): GraphData<NodeData, EdgeData> {
-    const nodes = this.getAllNodes().map(({ id, label, data }) => ({ id, label, data }));
-    const edges = this.getAllEdges().map(({ source, target, label, data }) => ({ source, target, label, data }));
+    const nodes = this.getAllNodes().map(({ id, label, labels, data }) =>
+      labels.length > 1 ? { id, label, labels, data } : { id, label, data }
+    );
+    const edges = this.getAllEdges().map(({ id, source, target, label, data }) =>
+      id === undefined ? { source, target, label, data } : { id, source, target, label, data }
+    );
     return { nodes, edges };
   }
 
   /**
-   * Load the graph from a serialized object
+   * Load the graph from a serialized object.
+   * Subscribers receive the removal of the previous contents and the additions as one change set.
    * @param data The serialized graph data
    */
   fromJSON(data: GraphData<NodeData, EdgeData>): void {
-    this.clear();
-    for (const { id, label, data: nodeData } of data.nodes) {
-      this.addNode(id, label, nodeData);
-    }
-    for (const { source, target, label, data: edgeData } of data.edges) {
-      this.addEdge(source, target, label, edgeData);
-    }
+    this.batch(() => {
+      this.clear();
+      for (const { id, label, labels, data: nodeData } of data.nodes) {
+        this.addNode(id, labels ?? label, nodeData);
+      }
+      for (const { id, source, target, label, data: edgeData } of data.edges) {
+        this.addEdge(source, target, label, edgeData, id);
+      }
+    });
+  }
+
+
+  /**
+   * Merge the nodes and edges of another graph into this one. Elements that exist in
+   * both graphs with different contents are resolved with the conflict strategies.
+   * Subscribers receive all changes as one change set, and nothing is kept if a change fails.
+   * @param other The graph to merge from; it isn't changed
+   * @param options Conflict strategies (default: keep existing) and whether to copy incoming data
+   * @returns What was added, updated and in conflict
+   * @throws ConstraintViolationError if a merged element violates a constraint
+   */
+  merge(other: Graph<NodeData, EdgeData>, options: MergeOptions<NodeData, EdgeData> = {}): MergeReport {
+    return mergeGraphs(this, other, options);
+  }
+
+  /**
+   * Apply a patch computed by `diffGraphs`. Subscribers receive all changes as one
+   * change set, and nothing is kept if a change fails.
+   * @param patch The patch to apply
+   * @param options Whether the graph must be in the state the patch expects (default: strict)
+   * @returns Descriptions of the conflicts that were worked around (always empty in strict mode)
+   * @throws PatchConflictError in strict mode if the graph isn't in the state the patch expects
+   * @throws ConstraintViolationError if a change violates a constraint
+   */
+  applyPatch(patch: GraphPatch<NodeData, EdgeData>, options: ApplyPatchOptions = {}): string[] {
+    return applyGraphPatch(this, patch, options);
   }
 
 
@@ -888,11 +2197,8 @@ export class Graph<NodeData = any, EdgeData = any> {
         continue;
       }
 
-      // Get edges for this node
-      const edges = this.getEdgesForNode(node.id, direction);
-
-      // Process each edge
-      for (const edge of edges) {
+      // Process each edge of this node, without materializing them all
+      for (const edge of this.edgesOf(node.id, direction)) {
         // Determine the other node (target or source depending on direction)
         const isOutgoing = edge.source === node.id;
         const otherNodeId = isOutgoing ? edge.target : edge.source;
@@ -951,6 +2257,147 @@ export class Graph<NodeData = any, EdgeData = any> {
     }
   }
 
+  /**
+   * Perform a depth-first traversal of the graph starting from a node.
+   *
+   * The traversal keeps its own stack instead of recursing, so arbitrarily deep
+   * graphs can be traversed. Edges are followed in the order `getEdgesForNode`
+   * returns them. With direction "both", every edge is classified once, from
+   * whichever end reaches it first.
+   * @param startNodeId ID of the node to start traversal from
+   * @param visitor Visitor that handles traversal events
+   * @param options Configuration for the traversal
+   */
+  traverseDFS(
+    startNodeId: NodeId,
+    visitor: DFSVisitor<NodeData, EdgeData>,
+    options: DFSOptions = {}
+  ): void {
+    const maxDepth = options.maxDepth ?? Number.MAX_SAFE_INTEGER;
+    const direction = options.direction || "outgoing";
+    const trackPaths = options.trackPaths || false;
+
+    const startNode = this.getNode(startNodeId);
+    if (!startNode) {
+      return; // Start node doesn't exist
+    }
+
+    if (visitor.start) {
+      visitor.start(startNode);
+    }
+
+    // Discovery order of every discovered node; nodes on the stack are
+    // "active", all other discovered nodes are finished
+    const discovered = new Map<NodeId, number>();
+    const active = new Set<NodeId>();
+    // Keys of the edges already classified, so that with direction "both" an
+    // edge isn't reported again from its other end
+    const classified = new Set<string>();
+
+    const stack: Array<{
+      node: Node<NodeData>;
+      depth: number;
+      path?: Path<NodeData, EdgeData>;
+      edges: Edge<EdgeData>[];
+      next: number;
+    }> = [];
+
+    // Discover a node and push it on the stack, unless the visitor skips it
+    const enter = (
+      node: Node<NodeData>,
+      depth: number,
+      path?: Path<NodeData, EdgeData>
+    ): void => {
+      discovered.set(node.id, discovered.size);
+      if (visitor.discoverNode && visitor.discoverNode(node, depth, path) === false) {
+        return;
+      }
+      if (visitor.preOrder) {
+        visitor.preOrder(node, depth, path);
+      }
+      active.add(node.id);
+      stack.push({
+        node,
+        depth,
+        path,
+        edges: depth < maxDepth ? this.getEdgesForNode(node.id, direction) : [],
+        next: 0
+      });
+    };
+
+    enter(startNode, 0, trackPaths ? { nodes: [startNode], edges: [] } : undefined);
+
+    while (stack.length > 0) {
+      const frame = stack[stack.length - 1];
+
+      if (frame.next >= frame.edges.length) {
+        // All edges examined: leave the node
+        stack.pop();
+        active.delete(frame.node.id);
+        if (visitor.postOrder) {
+          visitor.postOrder(frame.node, frame.depth, frame.path);
+        }
+        if (visitor.finishNode) {
+          visitor.finishNode(frame.node, frame.depth);
+        }
+        continue;
+      }
+
+      const edge = frame.edges[frame.next++];
+      const key = JSON.stringify([edge.source, edge.target, edge.label, edge.id]);
+      if (classified.has(key)) {
+        continue;
+      }
+
+      const { node, depth } = frame;
+      const isOutgoing = edge.source === node.id;
+      const otherNode = this.getNode(isOutgoing ? edge.target : edge.source);
+      if (!otherNode) {
+        continue; // Skip if other node doesn't exist
+      }
+      const sourceNode = isOutgoing ? node : otherNode;
+      const targetNode = isOutgoing ? otherNode : node;
+
+      const otherOrder = discovered.get(otherNode.id);
+      if (otherOrder === undefined) {
+        if (visitor.examineEdge && visitor.examineEdge(edge, sourceNode, targetNode, depth) === false) {
+          continue;
+        }
+        classified.add(key);
+        if (visitor.treeEdge) {
+          visitor.treeEdge(edge, sourceNode, targetNode, depth);
+        }
+
+        let newPath: Path<NodeData, EdgeData> | undefined;
+        if (trackPaths && frame.path) {
+          newPath = {
+            nodes: [...frame.path.nodes, otherNode],
+            edges: [...frame.path.edges, edge]
+          };
+          if (visitor.pathComplete) {
+            visitor.pathComplete(newPath, depth + 1);
+          }
+        }
+
+        enter(otherNode, depth + 1, newPath);
+        continue;
+      }
+
+      classified.add(key);
+      if (active.has(otherNode.id)) {
+        if (visitor.backEdge) {
+          visitor.backEdge(edge, sourceNode, targetNode, depth);
+        }
+      } else if (otherOrder > discovered.get(node.id)!) {
+        if (visitor.forwardEdge) {
+          visitor.forwardEdge(edge, sourceNode, targetNode, depth);
+        }
+      } else if (visitor.crossEdge) {
+        visitor.crossEdge(edge, sourceNode, targetNode, depth);
+      }
+    }
+  }
+
   /**
    * Find all paths from a start node that match a pattern defined by the visitor.
    * 
@@ -0,0 +1,250 @@
+import { GraphChange } from "./events";
+import { Graph } from "./graph";
+import { invertChange } from "./transaction";
+
+/**
+ * Options for a graph history
+ */
+export interface GraphHistoryOptions {
+  /** Maximum number of change groups kept for undo; the oldest are discarded first (default: 100) */
+  maxSize?: number;
+}
+
+/**
+ * One undoable step: the changes of one mutation or one batch of mutations
+ */
+export interface HistoryEntry<NodeData = any, EdgeData = any> {
+  /** The changes of the group, in the order they happened */
+  changes: GraphChange<NodeData, EdgeData>[];
+}
+
+/**
+ * Undo/redo history for a graph.
+ *
+ * Every change set the graph delivers to subscribers becomes one undoable
+ * group: a single mutation, a `graph.batch()`, or one `QueryEngine.executeQuery`
+ * call. Only changes made while the history is attached are recorded.
+ *
+ * @example
+ * ```typescript
+ * const history = new GraphHistory(graph, { maxSize: 50 });
+ * engine.executeQuery(graph, "CREATE (t:Task {title: 'Write docs'})");
+ * history.checkpoint('after-import');
+ * graph.removeNode('task1');
+ * history.undo(); // task1 is back
+ * history.restoreCheckpoint('after-import');
+ * ```
+ * @template NodeData Type of data associated with nodes
+ * @template EdgeData Type of data associated with edges
+ */
+export class GraphHistory<NodeData = any, EdgeData = any> {
+  private graph: Graph<NodeData, EdgeData>;
+  private maxSize: number;
+
+  // Recorded groups; those before `position` are applied and can be undone,
+  // those from `position` on were undone and can be redone
+  private entries: HistoryEntry<NodeData, EdgeData>[];
+  private position: number;
+
+  // Number of groups discarded from the front, so checkpoints can refer to
+  // absolute positions that stay valid when old groups are dropped
+  private discarded: number;
+
+  // Maps checkpoint label -> absolute position
+  private checkpoints: Map<string, number>;
+
+  // Set while undoing or redoing, so the resulting changes aren't recorded as a new group
+  private applying: boolean;
+
+  private unsubscribe: () => void;
+
+  /**
+   * Attach a history to a graph
+   * @param graph The graph whose changes are recorded
+   * @param options History options
+   * @throws Error if maxSize is less than 1
+   */
+  constructor(graph: Graph<NodeData, EdgeData>, options: GraphHistoryOptions = {}) {
+    const maxSize = options.maxSize ?? 100;
+    if (!Number.isInteger(maxSize) || maxSize < 1) {
+      throw new Error(`History size must be a positive integer, got ${maxSize}`);
+    }
+
+    this.graph = graph;
+    this.maxSize = maxSize;
+    this.entries = [];
+    this.position = 0;
+    this.discarded = 0;
+    this.checkpoints = new Map();
+    this.applying = false;
+    this.unsubscribe = graph.subscribe(changes => this.record(changes));
+  }
+
+  /**
+   * Whether there is a group that can be undone
+   */
+  canUndo(): boolean {
+    return this.position > 0;
+  }
+
+  /**
+   * Whether there is an undone group that can be redone
+   */
+  canRedo(): boolean {
+    return this.position < this.entries.length;
+  }
+
+  /**
+   * Number of groups that can be undone
+   */
+  get undoSize(): number {
+    return this.position;
+  }
+
+  /**
+   * Number of groups that can be redone
+   */
+  get redoSize(): number {
+    return this.entries.length - this.position;
+  }
+
+  /**
+   * Undo the most recent group of changes
+   * @returns True if a group was undone, false if there was nothing to undo
+   * @throws Error if called while a batch is open
+   */
+  undo(): boolean {
+    if (!this.canUndo()) {
+      return false;
+    }
+    const { changes } = this.entries[this.position - 1];
+    this.apply(changes.map(change => invertChange(change)).reverse());
+    this.position--;
+    return true;
+  }
+
+  /**
+   * Redo the most recently undone group of changes
+   * @returns True if a group was redone, false if there was nothing to redo
+   * @throws Error if called while a batch is open
+   */
+  redo(): boolean {
+    if (!this.canRedo()) {
+      return false;
+    }
+    this.apply(this.entries[this.position].changes);
+    this.position++;
+    return true;
+  }
+
+  /**
+   * Label the current state so it can be restored later. Reusing a label moves it.
+   * @param label Name of the checkpoint
+   */
+  checkpoint(label: string): void {
+    this.checkpoints.set(label, this.discarded + this.position);
+  }
+
+  /**
+   * Undo or redo groups until the graph is back at a checkpoint
+   * @param label Name of the checkpoint
+   * @throws Error if the checkpoint doesn't exist or is no longer reachable
+   */
+  restoreCheckpoint(label: string): void {
+    const target = this.checkpoints.get(label);
+    if (target === undefined) {
+      throw new Error(`Checkpoint "${label}" does not exist`);
+    }
+    const position = target - this.discarded;
+    if (position < 0) {
+      throw new Error(`Checkpoint "${label}" is older than the history size`);
+    }
+    while (this.position > position) {
+      this.undo();
+    }
+    while (this.position < position) {
+      this.redo();
+    }
+  }
+
+  /**
+   * Labels of the checkpoints that can still be restored
+   */
+  getCheckpoints(): string[] {
+    return Array.from(this.checkpoints.keys());
+  }
+
+  /**
+   * Forget all recorded groups and checkpoints
+   */
+  clear(): void {
+    this.entries = [];
+    this.position = 0;
+    this.discarded = 0;
+    this.checkpoints.clear();
+  }
+
+  /**
+   * Stop recording changes. The history can no longer be used afterwards.
+   */
+  dispose(): void {
+    this.unsubscribe();
+    this.clear();
+  }
+
+  private record(changes: GraphChange<NodeData, EdgeData>[]): void {
+    if (this.applying) {
+      return;
+    }
+
+    // A new change makes the undone groups unreachable, along with their checkpoints
+    this.entries.splice(this.position);
+    const end = this.discarded + this.position;
+    for (const [label, target] of this.checkpoints) {
+      if (target > end) {
+        this.checkpoints.delete(label);
+      }
+    }
+
+    this.entries.push({ changes });
+    this.position++;
+
+    if (this.entries.length > this.maxSize) {
+      const overflow = this.entries.length - this.maxSize;
+      this.entries.splice(0, overflow);
+      this.position -= overflow;
+      this.discarded += overflow;
+      for (const [label, target] of this.checkpoints) {
+        if (target < this.discarded) {
+          this.checkpoints.delete(label);
+        }
+      }
+    }
+  }
+
+  /**
+   * Apply changes as one batch. If a change can't be applied (the graph was
+   * modified while the history wasn't attached), the graph is left unchanged.
+   */
+  private apply(changes: GraphChange<NodeData, EdgeData>[]): void {
+    if (this.graph.inBatch()) {
+      throw new Error("Cannot undo or redo while a batch is open");
+    }
+
+    this.applying = true;
+    const transaction = this.graph.beginTransaction();
+    try {
+      this.graph.batch(() => {
+        for (const change of changes) {
+          this.graph.applyChange(change);
+        }
+      });
+      transaction.commit();
+    } catch (error) {
+      transaction.rollback();
+      throw error;
+    } finally {
+      this.applying = false;
+    }
+  }
+}
@@ -1 +1,16 @@
-export * from "./graph";
\ No newline at end of file
+export * from "./graph";
+export * from "./property-index";
+export * from "./constraints";
+export * from "./events";
+export * from "./transaction";
+export * from "./history";
+export * from "./shortest-path";
+export * from "./cycles";
+export * from "./components";
+export * from "./centrality";
+export * from "./community";
+export * from "./similarity";
+export * from "./triangles";
+export * from "./sampling";
+export * from "./merge";
+export * from "./diff";
@@ -0,0 +1,199 @@
+import { Edge, EdgeReference, Graph, Node, NodeId, SubgraphOptions } from "./graph";
+import { isEqual, isPlainObject } from "./data-utils";
+import { findEdge, toEdgeReference, updateEdgeData } from "./algorithm-utils";
+
+/**
+ * Built-in ways to resolve a node or edge that exists in both graphs with different contents:
+ *
+ * - `keepExisting`: leave the element as it is
+ * - `overwrite`: replace its data (and a node's labels) with the incoming ones
+ * - `mergeData`: merge the incoming data into the existing data, recursing into
+ *   nested objects, with incoming values winning; node labels are combined
+ */
+export type MergeStrategy = "keepExisting" | "overwrite" | "mergeData";
+
+/**
+ * Resolve a node conflict: returns the data the node should have. Labels are combined.
+ */
+export type NodeConflictResolver<NodeData> = (existing: Node<NodeData>, incoming: Node<NodeData>) => NodeData;
+
+/**
+ * Resolve an edge conflict: returns the data the edge should have
+ */
+export type EdgeConflictResolver<EdgeData> = (existing: Edge<EdgeData>, incoming: Edge<EdgeData>) => EdgeData;
+
+/**
+ * Options for merging another graph into a graph
+ */
+export interface MergeOptions<NodeData = any, EdgeData = any> extends SubgraphOptions {
+  /** How to resolve nodes with the same ID but different labels or data (default: keepExisting) */
+  onNodeConflict?: MergeStrategy | NodeConflictResolver<NodeData>;
+  /** How to resolve edges with the same ID, or without IDs and with the same source, target and type, but different data (default: keepExisting) */
+  onEdgeConflict?: MergeStrategy | EdgeConflictResolver<EdgeData>;
+}
+
+/**
+ * What merging a graph changed
+ */
+export interface MergeReport {
+  /** Nodes that didn't exist before */
+  addedNodes: NodeId[];
+  /** Conflicting nodes whose labels or data were changed */
+  updatedNodes: NodeId[];
+  /** Nodes that existed in both graphs with different labels or data */
+  conflictingNodes: NodeId[];
+  /** Edges that didn't exist before */
+  addedEdges: EdgeReference[];
+  /** Conflicting edges whose data was changed */
+  updatedEdges: EdgeReference[];
+  /** Edges that existed in both graphs with different data; edges with IDs are matched by ID */
+  conflictingEdges: EdgeReference[];
+}
+
+/**
+ * Merge the nodes and edges of another graph into a graph. Elements that exist
+ * in both with identical contents are skipped; the others are resolved with the
+ * configured strategies. All changes are made in one batch and one transaction,
+ * so subscribers receive a single change set and nothing is kept if a change fails.
+ * @param graph The graph to merge into
+ * @param other The graph to merge from; it isn't changed
+ * @param options Conflict strategies and whether to copy incoming data
+ * @returns What was added, updated and in conflict
+ * @throws ConstraintViolationError if a merged element violates a constraint
+ * @throws Error if an edge ID belongs to edges between different nodes or of different types
+ */
+export function mergeGraphs<NodeData, EdgeData>(
+  graph: Graph<NodeData, EdgeData>,
+  other: Graph<NodeData, EdgeData>,
+  options: MergeOptions<NodeData, EdgeData> = {}
+): MergeReport {
+  const onNodeConflict = options.onNodeConflict ?? "keepExisting";
+  const onEdgeConflict = options.onEdgeConflict ?? "keepExisting";
+  const copyData = options.copyData ?? true;
+  const copy = <T>(data: T): T => copyData ? structuredClone(data) : data;
+  const report: MergeReport = {
+    addedNodes: [],
+    updatedNodes: [],
+    conflictingNodes: [],
+    addedEdges: [],
+    updatedEdges: [],
+    conflictingEdges: []
+  };
+
+  return graph.batch(() => {
+    const transaction = graph.beginTransaction();
+    try {
+      for (const incoming of other.getAllNodes()) {
+        const existing = graph.getNode(incoming.id);
+        if (!existing) {
+          graph.addNode(incoming.id, incoming.labels, copy(incoming.data));
+          report.addedNodes.push(incoming.id);
+          continue;
+        }
+        if (isEqual(existing.labels, incoming.labels) && isEqual(existing.data, incoming.data)) {
+          continue;
+        }
+
+        report.conflictingNodes.push(incoming.id);
+        const { labels, data } = resolveNode(existing, incoming, onNodeConflict);
+        let updated = false;
+        if (!isEqual(labels, existing.labels)) {
+          graph.updateNodeLabel(incoming.id, labels);
+          updated = true;
+        }
+        if (!isEqual(data, existing.data)) {
+          graph.updateNodeData(incoming.id, copy(data));
+          updated = true;
+        }
+        if (updated) {
+          report.updatedNodes.push(incoming.id);
+        }
+      }
+
+      for (const incoming of other.getAllEdges()) {
+        const { id, source, target, label } = incoming;
+        const existing = findEdge(graph, incoming);
+        if (!existing) {
+          graph.addEdge(source, target, label, copy(incoming.data), id);
+          report.addedEdges.push(toEdgeReference(incoming));
+          continue;
+        }
+        if (existing.source !== source || existing.target !== target || existing.label !== label) {
+          throw new Error(`Edge with ID "${id}" connects different nodes or has another type in the two graphs`);
+        }
+        if (isEqual(existing.data, incoming.data)) {
+          continue;
+        }
+
+        report.conflictingEdges.push(toEdgeReference(incoming));
+        const data = typeof onEdgeConflict === "function"
+          ? onEdgeConflict(existing, incoming)
+          : resolveData(existing.data, incoming.data, onEdgeConflict);
+        if (!isEqual(data, existing.data)) {
+          updateEdgeData(graph, incoming, copy(data));
+          report.updatedEdges.push(toEdgeReference(incoming));
+        }
+      }
+
+      transaction.commit();
+      return report;
+    } catch (error) {
+      transaction.rollback();
+      throw error;
+    }
+  });
+}
+
+/**
+ * The labels and data a conflicting node should end up with
+ */
+function resolveNode<NodeData>(
+  existing: Node<NodeData>,
+  incoming: Node<NodeData>,
+  strategy: MergeStrategy | NodeConflictResolver<NodeData>
+): { labels: string[]; data: NodeData } {
+  const combinedLabels = [...existing.labels, ...incoming.labels.filter(label => !existing.labels.includes(label))];
+  if (typeof strategy === "function") {
+    return { labels: combinedLabels, data: strategy(existing, incoming) };
+  }
+  switch (strategy) {
+    case "keepExisting":
+      return { labels: existing.labels, data: existing.data };
+    case "overwrite":
+      return { labels: incoming.labels, data: incoming.data };
+    case "mergeData":
+      return { labels: combinedLabels, data: resolveData(existing.data, incoming.data, strategy) };
+    default:
+      throw new Error(`Unknown merge strategy: ${String(strategy)}`);
+  }
+}
+
+/**
+ * The data a conflicting element should end up with under a built-in strategy
+ */
+function resolveData<T>(existing: T, incoming: T, strategy: MergeStrategy): T {
+  switch (strategy) {
+    case "keepExisting":
+      return existing;
+    case "overwrite":
+      return incoming;
+    case "mergeData":
+      return deepMerge(existing, incoming) as T;
+    default:
+      throw new Error(`Unknown merge strategy: ${String(strategy)}`);
+  }
+}
+
+/**
+ * Merge plain objects recursively; for any other values the incoming one wins
+ */
+function deepMerge(existing: unknown, incoming: unknown): unknown {
+  if (!isPlainObject(existing) || !isPlainObject(incoming)) {
+    return incoming;
+  }
+  const result: Record<string, unknown> = { ...existing };
+  for (const [key, value] of Object.entries(incoming)) {
+    result[key] = key in existing ? deepMerge(existing[key], value) : value;
+  }
+  return result;
+}
@@ -0,0 +1,93 @@
+/**
+ * Binary min-heap of items ordered by a numeric priority.
+ *
+ * Used by the weighted path algorithms. Priorities of queued items can't be
+ * decreased; callers push the item again and skip stale entries when popped.
+ * Items with equal priority are popped in insertion order, which keeps the
+ * algorithms deterministic.
+ * @template T Type of the queued items
+ */
+export class PriorityQueue<T> {
+  // Heap-ordered entries: [priority, insertion sequence, item]
+  private heap: Array<[number, number, T]>;
+  private sequence: number;
+
+  constructor() {
+    this.heap = [];
+    this.sequence = 0;
+  }
+
+  /**
+   * Number of queued items
+   */
+  get size(): number {
+    return this.heap.length;
+  }
+
+  /**
+   * Add an item
+   * @param item The item to add
+   * @param priority Its priority; lower priorities are popped first
+   */
+  push(item: T, priority: number): void {
+    this.heap.push([priority, this.sequence++, item]);
+    this.siftUp(this.heap.length - 1);
+  }
+
+  /**
+   * Remove and return the item with the lowest priority
+   * @returns The item and its priority, or undefined if the queue is empty
+   */
+  pop(): { item: T; priority: number } | undefined {
+    if (this.heap.length === 0) {
+      return undefined;
+    }
+    const [priority, , item] = this.heap[0];
+    const last = this.heap.pop()!;
+    if (this.heap.length > 0) {
+      this.heap[0] = last;
+      this.siftDown(0);
+    }
+    return { item, priority };
+  }
+
+  private less(i: number, j: number): boolean {
+    const a = this.heap[i];
+    const b = this.heap[j];
+    return a[0] < b[0] || (a[0] === b[0] && a[1] < b[1]);
+  }
+
+  private swap(i: number, j: number): void {
+    [this.heap[i], this.heap[j]] = [this.heap[j], this.heap[i]];
+  }
+
+  private siftUp(i: number): void {
+    while (i > 0) {
+      const parent = (i - 1) >>> 1;
+      if (!this.less(i, parent)) {
+        return;
+      }
+      this.swap(i, parent);
+      i = parent;
+    }
+  }
+
+  private siftDown(i: number): void {
+    for (;;) {
+      const left = 2 * i + 1;
+      const right = left + 1;
+      let smallest = i;
+      if (left < this.heap.length && this.less(left, smallest)) {
+        smallest = left;
+      }
+      if (right < this.heap.length && this.less(right, smallest)) {
+        smallest = right;
+      }
+      if (smallest === i) {
+        return;
+      }
+      this.swap(i, smallest);
+      i = smallest;
+    }
+  }
+}
@@ -0,0 +1,266 @@
+import { NodeId } from "./graph";
+
+/**
+ * Property values that can be looked up through an index
+ */
+export type IndexableValue = string | number | boolean | null;
+
+/**
+ * One end of a range lookup
+ */
+export interface IndexBound {
+  /** The bound value; numbers are only compared with numbers and strings with strings */
+  value: string | number;
+  /** Whether values equal to the bound are included */
+  inclusive: boolean;
+}
+
+/**
+ * A lookup that can be answered by a property index
+ */
+export type IndexLookup =
+  | { type: "equals"; value: IndexableValue }
+  | { type: "range"; lower?: IndexBound; upper?: IndexBound }
+  | { type: "prefix"; prefix: string };
+
+/**
+ * Identifies a property index by the label and property it covers
+ */
+export interface PropertyIndexDefinition {
+  /** Label of the indexed nodes */
+  label: string;
+  /** Name of the indexed property */
+  property: string;
+}
+
+/**
+ * Checks whether a value can be used as an equality lookup key.
+ * @param value The value to check
+ * @returns True if the value is a string, number, boolean or null
+ */
+export function isIndexableValue(value: unknown): value is IndexableValue {
+  return value === null || ["string", "number", "boolean"].includes(typeof value);
+}
+
+/**
+ * Secondary index over one property of the nodes carrying one label.
+ *
+ * Keeps a hash index for equality lookups and sorted indexes of the number
+ * and string values for range and prefix lookups. For array properties every
+ * element is indexed for equality, mirroring how patterns match a value
+ * contained in an array property.
+ *
+ * Lookups return the IDs of candidate nodes; callers still evaluate their
+ * predicates against the returned nodes.
+ */
+export class PropertyIndex {
+  readonly label: string;
+  readonly property: string;
+
+  // Maps node ID -> the value that was indexed for it, so entries can be removed
+  // even if the node data was mutated in place
+  private entries: Map<NodeId, unknown>;
+
+  // Maps value -> IDs of nodes with that value (or with an array containing it)
+  private hash: Map<IndexableValue, Set<NodeId>>;
+
+  // Scalar number and string values in ascending order
+  private sortedNumbers: Array<[number, NodeId]>;
+  private sortedStrings: Array<[string, NodeId]>;
+
+  constructor(label: string, property: string) {
+    this.label = label;
+    this.property = property;
+    this.entries = new Map();
+    this.hash = new Map();
+    this.sortedNumbers = [];
+    this.sortedStrings = [];
+  }
+
+  /**
+   * Index a node's data. Nodes without the property are not indexed.
+   * @param id The ID of the node
+   * @param data The data of the node
+   */
+  add(id: NodeId, data: unknown): void {
+    this.remove(id);
+    if (!data || typeof data !== "object" || !(this.property in data)) {
+      return;
+    }
+
+    const value = (data as Record<string, unknown>)[this.property];
+    this.entries.set(id, value);
+
+    for (const key of this.hashKeys(value)) {
+      let ids = this.hash.get(key);
+      if (!ids) {
+        ids = new Set();
+        this.hash.set(key, ids);
+      }
+      ids.add(id);
+    }
+
+    if (typeof value === "number" && !Number.isNaN(value)) {
+      insertSorted(this.sortedNumbers, value, id);
+    } else if (typeof value === "string") {
+      insertSorted(this.sortedStrings, value, id);
+    }
+  }
+
+  /**
+   * Remove a node from the index
+   * @param id The ID of the node
+   */
+  remove(id: NodeId): void {
+    if (!this.entries.has(id)) {
+      return;
+    }
+
+    const value = this.entries.get(id);
+    this.entries.delete(id);
+
+    for (const key of this.hashKeys(value)) {
+      const ids = this.hash.get(key);
+      if (ids) {
+        ids.delete(id);
+        if (ids.size === 0) {
+          this.hash.delete(key);
+        }
+      }
+    }
+
+    if (typeof value === "number") {
+      removeSorted(this.sortedNumbers, value, id);
+    } else if (typeof value === "string") {
+      removeSorted(this.sortedStrings, value, id);
+    }
+  }
+
+  /**
+   * Remove all entries, keeping the index definition
+   */
+  clear(): void {
+    this.entries.clear();
+    this.hash.clear();
+    this.sortedNumbers = [];
+    this.sortedStrings = [];
+  }
+
+  /**
+   * Find the IDs of the nodes that may satisfy a lookup
+   * @param lookup The lookup to answer
+   * @returns IDs of the candidate nodes
+   */
+  lookup(lookup: IndexLookup): NodeId[] {
+    switch (lookup.type) {
+      case "equals":
+        return Array.from(this.hash.get(lookup.value) ?? []);
+      case "range":
+        return this.lookupRange(lookup.lower, lookup.upper);
+      case "prefix":
+        return this.lookupPrefix(lookup.prefix);
+    }
+  }
+
+  /**
+   * Number of nodes that have the indexed property
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  private lookupRange(lower?: IndexBound, upper?: IndexBound): NodeId[] {
+    const boundType = typeof (lower ?? upper)?.value;
+    if (lower && upper && typeof lower.value !== typeof upper.value) {
+      return [];
+    }
+
+    const sorted: Array<[string | number, NodeId]> =
+      boundType === "string" ? this.sortedStrings : this.sortedNumbers;
+
+    let start = 0;
+    if (lower) {
+      start = lower.inclusive
+        ? lowerBound(sorted, lower.value)
+        : upperBound(sorted, lower.value);
+    }
+    let end = sorted.length;
+    if (upper) {
+      end = upper.inclusive
+        ? upperBound(sorted, upper.value)
+        : lowerBound(sorted, upper.value);
+    }
+
+    return sorted.slice(start, Math.max(start, end)).map(([, id]) => id);
+  }
+
+  private lookupPrefix(prefix: string): NodeId[] {
+    const result: NodeId[] = [];
+    for (let i = lowerBound(this.sortedStrings, prefix); i < this.sortedStrings.length; i++) {
+      const [value, id] = this.sortedStrings[i];
+      if (!value.startsWith(prefix)) {
+        break;
+      }
+      result.push(id);
+    }
+    return result;
+  }
+
+  /**
+   * Values a node is reachable under in the hash index: the value itself,
+   * or every (nested) element of an array value.
+   */
+  private hashKeys(value: unknown): IndexableValue[] {
+    if (Array.isArray(value)) {
+      return value.flatMap(item => this.hashKeys(item));
+    }
+    return isIndexableValue(value) ? [value] : [];
+  }
+}
+
+/**
+ * Index of the first entry whose value is not less than the given value
+ */
+function lowerBound<V>(sorted: Array<[V, NodeId]>, value: V): number {
+  let low = 0;
+  let high = sorted.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (sorted[mid][0] < value) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+}
+
+/**
+ * Index of the first entry whose value is greater than the given value
+ */
+function upperBound<V>(sorted: Array<[V, NodeId]>, value: V): number {
+  let low = 0;
+  let high = sorted.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (sorted[mid][0] <= value) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+}
+
+function insertSorted<V>(sorted: Array<[V, NodeId]>, value: V, id: NodeId): void {
+  sorted.splice(upperBound(sorted, value), 0, [value, id]);
+}
+
+function removeSorted<V>(sorted: Array<[V, NodeId]>, value: V, id: NodeId): void {
+  for (let i = lowerBound(sorted, value); i < sorted.length && sorted[i][0] === value; i++) {
+    if (sorted[i][1] === id) {
+      sorted.splice(i, 1);
+      return;
+    }
+  }
+}
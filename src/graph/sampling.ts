@@ -0,0 +1,300 @@
+import { Edge, EdgeDirection, Graph, NodeId, Path } from "./graph";
+import { RandomSource, createRandom, getDistinctNeighborIds, shuffle } from "./algorithm-utils";
+
+/**
+ * Options for random walks
+ */
+export interface RandomWalkOptions {
+  /** Nodes to start walks from (default: every node) */
+  startNodeIds?: NodeId[];
+  /** Number of walks to start from each node (default: 1) */
+  walksPerNode?: number;
+  /** Maximum number of nodes in a walk; walks stop early at nodes without edges to follow (default: 10) */
+  walkLength?: number;
+  /** Direction to follow edges: outgoing, incoming, or both (default: outgoing) */
+  direction?: EdgeDirection;
+  /** Only follow relationships of these types (default: all) */
+  relationshipTypes?: string[];
+  /** node2vec return parameter: higher values make stepping back to the previous node less likely (default: 1) */
+  p?: number;
+  /** node2vec in-out parameter: higher values keep walks near the previous node, lower values push them outwards (default: 1) */
+  q?: number;
+  /** Seed for repeatable walks (default: unseeded) */
+  seed?: number;
+}
+
+/**
+ * Options shared by the sampling functions
+ */
+export interface SampleOptions {
+  /** Only follow, and copy, relationships of these types (default: all) */
+  relationshipTypes?: string[];
+  /** Seed for a repeatable sample (default: unseeded) */
+  seed?: number;
+}
+
+/**
+ * Options for random node sampling
+ */
+export interface RandomNodeSampleOptions extends SampleOptions {
+  /** Number of nodes to sample */
+  size: number;
+}
+
+/**
+ * Options for forest-fire sampling
+ */
+export interface ForestFireSampleOptions extends SampleOptions {
+  /** Number of nodes to sample */
+  size: number;
+  /** Chance to keep burning one more neighbor of a burning node (default: 0.7) */
+  burnProbability?: number;
+  /** Direction in which the fire spreads: outgoing, incoming, or both (default: both) */
+  direction?: EdgeDirection;
+}
+
+/**
+ * Options for k-hop ego sampling
+ */
+export interface EgoSampleOptions extends SampleOptions {
+  /** Number of hops from the center node (default: 1) */
+  depth?: number;
+  /** Direction to follow edges: outgoing, incoming, or both (default: both) */
+  direction?: EdgeDirection;
+  /** Follow at most this many randomly chosen new neighbors of each node (default: all) */
+  fanout?: number;
+}
+
+/**
+ * Generate random walks. With the default p and q every edge of the current
+ * node is equally likely to be followed next; other values bias the walk like
+ * node2vec, weighting a step back to the previous node by 1/p, a step to a
+ * neighbor of the previous node by 1, and any other step by 1/q.
+ * @param graph The graph to walk
+ * @param options Start nodes, walk count and length, direction, bias and seed
+ * @returns The walks, grouped by start node in the given (or insertion) order
+ * @throws Error if p or q isn't a positive number
+ */
+export function randomWalks<NodeData, EdgeData>(
+  graph: Graph<NodeData, EdgeData>,
+  options: RandomWalkOptions = {}
+): Path<NodeData, EdgeData>[] {
+  const walksPerNode = options.walksPerNode ?? 1;
+  const walkLength = options.walkLength ?? 10;
+  const direction = options.direction ?? "outgoing";
+  const relationshipTypes = options.relationshipTypes ?? [];
+  const p = options.p ?? 1;
+  const q = options.q ?? 1;
+  if (!(p > 0) || !(q > 0)) {
+    throw new Error(`Invalid node2vec parameters p=${p}, q=${q}: both must be positive numbers`);
+  }
+
+  const random = createRandom(options.seed);
+  const startIds = options.startNodeIds ?? graph.getAllNodes().map(node => node.id);
+  const edgeCache = new Map<NodeId, Edge<EdgeData>[]>();
+  const getEdges = (id: NodeId): Edge<EdgeData>[] => {
+    let edges = edgeCache.get(id);
+    if (!edges) {
+      edges = graph.getEdgesForNode(id, direction)
+        .filter(edge => relationshipTypes.length === 0 || relationshipTypes.includes(edge.label));
+      edgeCache.set(id, edges);
+    }
+    return edges;
+  };
+  const neighborCache = new Map<NodeId, Set<NodeId>>();
+  const getNeighbors = (id: NodeId): Set<NodeId> => {
+    let neighbors = neighborCache.get(id);
+    if (!neighbors) {
+      neighbors = new Set(getDistinctNeighborIds(graph, id, direction, relationshipTypes));
+      neighborCache.set(id, neighbors);
+    }
+    return neighbors;
+  };
+
+  const walks: Path<NodeData, EdgeData>[] = [];
+  for (const startId of startIds) {
+    const start = graph.getNode(startId);
+    if (!start) {
+      continue;
+    }
+
+    for (let walk = 0; walk < walksPerNode; walk++) {
+      const path: Path<NodeData, EdgeData> = { nodes: [start], edges: [] };
+      let previous: NodeId | undefined;
+      let current = startId;
+      while (path.nodes.length < walkLength) {
+        const edges = getEdges(current);
+        if (edges.length === 0) {
+          break;
+        }
+
+        const next = (edge: Edge<EdgeData>) => edge.source === current ? edge.target : edge.source;
+        let chosen: Edge<EdgeData>;
+        if (previous === undefined || (p === 1 && q === 1)) {
+          chosen = edges[Math.floor(random() * edges.length)];
+        } else {
+          const from = previous;
+          chosen = pickWeighted(edges, edge => {
+            const target = next(edge);
+            return target === from ? 1 / p : getNeighbors(from).has(target) ? 1 : 1 / q;
+          }, random);
+        }
+
+        previous = current;
+        current = next(chosen);
+        path.edges.push(chosen);
+        path.nodes.push(graph.getNode(current)!);
+      }
+      walks.push(path);
+    }
+  }
+
+  return walks;
+}
+
+/**
+ * Sample nodes uniformly at random and copy them, with the edges between them,
+ * into a new graph
+ * @param graph The graph to sample
+ * @param options Sample size, relationship types and seed
+ * @returns The sample, with nodes in their original insertion order
+ */
+export function randomNodeSample<NodeData, EdgeData>(
+  graph: Graph<NodeData, EdgeData>,
+  options: RandomNodeSampleOptions
+): Graph<NodeData, EdgeData> {
+  const ids = shuffle(graph.getAllNodes().map(node => node.id), createRandom(options.seed));
+  return buildSample(graph, new Set(ids.slice(0, Math.max(0, options.size))), options);
+}
+
+/**
+ * Sample nodes by forest fire: starting from a random node, the fire spreads
+ * to a random number of its unburned neighbors, and from each of them onwards,
+ * restarting at another random node when it dies out. The sample keeps the
+ * local structure of the graph better than random nodes do.
+ * @param graph The graph to sample
+ * @param options Sample size, burn probability, direction, relationship types and seed
+ * @returns The burned nodes and the edges between them, in their original insertion order
+ * @throws Error if the burn probability is outside [0, 1)
+ */
+export function forestFireSample<NodeData, EdgeData>(
+  graph: Graph<NodeData, EdgeData>,
+  options: ForestFireSampleOptions
+): Graph<NodeData, EdgeData> {
+  const burnProbability = options.burnProbability ?? 0.7;
+  const direction = options.direction ?? "both";
+  const relationshipTypes = options.relationshipTypes ?? [];
+  if (!(burnProbability >= 0 && burnProbability < 1)) {
+    throw new Error(`Invalid burn probability ${burnProbability}: it must be at least 0 and less than 1`);
+  }
+
+  const random = createRandom(options.seed);
+  const seeds = shuffle(graph.getAllNodes().map(node => node.id), random);
+  const size = Math.min(options.size, seeds.length);
+  const burned = new Set<NodeId>();
+
+  for (const seed of seeds) {
+    if (burned.size >= size) {
+      break;
+    }
+    if (burned.has(seed)) {
+      continue;
+    }
+
+    burned.add(seed);
+    const queue = [seed];
+    for (let i = 0; i < queue.length && burned.size < size; i++) {
+      // The number of neighbors to burn is geometrically distributed
+      let count = 0;
+      while (random() < burnProbability) {
+        count++;
+      }
+
+      const unburned = getDistinctNeighborIds(graph, queue[i], direction, relationshipTypes)
+        .filter(id => !burned.has(id));
+      for (const id of shuffle(unburned, random).slice(0, count)) {
+        if (burned.size >= size) {
+          break;
+        }
+        burned.add(id);
+        queue.push(id);
+      }
+    }
+  }
+
+  return buildSample(graph, burned, options);
+}
+
+/**
+ * Sample the neighborhood of a node: the nodes within a number of hops and the
+ * edges between them. With `fanout`, each node contributes at most that many
+ * randomly chosen new neighbors, which keeps samples around hubs small.
+ * @param graph The graph to sample
+ * @param centerId ID of the center node
+ * @param options Depth, direction, fanout, relationship types and seed
+ * @returns The sample, or undefined if the center node doesn't exist
+ */
+export function egoSample<NodeData, EdgeData>(
+  graph: Graph<NodeData, EdgeData>,
+  centerId: NodeId,
+  options: EgoSampleOptions = {}
+): Graph<NodeData, EdgeData> | undefined {
+  if (!graph.hasNode(centerId)) {
+    return undefined;
+  }
+
+  const depth = options.depth ?? 1;
+  const direction = options.direction ?? "both";
+  const relationshipTypes = options.relationshipTypes ?? [];
+  const random = createRandom(options.seed);
+  const sampled = new Set<NodeId>([centerId]);
+
+  let frontier = [centerId];
+  for (let hop = 0; hop < depth && frontier.length > 0; hop++) {
+    const nextFrontier: NodeId[] = [];
+    for (const id of frontier) {
+      let neighbors = getDistinctNeighborIds(graph, id, direction, relationshipTypes)
+        .filter(neighbor => !sampled.has(neighbor));
+      if (options.fanout !== undefined && neighbors.length > options.fanout) {
+        neighbors = shuffle(neighbors, random).slice(0, options.fanout);
+      }
+      for (const neighbor of neighbors) {
+        sampled.add(neighbor);
+        nextFrontier.push(neighbor);
+      }
+    }
+    frontier = nextFrontier;
+  }
+
+  return buildSample(graph, sampled, options);
+}
+
+/**
+ * Pick an item with probability proportional to its weight
+ */
+function pickWeighted<T>(items: T[], getWeight: (item: T) => number, random: RandomSource): T {
+  const weights = items.map(getWeight);
+  let remaining = random() * weights.reduce((sum, weight) => sum + weight, 0);
+  for (let i = 0; i < items.length; i++) {
+    remaining -= weights[i];
+    if (remaining < 0) {
+      return items[i];
+    }
+  }
+  return items[items.length - 1];
+}
+
+/**
+ * Copy the sampled nodes and the edges between them into a new graph
+ */
+function buildSample<NodeData, EdgeData>(
+  graph: Graph<NodeData, EdgeData>,
+  nodeIds: Set<NodeId>,
+  options: SampleOptions
+): Graph<NodeData, EdgeData> {
+  const relationshipTypes = options.relationshipTypes ?? [];
+  return graph.filter(
+    node => nodeIds.has(node.id),
+    edge => relationshipTypes.length === 0 || relationshipTypes.includes(edge.label)
+  );
+}
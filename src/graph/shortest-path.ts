@@ -0,0 +1,467 @@
+import { Edge, EdgeDirection, Graph, Node, NodeId, Path } from "./graph";
+import { PriorityQueue } from "./priority-queue";
+
+/**
+ * Cost of traversing an edge: a function of the edge, or the name of a numeric
+ * edge property. Costs must be non-negative.
+ */
+export type EdgeWeight<EdgeData = any> = string | ((edge: Edge<EdgeData>) => number);
+
+/**
+ * Options for weighted path finding
+ */
+export interface WeightedPathOptions<EdgeData = any> {
+  /** Cost of traversing an edge (default: every edge costs 1) */
+  weight?: EdgeWeight<EdgeData>;
+  /** Direction to traverse: outgoing (source->target), incoming (target->source), or both (default: outgoing) */
+  direction?: EdgeDirection;
+  /** Only traverse relationships of these types */
+  relationshipTypes?: string[];
+}
+
+/**
+ * A path together with the total cost of its edges
+ * @template NodeData Type of data associated with nodes
+ * @template EdgeData Type of data associated with edges
+ */
+export interface WeightedPath<NodeData = any, EdgeData = any> extends Path<NodeData, EdgeData> {
+  /** Sum of the weights of the edges in the path */
+  cost: number;
+}
+
+/**
+ * Options for A* search
+ */
+export interface AStarOptions<NodeData = any, EdgeData = any> extends WeightedPathOptions<EdgeData> {
+  /**
+   * Estimated cost from a node to the goal. It must not overestimate the real cost
+   * (e.g. straight-line distance for road lengths) for the returned path to be the cheapest.
+   */
+  heuristic: (node: Node<NodeData>, goal: Node<NodeData>) => number;
+}
+
+/**
+ * Outcome of an A* search
+ * @template NodeData Type of data associated with nodes
+ * @template EdgeData Type of data associated with edges
+ */
+export interface AStarResult<NodeData = any, EdgeData = any> {
+  /** The path found, or undefined if the goal is unreachable */
+  path: WeightedPath<NodeData, EdgeData> | undefined;
+  /** Number of nodes whose edges were expanded during the search */
+  expanded: number;
+}
+
+/**
+ * Reaching a node over an edge
+ */
+interface Step<EdgeData> {
+  /** The traversed edge */
+  edge: Edge<EdgeData>;
+  /** The node the edge was traversed from */
+  from: NodeId;
+}
+
+/**
+ * Weighted path options with defaults applied and the weight resolved to a function
+ */
+interface ResolvedOptions<EdgeData> {
+  direction: EdgeDirection;
+  relationshipTypes: string[];
+  weigh: (edge: Edge<EdgeData>) => number;
+  /** Nodes that may not be entered (used by Yen's algorithm) */
+  excludedNodes?: Set<NodeId>;
+  /** Keys of edges that may not be traversed (used by Yen's algorithm) */
+  excludedEdges?: Set<string>;
+}
+
+/**
+ * Find the cheapest path between two nodes using Dijkstra's algorithm
+ * @param graph The graph to search
+ * @param start ID of the start node
+ * @param end ID of the end node
+ * @param options Weight, direction and relationship types to use
+ * @returns The cheapest path, or undefined if either node doesn't exist or end is unreachable
+ * @throws Error if an edge has a negative or non-numeric weight
+ */
+export function findShortestPath<NodeData, EdgeData>(
+  graph: Graph<NodeData, EdgeData>,
+  start: NodeId,
+  end: NodeId,
+  options: WeightedPathOptions<EdgeData> = {}
+): WeightedPath<NodeData, EdgeData> | undefined {
+  if (!graph.hasNode(start) || !graph.hasNode(end)) {
+    return undefined;
+  }
+
+  const { distances, previous } = dijkstra(graph, start, resolveOptions(options), end);
+  const cost = distances.get(end);
+  return cost === undefined ? undefined : buildPath(graph, start, end, previous, cost);
+}
+
+/**
+ * Find every cheapest path between two nodes. Paths that tie in cost are all
+ * returned, including paths that only differ in which of several parallel
+ * edges they take.
+ * @param graph The graph to search
+ * @param start ID of the start node
+ * @param end ID of the end node
+ * @param options Weight, direction and relationship types to use
+ * @returns The cheapest paths, empty if either node doesn't exist or end is unreachable
+ * @throws Error if an edge has a negative or non-numeric weight
+ */
+export function findAllShortestPaths<NodeData, EdgeData>(
+  graph: Graph<NodeData, EdgeData>,
+  start: NodeId,
+  end: NodeId,
+  options: WeightedPathOptions<EdgeData> = {}
+): WeightedPath<NodeData, EdgeData>[] {
+  if (!graph.hasNode(start) || !graph.hasNode(end)) {
+    return [];
+  }
+
+  const { distances, previous } = dijkstra(graph, start, resolveOptions(options), end);
+  const cost = distances.get(end);
+  if (cost === undefined) {
+    return [];
+  }
+
+  // Walk every combination of recorded steps back from the end node. Zero-weight
+  // edges can make the steps cyclic, so only simple paths are followed.
+  const result: WeightedPath<NodeData, EdgeData>[] = [];
+  const nodeIds: NodeId[] = [end];
+  const edges: Edge<EdgeData>[] = [];
+  const visit = (current: NodeId): void => {
+    if (current === start) {
+      result.push({
+        nodes: [...nodeIds].reverse().map(id => graph.getNode(id)!),
+        edges: [...edges].reverse(),
+        cost
+      });
+      return;
+    }
+    for (const step of previous.get(current) ?? []) {
+      if (nodeIds.includes(step.from)) {
+        continue;
+      }
+      nodeIds.push(step.from);
+      edges.push(step.edge);
+      visit(step.from);
+      nodeIds.pop();
+      edges.pop();
+    }
+  };
+  visit(end);
+  return result;
+}
+
+/**
+ * Find the k cheapest simple paths between two nodes using Yen's algorithm
+ * @param graph The graph to search
+ * @param start ID of the start node
+ * @param end ID of the end node
+ * @param k Maximum number of paths to return
+ * @param options Weight, direction and relationship types to use
+ * @returns Up to k loopless paths in order of increasing cost
+ * @throws Error if an edge has a negative or non-numeric weight
+ */
+export function findKShortestPaths<NodeData, EdgeData>(
+  graph: Graph<NodeData, EdgeData>,
+  start: NodeId,
+  end: NodeId,
+  k: number,
+  options: WeightedPathOptions<EdgeData> = {}
+): WeightedPath<NodeData, EdgeData>[] {
+  const first = k >= 1 ? findShortestPath(graph, start, end, options) : undefined;
+  if (!first) {
+    return [];
+  }
+
+  const resolved = resolveOptions(options);
+  const found: WeightedPath<NodeData, EdgeData>[] = [first];
+  const candidates = new PriorityQueue<WeightedPath<NodeData, EdgeData>>();
+  const seen = new Set<string>([pathKey(first)]);
+
+  while (found.length < k) {
+    const last = found[found.length - 1];
+
+    // Deviate from the last path at each of its nodes in turn
+    for (let i = 0; i < last.edges.length; i++) {
+      const spurNode = last.nodes[i].id;
+      const rootNodes = last.nodes.slice(0, i + 1);
+      const rootEdges = last.edges.slice(0, i);
+      const rootKey = rootEdges.map(edgeKey).join("|");
+
+      // Don't repeat the next edge of any found path sharing this root, and
+      // don't revisit the root's nodes, so the spur path yields a new simple path
+      const excludedEdges = new Set<string>();
+      for (const path of found) {
+        if (path.edges.length > i && path.edges.slice(0, i).map(edgeKey).join("|") === rootKey) {
+          excludedEdges.add(edgeKey(path.edges[i]));
+        }
+      }
+      const excludedNodes = new Set(rootNodes.slice(0, -1).map(node => node.id));
+
+      const spur = dijkstra(graph, spurNode, { ...resolved, excludedNodes, excludedEdges }, end);
+      const spurCost = spur.distances.get(end);
+      if (spurCost === undefined) {
+        continue;
+      }
+
+      const spurPath = buildPath(graph, spurNode, end, spur.previous, spurCost);
+      const rootCost = rootEdges.reduce((sum, edge) => sum + resolved.weigh(edge), 0);
+      const candidate: WeightedPath<NodeData, EdgeData> = {
+        nodes: [...rootNodes.slice(0, -1), ...spurPath.nodes],
+        edges: [...rootEdges, ...spurPath.edges],
+        cost: rootCost + spurCost
+      };
+      const key = pathKey(candidate);
+      if (!seen.has(key)) {
+        seen.add(key);
+        candidates.push(candidate, candidate.cost);
+      }
+    }
+
+    const next = candidates.pop();
+    if (!next) {
+      break;
+    }
+    found.push(next.item);
+  }
+
+  return found;
+}
+
+/**
+ * Compute the cost of the cheapest path from a node to every node reachable from it
+ * @param graph The graph to search
+ * @param start ID of the start node
+ * @param options Weight, direction and relationship types to use
+ * @returns Map of reachable node ID -> cost, including the start node with cost 0;
+ *   empty if the start node doesn't exist
+ * @throws Error if an edge has a negative or non-numeric weight
+ */
+export function findShortestPathDistances<NodeData, EdgeData>(
+  graph: Graph<NodeData, EdgeData>,
+  start: NodeId,
+  options: WeightedPathOptions<EdgeData> = {}
+): Map<NodeId, number> {
+  if (!graph.hasNode(start)) {
+    return new Map();
+  }
+  return dijkstra(graph, start, resolveOptions(options)).distances;
+}
+
+/**
+ * Find the cheapest path between two nodes using A* search, guided by a heuristic
+ * estimate of the remaining cost
+ * @param graph The graph to search
+ * @param start ID of the start node
+ * @param end ID of the goal node
+ * @param options Heuristic, weight, direction and relationship types to use
+ * @returns The path (undefined if there is none) and the number of expanded nodes
+ * @throws Error if an edge weight or heuristic value is negative or not a number
+ */
+export function findPathAStar<NodeData, EdgeData>(
+  graph: Graph<NodeData, EdgeData>,
+  start: NodeId,
+  end: NodeId,
+  options: AStarOptions<NodeData, EdgeData>
+): AStarResult<NodeData, EdgeData> {
+  const goal = graph.getNode(end);
+  if (!graph.hasNode(start) || !goal) {
+    return { path: undefined, expanded: 0 };
+  }
+
+  const resolved = resolveOptions(options);
+  const estimate = (id: NodeId): number => {
+    const value = options.heuristic(graph.getNode(id)!, goal);
+    if (typeof value !== "number" || Number.isNaN(value) || value < 0) {
+      throw new Error(`Invalid heuristic value ${String(value)} for node "${id}": estimates must be non-negative numbers`);
+    }
+    return value;
+  };
+
+  const costs = new Map<NodeId, number>([[start, 0]]);
+  const previous = new Map<NodeId, Step<EdgeData>[]>();
+  const queue = new PriorityQueue<{ id: NodeId; cost: number }>();
+  queue.push({ id: start, cost: 0 }, estimate(start));
+  let expanded = 0;
+
+  while (queue.size > 0) {
+    const { id: current, cost } = queue.pop()!.item;
+    // Skip entries superseded by a cheaper route; a node can be expanded again
+    // if a cheaper route to it is found later, so inconsistent heuristics still work
+    if (cost > costs.get(current)!) {
+      continue;
+    }
+    if (current === end) {
+      return { path: buildPath(graph, start, end, previous, cost), expanded };
+    }
+    expanded++;
+
+    for (const { edge, neighbor } of getSteps(graph, current, resolved)) {
+      const candidate = cost + resolved.weigh(edge);
+      const known = costs.get(neighbor);
+      if (known === undefined || candidate < known) {
+        costs.set(neighbor, candidate);
+        previous.set(neighbor, [{ edge, from: current }]);
+        queue.push({ id: neighbor, cost: candidate }, candidate + estimate(neighbor));
+      }
+    }
+  }
+
+  return { path: undefined, expanded };
+}
+
+function resolveOptions<EdgeData>(options: WeightedPathOptions<EdgeData>): ResolvedOptions<EdgeData> {
+  return {
+    direction: options.direction ?? "outgoing",
+    relationshipTypes: options.relationshipTypes ?? [],
+    weigh: resolveWeight(options.weight)
+  };
+}
+
+/**
+ * Turn a weight option into a function that validates the costs it returns
+ */
+function resolveWeight<EdgeData>(weight?: EdgeWeight<EdgeData>): (edge: Edge<EdgeData>) => number {
+  if (weight === undefined) {
+    return () => 1;
+  }
+
+  const read = typeof weight === "function"
+    ? weight
+    : (edge: Edge<EdgeData>) => (edge.data as Record<string, unknown> | undefined)?.[weight] as number;
+
+  return edge => {
+    const cost = read(edge);
+    if (typeof cost !== "number" || Number.isNaN(cost) || cost < 0) {
+      const source = typeof weight === "function" ? "weight function" : `property "${weight}"`;
+      throw new Error(
+        `Invalid weight ${String(cost)} from ${source} for edge (${edge.source})-[:${edge.label}]->(${edge.target}): ` +
+        "weights must be non-negative numbers"
+      );
+    }
+    return cost;
+  };
+}
+
+/**
+ * The edges that can be traversed from a node, with the node each one leads to
+ */
+function getSteps<NodeData, EdgeData>(
+  graph: Graph<NodeData, EdgeData>,
+  id: NodeId,
+  options: ResolvedOptions<EdgeData>
+): Array<{ edge: Edge<EdgeData>; neighbor: NodeId }> {
+  const result: Array<{ edge: Edge<EdgeData>; neighbor: NodeId }> = [];
+  for (const edge of graph.getEdgesForNode(id, options.direction)) {
+    if (options.relationshipTypes.length > 0 && !options.relationshipTypes.includes(edge.label)) {
+      continue;
+    }
+    if (options.excludedEdges?.has(edgeKey(edge))) {
+      continue;
+    }
+    const neighbor =
+      options.direction === "outgoing" ? edge.target
+        : options.direction === "incoming" ? edge.source
+          : edge.source === id ? edge.target : edge.source;
+    if (options.excludedNodes?.has(neighbor)) {
+      continue;
+    }
+    result.push({ edge, neighbor });
+  }
+  return result;
+}
+
+/**
+ * Identifies an edge within a graph
+ */
+function edgeKey(edge: Edge): string {
+  return JSON.stringify([edge.source, edge.target, edge.label, edge.id]);
+}
+
+/**
+ * Identifies a path by the edges it takes
+ */
+function pathKey(path: Path): string {
+  return path.edges.map(edgeKey).join("|");
+}
+
+/**
+ * Dijkstra's algorithm from one node. With an end node, the search stops once
+ * no node as cheap as the end node is left, so every tie for it is recorded.
+ * @returns The cost of every settled node and the steps that reach it at that
+ *   cost, the first of which was found first
+ */
+function dijkstra<NodeData, EdgeData>(
+  graph: Graph<NodeData, EdgeData>,
+  start: NodeId,
+  options: ResolvedOptions<EdgeData>,
+  end?: NodeId
+): { distances: Map<NodeId, number>; previous: Map<NodeId, Step<EdgeData>[]> } {
+  const distances = new Map<NodeId, number>([[start, 0]]);
+  const previous = new Map<NodeId, Step<EdgeData>[]>();
+  const settled = new Set<NodeId>();
+  const queue = new PriorityQueue<NodeId>();
+  queue.push(start, 0);
+
+  while (queue.size > 0) {
+    const { item: current, priority: cost } = queue.pop()!;
+    if (settled.has(current)) {
+      continue;
+    }
+    if (end !== undefined && settled.has(end) && cost > distances.get(end)!) {
+      break;
+    }
+    settled.add(current);
+
+    for (const { edge, neighbor } of getSteps(graph, current, options)) {
+      const candidate = cost + options.weigh(edge);
+      const known = distances.get(neighbor);
+      if (known === undefined || candidate < known) {
+        distances.set(neighbor, candidate);
+        previous.set(neighbor, [{ edge, from: current }]);
+        queue.push(neighbor, candidate);
+      } else if (candidate === known && neighbor !== start) {
+        previous.get(neighbor)!.push({ edge, from: current });
+      }
+    }
+  }
+
+  // Only report settled nodes; tentative costs of unsettled nodes may not be final
+  for (const id of distances.keys()) {
+    if (!settled.has(id)) {
+      distances.delete(id);
+    }
+  }
+  return { distances, previous };
+}
+
+/**
+ * Walk the recorded steps back from the end node to build the path
+ */
+function buildPath<NodeData, EdgeData>(
+  graph: Graph<NodeData, EdgeData>,
+  start: NodeId,
+  end: NodeId,
+  previous: Map<NodeId, Step<EdgeData>[]>,
+  cost: number
+): WeightedPath<NodeData, EdgeData> {
+  const nodeIds: NodeId[] = [end];
+  const edges: Edge<EdgeData>[] = [];
+  let current = end;
+  while (current !== start) {
+    const step = previous.get(current)![0];
+    edges.push(step.edge);
+    nodeIds.push(step.from);
+    current = step.from;
+  }
+
+  return {
+    nodes: nodeIds.reverse().map(id => graph.getNode(id)!),
+    edges: edges.reverse(),
+    cost
+  };
+}
@@ -0,0 +1,241 @@
+import { EdgeDirection, Graph, NodeId } from "./graph";
+import { getDistinctNeighborIds } from "./algorithm-utils";
+
+/**
+ * How to score a pair of nodes from their neighborhoods:
+ *
+ * - `jaccard`: shared neighbors divided by all neighbors of either node
+ * - `overlap`: shared neighbors divided by the neighbors of the node with fewer
+ * - `cosine`: shared neighbors divided by the geometric mean of both neighbor counts
+ * - `commonNeighbors`: number of shared neighbors
+ * - `adamicAdar`: shared neighbors, each weighted by 1 / log of its own neighbor count
+ * - `preferentialAttachment`: product of both neighbor counts
+ */
+export type SimilarityMetric =
+  | "jaccard"
+  | "overlap"
+  | "cosine"
+  | "commonNeighbors"
+  | "adamicAdar"
+  | "preferentialAttachment";
+
+/**
+ * Options for comparing node neighborhoods
+ */
+export interface SimilarityOptions {
+  /** How to score a pair (default: jaccard) */
+  metric?: SimilarityMetric;
+  /** Which edges make nodes neighbors: outgoing, incoming, or both (default: both) */
+  direction?: EdgeDirection;
+  /** Only relationships of these types make nodes neighbors (default: all) */
+  relationshipTypes?: string[];
+}
+
+/**
+ * Options for finding the most similar nodes
+ */
+export interface FindSimilarNodesOptions extends SimilarityOptions {
+  /** Number of most similar nodes to keep per node (default: 10) */
+  topK?: number;
+  /** Only keep pairs scoring at least this much (default: any score above 0) */
+  minScore?: number;
+  /** Only find similar nodes for these nodes (default: all nodes) */
+  nodeIds?: NodeId[];
+  /** Skip pairs that are already neighbors, e.g. to predict new links (default: false) */
+  excludeNeighbors?: boolean;
+  /** Also add an edge of this type from each node to each similar node, e.g. "SIMILAR_TO" */
+  writeRelationshipType?: string;
+  /** Edge data property that receives the score of written edges (default: "score") */
+  writeProperty?: string;
+}
+
+/**
+ * A scored pair of nodes
+ */
+export interface SimilarityResult {
+  /** The node similar nodes were found for */
+  source: NodeId;
+  /** A similar node */
+  target: NodeId;
+  /** The score of the pair */
+  score: number;
+}
+
+/**
+ * Score how similar two nodes are from their neighborhoods. Neighbors are the
+ * distinct nodes `getNeighbors` returns, ignoring self-loops and filtered by
+ * relationship type.
+ * @param graph The graph
+ * @param a ID of one node
+ * @param b ID of the other node
+ * @param options Metric, direction and relationship types
+ * @returns The score, or undefined if either node doesn't exist
+ */
+export function nodeSimilarity<NodeData, EdgeData>(
+  graph: Graph<NodeData, EdgeData>,
+  a: NodeId,
+  b: NodeId,
+  options: SimilarityOptions = {}
+): number | undefined {
+  if (!graph.hasNode(a) || !graph.hasNode(b)) {
+    return undefined;
+  }
+  return new NeighborhoodScorer(graph, options).score(a, b);
+}
+
+/**
+ * Find the most similar nodes for every node (or the given nodes), optionally
+ * adding an edge with the score from each node to each of its similar nodes.
+ * Candidates are nodes that share a neighbor, or all other nodes for
+ * `preferentialAttachment`.
+ * @param graph The graph
+ * @param options Metric, neighborhood, how many pairs to keep and write-back
+ * @returns The pairs grouped by source node in the given (or insertion) order, best first
+ * @throws ConstraintViolationError if a written edge violates a constraint
+ */
+export function findSimilarNodes<NodeData, EdgeData>(
+  graph: Graph<NodeData, EdgeData>,
+  options: FindSimilarNodesOptions = {}
+): SimilarityResult[] {
+  const topK = options.topK ?? 10;
+  const scorer = new NeighborhoodScorer(graph, options);
+  const allIds = graph.getAllNodes().map(node => node.id);
+  const sourceIds = (options.nodeIds ?? allIds).filter(id => graph.hasNode(id));
+
+  const results: SimilarityResult[] = [];
+  for (const source of sourceIds) {
+    const neighbors = scorer.neighbors(source);
+    const candidates = new Set<NodeId>();
+    if (scorer.metric === "preferentialAttachment") {
+      allIds.forEach(id => candidates.add(id));
+    } else {
+      for (const neighbor of neighbors) {
+        scorer.sharers(neighbor).forEach(id => candidates.add(id));
+      }
+    }
+    candidates.delete(source);
+
+    const scored: SimilarityResult[] = [];
+    for (const target of candidates) {
+      if (options.excludeNeighbors && neighbors.has(target)) {
+        continue;
+      }
+      const score = scorer.score(source, target);
+      if (options.minScore === undefined ? score > 0 : score >= options.minScore) {
+        scored.push({ source, target, score });
+      }
+    }
+    // Stable sort keeps equal scores in candidate order
+    scored.sort((x, y) => y.score - x.score);
+    results.push(...scored.slice(0, topK));
+  }
+
+  if (options.writeRelationshipType !== undefined) {
+    writeSimilarityEdges(graph, results, options.writeRelationshipType, options.writeProperty ?? "score");
+  }
+  return results;
+}
+
+/**
+ * Scores node pairs, caching each node's neighbors
+ */
+class NeighborhoodScorer<NodeData, EdgeData> {
+  readonly metric: SimilarityMetric;
+  private readonly graph: Graph<NodeData, EdgeData>;
+  private readonly direction: EdgeDirection;
+  private readonly relationshipTypes: string[];
+  private readonly cache: Map<NodeId, Set<NodeId>>;
+
+  constructor(graph: Graph<NodeData, EdgeData>, options: SimilarityOptions) {
+    this.graph = graph;
+    this.metric = options.metric ?? "jaccard";
+    this.direction = options.direction ?? "both";
+    this.relationshipTypes = options.relationshipTypes ?? [];
+    this.cache = new Map();
+  }
+
+  /**
+   * The neighbors of a node under the configured direction and relationship types
+   */
+  neighbors(id: NodeId): Set<NodeId> {
+    let neighbors = this.cache.get(id);
+    if (!neighbors) {
+      neighbors = new Set(getDistinctNeighborIds(this.graph, id, this.direction, this.relationshipTypes));
+      this.cache.set(id, neighbors);
+    }
+    return neighbors;
+  }
+
+  /**
+   * The nodes that have a node as a neighbor
+   */
+  sharers(id: NodeId): NodeId[] {
+    const reverse = this.direction === "outgoing" ? "incoming" : this.direction === "incoming" ? "outgoing" : "both";
+    return getDistinctNeighborIds(this.graph, id, reverse, this.relationshipTypes);
+  }
+
+  /**
+   * Score a pair of existing nodes with the configured metric
+   */
+  score(a: NodeId, b: NodeId): number {
+    const neighborsA = this.neighbors(a);
+    const neighborsB = this.neighbors(b);
+    if (this.metric === "preferentialAttachment") {
+      return neighborsA.size * neighborsB.size;
+    }
+
+    const shared: NodeId[] = [];
+    for (const id of neighborsA) {
+      if (neighborsB.has(id)) {
+        shared.push(id);
+      }
+    }
+
+    switch (this.metric) {
+      case "jaccard": {
+        const union = neighborsA.size + neighborsB.size - shared.length;
+        return union === 0 ? 0 : shared.length / union;
+      }
+      case "overlap": {
+        const smaller = Math.min(neighborsA.size, neighborsB.size);
+        return smaller === 0 ? 0 : shared.length / smaller;
+      }
+      case "cosine": {
+        const norm = Math.sqrt(neighborsA.size * neighborsB.size);
+        return norm === 0 ? 0 : shared.length / norm;
+      }
+      case "commonNeighbors":
+        return shared.length;
+      case "adamicAdar":
+        // A shared neighbor's own neighbors are counted in both directions, so
+        // it always has at least the pair itself unless a and b are the same node
+        return shared.reduce((sum, id) => {
+          const degree = getDistinctNeighborIds(this.graph, id, "both", this.relationshipTypes).length;
+          return degree > 1 ? sum + 1 / Math.log(degree) : sum;
+        }, 0);
+      default:
+        throw new Error(`Unknown similarity metric: ${String(this.metric)}`);
+    }
+  }
+}
+
+/**
+ * Add or update an edge with the score for every pair, as one batch of changes
+ */
+function writeSimilarityEdges<NodeData, EdgeData>(
+  graph: Graph<NodeData, EdgeData>,
+  results: SimilarityResult[],
+  relationshipType: string,
+  property: string
+): void {
+  graph.batch(() => {
+    for (const { source, target, score } of results) {
+      const existing = graph.getEdge(source, target, relationshipType);
+      if (existing) {
+        graph.updateEdge(source, target, relationshipType, { ...existing.data, [property]: score } as EdgeData);
+      } else {
+        graph.addEdge(source, target, relationshipType, { [property]: score } as EdgeData);
+      }
+    }
+  });
+}
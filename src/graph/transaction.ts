@@ -0,0 +1,135 @@
+import { GraphChange } from "./events";
+
+/**
+ * Lifecycle state of a transaction
+ */
+export type TransactionState = "active" | "committed" | "rolledBack";
+
+/**
+ * Returns the change that undoes the given change.
+ *
+ * Removing a node is undone by adding it back; its edges are restored by
+ * undoing the `edgeRemoved` changes that precede it in the same change set,
+ * so a change set must be inverted in reverse order.
+ * @param change The change to invert
+ * @returns The inverse change
+ */
+export function invertChange<NodeData, EdgeData>(
+  change: GraphChange<NodeData, EdgeData>
+): GraphChange<NodeData, EdgeData> {
+  switch (change.type) {
+    case "nodeAdded":
+      return { type: "nodeRemoved", node: change.node };
+    case "nodeRemoved":
+      return { type: "nodeAdded", node: change.node };
+    case "nodeDataUpdated":
+      return { type: "nodeDataUpdated", id: change.id, oldData: change.newData, newData: change.oldData };
+    case "nodeLabelChanged":
+      return { type: "nodeLabelChanged", id: change.id, oldLabels: change.newLabels, newLabels: change.oldLabels };
+    case "edgeAdded":
+      return { type: "edgeRemoved", edge: change.edge };
+    case "edgeUpdated":
+      return { ...change, oldData: change.newData, newData: change.oldData };
+    case "edgeRemoved":
+      return { type: "edgeAdded", edge: change.edge };
+  }
+}
+
+/**
+ * Operations a transaction needs from the graph that created it
+ */
+export interface TransactionHost<NodeData = any, EdgeData = any> {
+  /** Apply a change to the graph */
+  applyChange(change: GraphChange<NodeData, EdgeData>): void;
+  /** Run mutations as one batch of change events */
+  batch<T>(fn: () => T): T;
+}
+
+/**
+ * Journal of the mutations made to a graph since the transaction began.
+ *
+ * Created by `graph.beginTransaction()`. Every mutation made to the graph
+ * while the transaction is active is recorded, including edges removed
+ * because their node was removed. `rollback()` undoes them in reverse
+ * order; `commit()` keeps them.
+ *
+ * Transactions can be nested. A nested transaction must be finished before
+ * the transaction it was started in; rolling it back only undoes its own
+ * changes.
+ * @template NodeData Type of data associated with nodes
+ * @template EdgeData Type of data associated with edges
+ */
+export class Transaction<NodeData = any, EdgeData = any> {
+  private host: TransactionHost<NodeData, EdgeData>;
+  private onFinish: (transaction: Transaction<NodeData, EdgeData>) => void;
+  private journal: GraphChange<NodeData, EdgeData>[];
+  private currentState: TransactionState;
+
+  /**
+   * @param host The graph the transaction belongs to
+   * @param onFinish Called when the transaction is committed or rolled back,
+   *   before a rollback is applied, so the graph stops recording into it
+   */
+  constructor(
+    host: TransactionHost<NodeData, EdgeData>,
+    onFinish: (transaction: Transaction<NodeData, EdgeData>) => void
+  ) {
+    this.host = host;
+    this.onFinish = onFinish;
+    this.journal = [];
+    this.currentState = "active";
+  }
+
+  /**
+   * Current lifecycle state
+   */
+  get state(): TransactionState {
+    return this.currentState;
+  }
+
+  /**
+   * The changes recorded so far, in the order they happened
+   */
+  get changes(): readonly GraphChange<NodeData, EdgeData>[] {
+    return this.journal;
+  }
+
+  /**
+   * Record a change. Called by the graph for every mutation while the transaction is active.
+   * @param change The change to record
+   */
+  record(change: GraphChange<NodeData, EdgeData>): void {
+    this.journal.push(change);
+  }
+
+  /**
+   * Keep the changes made during the transaction
+   * @throws Error if the transaction is not active
+   */
+  commit(): void {
+    this.finish("committed");
+  }
+
+  /**
+   * Undo the changes made during the transaction, in reverse order.
+   * Subscribers receive the undoing changes as one change set.
+   * @throws Error if the transaction is not active
+   */
+  rollback(): void {
+    this.finish("rolledBack");
+    const journal = this.journal;
+    this.host.batch(() => {
+      for (let i = journal.length - 1; i >= 0; i--) {
+        this.host.applyChange(invertChange(journal[i]));
+      }
+    });
+  }
+
+  private finish(state: TransactionState): void {
+    if (this.currentState !== "active") {
+      throw new Error(`Transaction has already been ${this.currentState === "committed" ? "committed" : "rolled back"}`);
+    }
+    this.onFinish(this);
+    this.currentState = state;
+  }
+}
@@ -259,12 +259,21 @@ export class ConditionEvaluator<NodeData = any, EdgeData = any> {
     this.patternMatcher = patternMatcher;
   }
 
+  /**
+   * Get the options the evaluator was configured with
+   * @returns A copy of the evaluator options, with defaults applied
+   */
+  getOptions(): Required<ConditionEvaluatorOptions> {
+    return { ...this.options };
+  }
+
   private getTypeForValue(value: any): 'node' | 'edge' | 'boolean' | 'number' | 'string' | 'null' | 'undefined' | 'object' | 'array' {
     if (value === null) return 'null';
     if (value === undefined) return 'undefined';
     if (typeof value === 'object') {
-      if ('id' in value && 'data' in value) return 'node'; // Assuming Node has id and data properties
+      // Edges may have an id too, so check for them first
       if ('source' in value && 'target' in value) return 'edge'; // Assuming Edge has source and target properties
+      if ('id' in value && 'data' in value) return 'node'; // Assuming Node has id and data properties
       return 'object'; // Regular object
     }
     if (Array.isArray(value)) return 'array';
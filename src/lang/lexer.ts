@@ -23,6 +23,8 @@ export enum TokenType {
   WITH = 'WITH',
   IS = 'IS',
   RETURN = 'RETURN',
+  CALL = 'CALL',
+  YIELD = 'YIELD',
 
   // Literals
   IDENTIFIER = 'IDENTIFIER', // Variable names, property names
@@ -150,6 +152,8 @@ const KEYWORDS: Record<string, TokenType> = {
   WITH: TokenType.WITH,
   IS: TokenType.IS,
   RETURN: TokenType.RETURN,
+  CALL: TokenType.CALL,
+  YIELD: TokenType.YIELD,
   TRUE: TokenType.BOOLEAN,
   FALSE: TokenType.BOOLEAN,
 };
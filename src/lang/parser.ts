@@ -201,10 +201,30 @@ export interface ReturnClause {
   items: ReturnItem[];
 }
 
+/**
+ * A value passed to a procedure: a literal or a list of literals
+ */
+export type ProcedureArgument = string | number | boolean | null | Array<string | number | boolean | null>;
+
+/**
+ * Represents the CALL clause in a Cypher query
+ * e.g., CALL algo.wcc({relationshipTypes: ['LINKS']}) YIELD node, componentId
+ */
+export interface CallClause {
+  /** The dotted procedure name */
+  procedure: string;
+  /** Named arguments from the argument map */
+  arguments: Record<string, ProcedureArgument>;
+  /** The yielded columns to bind as variables (all columns if omitted) */
+  yield?: string[];
+}
+
 /**
  * Represents a complete Cypher query statement
  */
 export interface CypherStatement {
+  /** The CALL clause (optional) */
+  call?: CallClause;
   /** The MATCH clause (optional) */
   match?: MatchClause;
   /** The WHERE clause (optional) */
@@ -260,7 +280,10 @@ export class Parser {
           detach = true;
         }
 
-        if (this.match(TokenType.MATCH)) {
+        if (this.match(TokenType.CALL)) {
+          if (detach) throw this.error("DETACH cannot be used with CALL");
+          statement.call = this.parseCallClause();
+        } else if (this.match(TokenType.MATCH)) {
           if (detach) throw this.error("DETACH cannot be used with MATCH");
           statement.match = this.parseMatchClause();
         } else if (this.match(TokenType.WHERE)) {
@@ -309,6 +332,7 @@ export class Parser {
     // Skip tokens until we find a clause keyword or reach the end
     while (!this.isAtEnd()) {
       if (
+        this.check(TokenType.CALL) ||
         this.check(TokenType.MATCH) ||
         this.check(TokenType.WHERE) ||
         this.check(TokenType.CREATE) ||
@@ -383,6 +407,63 @@ export class Parser {
     return items;
   }
 
+  /**
+   * Parses a CALL clause (e.g., CALL algo.wcc({relationshipTypes: ['LINKS']}) YIELD node, componentId)
+   * @returns The parsed call clause
+   */
+  private parseCallClause(): CallClause {
+    let procedure = this.consume(TokenType.IDENTIFIER, "Expected procedure name after CALL").value;
+    while (this.match(TokenType.DOT)) {
+      procedure += '.' + this.consume(TokenType.IDENTIFIER, "Expected procedure name after '.'").value;
+    }
+
+    this.consume(TokenType.OPEN_PAREN, "Expected '(' after procedure name");
+    let args: Record<string, ProcedureArgument> = {};
+    if (this.match(TokenType.OPEN_BRACE)) {
+      args = this.parseArgumentMap();
+      this.consume(TokenType.CLOSE_BRACE, "Expected '}' after procedure arguments");
+    }
+    this.consume(TokenType.CLOSE_PAREN, "Expected ')' after procedure arguments");
+
+    const clause: CallClause = { procedure, arguments: args };
+    if (this.match(TokenType.YIELD)) {
+      clause.yield = this.parseList(
+        () => this.consume(TokenType.IDENTIFIER, "Expected column name after YIELD").value,
+        [TokenType.COMMA]
+      );
+    }
+    return clause;
+  }
+
+  /**
+   * Parses a procedure argument map, whose values are literals or lists of literals
+   * (e.g., {relationshipTypes: ['LINKS', 'CITES'], maxIterations: 10})
+   * @returns Object with argument name-value pairs
+   */
+  private parseArgumentMap(): Record<string, ProcedureArgument> {
+    const args: Record<string, ProcedureArgument> = {};
+    if (this.check(TokenType.CLOSE_BRACE)) {
+      return args;
+    }
+
+    do {
+      const key = this.consume(TokenType.IDENTIFIER, "Expected argument name").value;
+      this.consume(TokenType.COLON, "Expected ':' after argument name");
+      if (this.match(TokenType.OPEN_BRACKET)) {
+        const values: Array<string | number | boolean | null> = [];
+        if (!this.check(TokenType.CLOSE_BRACKET)) {
+          values.push(...this.parseList(() => this.parseLiteral(), [TokenType.COMMA]));
+        }
+        this.consume(TokenType.CLOSE_BRACKET, "Expected ']' after list");
+        args[key] = values;
+      } else {
+        args[key] = this.parseLiteral();
+      }
+    } while (this.match(TokenType.COMMA));
+
+    return args;
+  }
+
   /**
    * Parses a MATCH clause
    * @returns The parsed match clause
@@ -462,11 +543,6 @@ export class Parser {
       const label = this.consume(TokenType.IDENTIFIER, "Expected label after ':'").value;
       node.labels.push(label);
     }
-
-    // Currently we only support matching on a single label
-    if (node.labels.length > 1) {
-      throw Error(`Only a single label supported, but got ${node.labels}`);
-    }
   }
 
   /**
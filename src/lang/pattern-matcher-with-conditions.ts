@@ -1,8 +1,8 @@
 // This file extends src/query/pattern-matcher.ts with condition evaluation capabilities
 
-import { Graph, Node, Path, NodeId } from '@/graph';
-import { Expression, WhereClause } from './parser';
-import { PathPattern, PatternMatcher, PatternMatcherOptions } from './pattern-matcher';
+import { Graph, Node, Path, NodeId, getEdgeKey } from '@/graph';
+import { ComparisonExpression, ComparisonOperator, Expression, LiteralExpression, PropertyExpression, WhereClause } from './parser';
+import { NodePattern, PathPattern, PatternMatcher, PatternMatcherOptions, PropertyLookup } from './pattern-matcher';
 import { BindingContext, ConditionEvaluatorOptions, ConditionEvaluator } from './condition-evaluator';
 
 /**
@@ -287,9 +287,13 @@ export class PatternMatcherWithConditions<NodeData = any, EdgeData = any> extend
     const segments = pattern.segments || [];
 
     // --- Initial Node Filtering ---
-    const initialNodesRaw = super.findMatchingNodes(graph, pattern.start);
     const startVar = pattern.start.variable;
     const startPredicates = startVar ? singleVariablePredicates.get(startVar) : undefined;
+    const initialNodesRaw = super.findMatchingNodesWithLookups(
+      graph,
+      pattern.start,
+      this.getPredicateLookups(pattern.start, startPredicates)
+    );
 
     const initialNodesFiltered = initialNodesRaw.filter(node => {
       if (!startPredicates || startPredicates.length === 0) return true;
@@ -469,7 +473,7 @@ export class PatternMatcherWithConditions<NodeData = any, EdgeData = any> extend
     const uniquePathsMap = new Map<string, Path<NodeData, EdgeData>>();
     const pathToString = (p: Path<NodeData, EdgeData>) => {
       const nodeIds = p.nodes.map(n => n.id).join(',');
-      const edgeIds = p.edges.map(e => `${e.source}-${e.label}-${e.target}`).join(',');
+      const edgeIds = p.edges.map(getEdgeKey).join(',');
       return `${nodeIds}|${edgeIds}`;
     };
     for (const path of results) {
@@ -481,6 +485,87 @@ export class PatternMatcherWithConditions<NodeData = any, EdgeData = any> extend
     return Array.from(uniquePathsMap.values());
   }
 
+  /**
+   * Derives property index lookups from pushed-down WHERE predicates on a node variable.
+   * Only top-level comparisons between a property of the variable and a literal qualify;
+   * the predicates themselves are still evaluated against every candidate.
+   * @private
+   */
+  private getPredicateLookups(
+    nodePattern: NodePattern,
+    predicates: Expression[] | undefined
+  ): PropertyLookup[] {
+    // Coerced comparisons can match values stored under a different key or type
+    if (!predicates || this.conditionEvaluator.getOptions().enableTypeCoercion) {
+      return [];
+    }
+
+    const flipped: Partial<Record<ComparisonOperator, ComparisonOperator>> = {
+      [ComparisonOperator.EQUALS]: ComparisonOperator.EQUALS,
+      [ComparisonOperator.LESS_THAN]: ComparisonOperator.GREATER_THAN,
+      [ComparisonOperator.LESS_THAN_OR_EQUALS]: ComparisonOperator.GREATER_THAN_OR_EQUALS,
+      [ComparisonOperator.GREATER_THAN]: ComparisonOperator.LESS_THAN,
+      [ComparisonOperator.GREATER_THAN_OR_EQUALS]: ComparisonOperator.LESS_THAN_OR_EQUALS,
+    };
+
+    const lookups: PropertyLookup[] = [];
+    for (const predicate of predicates) {
+      if (predicate.type !== 'comparison') continue;
+      const { left, right } = predicate as ComparisonExpression;
+      let operator: ComparisonOperator | undefined = (predicate as ComparisonExpression).operator;
+      let property: PropertyExpression;
+      let literal: LiteralExpression;
+
+      if (left.type === 'property' && right.type === 'literal') {
+        property = left;
+        literal = right;
+      } else if (left.type === 'literal' && right.type === 'property') {
+        // e.g. 5 < n.age is n.age > 5
+        property = right;
+        literal = left;
+        operator = flipped[operator];
+      } else {
+        continue;
+      }
+
+      if (property.object.name !== nodePattern.variable || operator === undefined) continue;
+
+      const value = literal.value;
+      switch (operator) {
+        case ComparisonOperator.EQUALS:
+          // null = null holds for nodes without the property, which are not indexed
+          if (value !== null) {
+            lookups.push({ property: property.property, lookup: { type: 'equals', value } });
+          }
+          break;
+        case ComparisonOperator.LESS_THAN:
+        case ComparisonOperator.LESS_THAN_OR_EQUALS:
+        case ComparisonOperator.GREATER_THAN:
+        case ComparisonOperator.GREATER_THAN_OR_EQUALS:
+          if (typeof value === 'number' || typeof value === 'string') {
+            const bound = {
+              value,
+              inclusive: operator === ComparisonOperator.LESS_THAN_OR_EQUALS ||
+                operator === ComparisonOperator.GREATER_THAN_OR_EQUALS
+            };
+            const isUpper = operator === ComparisonOperator.LESS_THAN ||
+              operator === ComparisonOperator.LESS_THAN_OR_EQUALS;
+            lookups.push({
+              property: property.property,
+              lookup: isUpper ? { type: 'range', upper: bound } : { type: 'range', lower: bound }
+            });
+          }
+          break;
+        case ComparisonOperator.STARTS_WITH:
+          if (typeof value === 'string') {
+            lookups.push({ property: property.property, lookup: { type: 'prefix', prefix: value } });
+          }
+          break;
+      }
+    }
+    return lookups;
+  }
+
   /**
    * Access the condition evaluator
    * @returns The condition evaluator instance
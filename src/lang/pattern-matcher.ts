@@ -1,4 +1,4 @@
-import { Graph, Node, NodeId, Edge, Path } from "@/graph";
+import { Graph, Node, NodeId, Edge, Path, IndexLookup, isIndexableValue, getEdgeKey } from "@/graph";
 import { BindingContext } from "./condition-evaluator";
 
 /**
@@ -47,6 +47,16 @@ export interface PathPattern {
   }>;
 }
 
+/**
+ * A lookup on one property of a node pattern that a property index may answer
+ */
+export interface PropertyLookup {
+  /** Name of the property */
+  property: string;
+  /** The lookup to perform on the property's index */
+  lookup: IndexLookup;
+}
+
 
 /**
  * Options for the pattern matcher
@@ -84,12 +94,6 @@ export interface PatternMatcherOptions {
 export class PatternMatcher<NodeData = any, EdgeData = any> {
   private options: Required<PatternMatcherOptions>;
 
-  // Cache for node labels
-  private labelCache: Map<string, NodeId[]> = new Map();
-
-  // Cache for relationship types
-  private typeCache: Map<string, Array<[NodeId, NodeId, string]>> = new Map();
-
   constructor(options: PatternMatcherOptions = {}) {
     this.options = {
       caseSensitiveLabels: options.caseSensitiveLabels ?? false,
@@ -108,14 +112,86 @@ export class PatternMatcher<NodeData = any, EdgeData = any> {
   findMatchingNodes(
     graph: Graph<NodeData, EdgeData>,
     pattern: NodePattern
+  ): Node<NodeData>[] {
+    return this.findMatchingNodesWithLookups(graph, pattern, []);
+  }
+
+  /**
+   * Finds nodes matching a node pattern, narrowing the candidates through a property
+   * index when one covers a pattern property or one of the additional lookups.
+   * Equality lookups are tried before range and prefix lookups.
+   * @param graph The graph to search
+   * @param pattern The node pattern to match
+   * @param lookups Additional lookups the matching nodes are known to satisfy
+   * @returns Array of matching nodes
+   */
+  protected findMatchingNodesWithLookups(
+    graph: Graph<NodeData, EdgeData>,
+    pattern: NodePattern,
+    lookups: PropertyLookup[]
   ): Node<NodeData>[] {
     if (pattern.labels && pattern.labels.length > 0) {
+      const candidateLookups = [...this.getPatternLookups(pattern), ...lookups]
+        .sort((a, b) => Number(a.lookup.type !== 'equals') - Number(b.lookup.type !== 'equals'));
+
+      for (const { property, lookup } of candidateLookups) {
+        const indexedNodes = this.findIndexedNodes(graph, pattern.labels, property, lookup);
+        if (indexedNodes) {
+          return indexedNodes.filter(node => this.matchesNodePattern(node, pattern));
+        }
+      }
+
       const labeledNodes = this.getNodesByLabel(graph, pattern.labels[0]);
       return labeledNodes.filter(node => this.matchesNodePattern(node, pattern));
     }
     return graph.findNodes(node => this.matchesNodePattern(node, pattern));
   }
 
+  /**
+   * Equality lookups implied by the properties of a node pattern
+   * @private
+   */
+  private getPatternLookups(pattern: NodePattern): PropertyLookup[] {
+    // Coerced values can match entries stored under a different key
+    if (this.options.enableTypeCoercion || !pattern.properties) {
+      return [];
+    }
+    return Object.entries(pattern.properties)
+      .filter(([property, value]) => property !== 'id' && isIndexableValue(value))
+      .map(([property, value]) => ({ property, lookup: { type: 'equals' as const, value } }));
+  }
+
+  /**
+   * Looks up the candidate nodes for one of the required labels through a property index.
+   * With case-insensitive labels every case variant of the label must be indexed.
+   * @private
+   * @returns The candidate nodes, or undefined if no index covers the lookup
+   */
+  private findIndexedNodes(
+    graph: Graph<NodeData, EdgeData>,
+    labels: string[],
+    property: string,
+    lookup: IndexLookup
+  ): Node<NodeData>[] | undefined {
+    for (const label of labels) {
+      const variants = this.options.caseSensitiveLabels
+        ? [label]
+        : graph.getLabels().filter(candidate => this.labelMatches([candidate], label));
+      if (variants.length === 0 || !variants.every(variant => graph.hasIndex(variant, property))) {
+        continue;
+      }
+
+      const result = new Map<NodeId, Node<NodeData>>();
+      for (const variant of variants) {
+        for (const node of graph.findNodesByIndex(variant, property, lookup)) {
+          result.set(node.id, node);
+        }
+      }
+      return Array.from(result.values());
+    }
+    return undefined;
+  }
+
   /**
    * Checks if a specific node matches the given node pattern
    * @param node The node to check
@@ -141,7 +217,7 @@ export class PatternMatcher<NodeData = any, EdgeData = any> {
   }
 
   /**
-   * Creates a filtered view of nodes by label
+   * Creates a filtered view of nodes by label, served from the graph's label index
    * @param graph The graph to filter
    * @param label The label to filter by
    * @returns Array of nodes with the given label
@@ -150,18 +226,21 @@ export class PatternMatcher<NodeData = any, EdgeData = any> {
     graph: Graph<NodeData, EdgeData>,
     label: string
   ): Node<NodeData>[] {
-    const normalizedLabel = this.normalizeLabel(label);
-    let nodeIds = this.labelCache.get(normalizedLabel);
-    if (!nodeIds) {
-      const matchingNodes = graph.findNodes(node =>
-        this.labelMatches(this.getNodeLabels(node), label)
-      );
-      nodeIds = matchingNodes.map(node => node.id);
-      this.labelCache.set(normalizedLabel, nodeIds);
+    if (this.options.caseSensitiveLabels) {
+      return graph.getNodesByLabel(label);
+    }
+
+    // Union the index entries of every label that differs only in case;
+    // a node can carry several such variants, so de-duplicate by ID
+    const result = new Map<NodeId, Node<NodeData>>();
+    for (const candidate of graph.getLabels()) {
+      if (this.labelMatches([candidate], label)) {
+        for (const node of graph.getNodesByLabel(candidate)) {
+          result.set(node.id, node);
+        }
+      }
     }
-    return nodeIds
-      .map(id => graph.getNode(id))
-      .filter((node): node is Node<NodeData> => node !== undefined);
+    return Array.from(result.values());
   }
 
 
@@ -305,7 +384,7 @@ export class PatternMatcher<NodeData = any, EdgeData = any> {
   }
 
   /**
-   * Creates a filtered view of relationships by type
+   * Creates a filtered view of relationships by type, served from the graph's type index
    * @param graph The graph to filter
    * @param type The relationship type to filter by
    * @returns Array of relationships with the given type
@@ -314,39 +393,30 @@ export class PatternMatcher<NodeData = any, EdgeData = any> {
     graph: Graph<NodeData, EdgeData>,
     type: string
   ): Edge<EdgeData>[] {
-    // Implementation from previous example...
-    const normalizedType = this.normalizeLabel(type);
-    let edgeIdentifiers = this.typeCache.get(normalizedType);
-    if (!edgeIdentifiers) {
-      const matchingEdges = graph.findEdges(edge =>
-        this.typeMatches(edge.label, type)
-      );
-      edgeIdentifiers = matchingEdges.map(edge => [
-        edge.source,
-        edge.target,
-        edge.label
-      ]);
-      this.typeCache.set(normalizedType, edgeIdentifiers);
+    if (this.options.caseSensitiveLabels) {
+      return graph.getRelationshipsByType(type);
     }
-    return edgeIdentifiers
-      .map(([source, target, label]) => graph.getEdge(source, target, label))
-      .filter((edge): edge is Edge<EdgeData> => edge !== undefined);
+
+    // Each edge has exactly one type, so the per-variant results never overlap
+    return graph.getRelationshipTypes()
+      .filter(candidate => this.typeMatches(candidate, type))
+      .flatMap(candidate => graph.getRelationshipsByType(candidate));
   }
 
 
   /**
    * Clears any internal caches
+   * @deprecated Label and type lookups are served from indexes the graph keeps up to date,
+   * so there is nothing to clear. Kept for backward compatibility.
    */
   clearCache(): void {
-    this.labelCache.clear();
-    this.typeCache.clear();
+    // No-op
   }
 
   // --- Helper Methods (getNodeLabels, labelMatches, typeMatches, etc.) ---
   private getNodeLabels(node: Node<NodeData>): string[] {
-    // For now we only support nodes with a single label, but we keep 
-    // it as an array for future extension
-    return [node.label];
+    // Fall back to the primary label for node objects created outside the graph
+    return node.labels ?? [node.label];
   }
 
   private labelMatches(nodeLabels: string[], requiredLabel: string): boolean {
@@ -522,13 +592,13 @@ export class PatternMatcher<NodeData = any, EdgeData = any> {
     // NOTE: The previous version had a startNodeIds parameter which is now
     // removed in favor of the more generic enrichPatternWithBindings approach
 
-    // State definition for BFS queue
+    // State definition for BFS queue. Paths are bounded by maxPathDepth, so
+    // cycles are detected on the path itself instead of a visited set per state.
     interface QueueState {
       currentNode: Node<NodeData>;
       currentPath: Path<NodeData, EdgeData>;
       segmentIdx: number;
       varHopCount: number;
-      visitedInPath: Set<NodeId>; // Nodes visited in *this specific path expansion*
     }
 
     for (const startNode of initialNodes) {
@@ -537,7 +607,6 @@ export class PatternMatcher<NodeData = any, EdgeData = any> {
         currentPath: { nodes: [startNode], edges: [] },
         segmentIdx: 0,
         varHopCount: 0,
-        visitedInPath: new Set([startNode.id]),
       }];
       let bfsIterations = 0; // Safety break
 
@@ -548,9 +617,9 @@ export class PatternMatcher<NodeData = any, EdgeData = any> {
         }
 
         const currentState = queue.shift()!;
-        const { currentNode, currentPath, segmentIdx, varHopCount, visitedInPath } = currentState;
+        const { currentNode, currentPath, segmentIdx, varHopCount } = currentState;
 
-        // console.log(`\n[DEBUG] Dequeue: Node=${currentNode.id}, PathLen=${currentPath.edges.length}, SegIdx=${segmentIdx}, VarHop=${varHopCount}, Visited=[${Array.from(visitedInPath).join(',')}]`);
+        // console.log(`\n[DEBUG] Dequeue: Node=${currentNode.id}, PathLen=${currentPath.edges.length}, SegIdx=${segmentIdx}, VarHop=${varHopCount}`);
 
 
         if (segmentIdx >= segments.length) {
@@ -585,10 +654,8 @@ export class PatternMatcher<NodeData = any, EdgeData = any> {
 
         // console.log(`[DEBUG]  -> Trying Segment ${segmentIdx}: Rel=${currentRelPattern.type || 'ANY'}(${minHops}..${maxHopsSpecified ?? 'inf'}), TargetNode=${targetNodePattern.labels?.[0] || 'ANY'}, isVariable=${isVariable}, isFinal=${isFinalSegment}`);
 
-        const candidateEdges = this.getCandidateEdges(graph, currentNode.id, currentRelPattern.direction);
-        // console.log(`[DEBUG]  -> Found ${candidateEdges.length} candidate edges from ${currentNode.id}`);
-
-        for (const edge of candidateEdges) {
+        // Edges are produced lazily, so hubs don't materialize all their edges at once
+        for (const edge of this.getCandidateEdges(graph, currentNode.id, currentRelPattern.direction)) {
           const neighborNode = this.getNeighborNode(graph, currentNode.id, edge, currentRelPattern.direction);
           if (!neighborNode) continue;
 
@@ -603,19 +670,6 @@ export class PatternMatcher<NodeData = any, EdgeData = any> {
 
           const newHopCount = varHopCount + 1; // Hops within *this* variable segment attempt
 
-          // --- Prepare potential next path state ---
-          const newPath: Path<NodeData, EdgeData> = {
-            nodes: [...currentPath.nodes, neighborNode],
-            edges: [...currentPath.edges, edge],
-          };
-          // Create a *new* visited set for the next state's branch
-          const newVisited = new Set(visitedInPath).add(neighborNode.id);
-
-          // --- Cycle Check (for continuing exploration) ---
-          // This check prevents queueing states that would revisit a node already in *this specific path's history*
-          const wouldCycle = visitedInPath.has(neighborNode.id);
-          // console.log(`[DEBUG]      -> Cycle Check for Continuation: wouldCycle=${wouldCycle}`);
-
           // --- Check if neighbor matches the target node pattern for *this segment* ---
           // Special check for ID property constraints first - if there's an ID constraint,
           // we need to verify it strictly before doing other pattern matching
@@ -632,6 +686,18 @@ export class PatternMatcher<NodeData = any, EdgeData = any> {
           const matchedTargetNode = this.matchesNodePattern(neighborNode, targetNodePattern);
           // console.log(`[DEBUG]      -> Target Node Check (for Seg ${segmentIdx}): matchedTargetNode=${matchedTargetNode}`);
 
+          // --- Prepare potential next path state ---
+          // Built only once the neighbor passed the ID check
+          const newPath: Path<NodeData, EdgeData> = {
+            nodes: [...currentPath.nodes, neighborNode],
+            edges: [...currentPath.edges, edge],
+          };
+
+          // --- Cycle Check (for continuing exploration) ---
+          // This check prevents queueing states that would revisit a node already in *this specific path's history*
+          const wouldCycle = currentPath.nodes.some(node => node.id === neighborNode.id);
+          // console.log(`[DEBUG]      -> Cycle Check for Continuation: wouldCycle=${wouldCycle}`);
+
 
           // --- Check 1: Does this hop COMPLETE the ENTIRE pattern? ---
           // Must be the final segment, meet min hops, and match the final target node pattern.
@@ -661,7 +727,6 @@ export class PatternMatcher<NodeData = any, EdgeData = any> {
               currentPath: newPath,
               segmentIdx: segmentIdx, // Stay on same segment
               varHopCount: newHopCount,
-              visitedInPath: newVisited,
             });
             // console.log(`[DEBUG]          --> QUEUED Variable Continue: Node=${neighborNode.id}, SegIdx=${segmentIdx}, VarHop=${newHopCount}`);
           }
@@ -676,7 +741,6 @@ export class PatternMatcher<NodeData = any, EdgeData = any> {
               currentPath: newPath,
               segmentIdx: segmentIdx + 1, // Advance segment
               varHopCount: 0,           // Reset hop count
-              visitedInPath: newVisited,
             });
             // console.log(`[DEBUG]          --> QUEUED Next Segment: Node=${neighborNode.id}, SegIdx=${segmentIdx + 1}`);
           }
@@ -697,7 +761,7 @@ export class PatternMatcher<NodeData = any, EdgeData = any> {
     const pathToString = (p: Path<NodeData, EdgeData>) => {
       // Create a consistent string representation (nodes + edge types/ids)
       const nodeIds = p.nodes.map(n => n.id).join(',');
-      const edgeIds = p.edges.map(e => `${e.source}-${e.label}-${e.target}`).join(',');
+      const edgeIds = p.edges.map(getEdgeKey).join(',');
       return `${nodeIds}|${edgeIds}`;
     };
 
@@ -719,20 +783,20 @@ export class PatternMatcher<NodeData = any, EdgeData = any> {
   // --- Helper for findMatchingPaths ---
 
   /**
-   * Gets candidate edges based on direction from a node.
+   * Lazily iterates over the candidate edges based on direction from a node.
    * @private
    */
   private getCandidateEdges(
     graph: Graph<NodeData, EdgeData>,
     nodeId: NodeId,
     direction: RelationshipPattern['direction']
-  ): Edge<EdgeData>[] {
+  ): Iterable<Edge<EdgeData>> {
     // Ensure direction has a default value if undefined (e.g., 'outgoing' or 'both')
     const effectiveDirection = direction || 'outgoing'; // Default to outgoing if not specified? Or 'both'? Let's align with Cypher's default -> which is outgoing.
     // Adjust based on required default behavior. 'both' might be safer if direction '-' is common. Let's use 'both' for safety if unspecified.
     // const effectiveDirection = direction || 'both';
 
-    return graph.getEdgesForNode(nodeId, effectiveDirection);
+    return graph.edgesOf(nodeId, effectiveDirection);
   }
 
   /**
@@ -13,6 +13,7 @@ export * from './query-engine';
 // Export query-related types and classes
 export * from './query-formatter';
 export * from './query-utils';
+export * from './procedures';
 
 
 
@@ -0,0 +1,189 @@
+import {
+  ComponentResult,
+  Graph,
+  NodeId,
+  TriangleOptions,
+  globalClusteringCoefficient,
+  localClusteringCoefficient,
+  triangleCount
+} from '@/graph';
+import { ProcedureArgument } from '@/lang/parser';
+
+/**
+ * One row produced by a procedure, mapping column names to values
+ */
+export type ProcedureRow = Record<string, unknown>;
+
+/**
+ * A procedure that queries can invoke with CALL.
+ *
+ * Each row the procedure returns becomes one binding of the yielded columns, so
+ * the rest of the statement can use them like matched variables:
+ * `CALL algo.wcc() YIELD node, componentId SET node.component = componentId`
+ * @template NodeData Type of data associated with nodes
+ * @template EdgeData Type of data associated with edges
+ */
+export interface Procedure<NodeData = any, EdgeData = any> {
+  /** Dotted name used in CALL, e.g. 'algo.wcc' */
+  name: string;
+  /** Names of the arguments the procedure accepts */
+  arguments: string[];
+  /** Names of the columns of every row, in order */
+  yields: string[];
+  /**
+   * Run the procedure
+   * @param graph The graph the query runs on
+   * @param args The arguments from the CALL clause, already checked against `arguments`
+   * @returns The rows to bind
+   * @throws Error if an argument has an invalid value
+   */
+  call(graph: Graph<NodeData, EdgeData>, args: Record<string, ProcedureArgument>): ProcedureRow[];
+}
+
+/**
+ * Read an optional argument that is a string or a list of strings
+ * @param procedure Name of the procedure, for error messages
+ * @param args The procedure arguments
+ * @param name The argument name
+ * @returns The strings, or undefined if the argument is missing
+ * @throws Error if the argument has another type
+ */
+export function getStringListArgument(
+  procedure: string,
+  args: Record<string, ProcedureArgument>,
+  name: string
+): string[] | undefined {
+  const value = args[name];
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value === 'string') {
+    return [value];
+  }
+  if (Array.isArray(value) && value.every(item => typeof item === 'string')) {
+    return value as string[];
+  }
+  throw new Error(`Argument "${name}" of ${procedure} must be a string or a list of strings`);
+}
+
+/**
+ * Read an optional string argument that must be one of a set of values
+ * @param procedure Name of the procedure, for error messages
+ * @param args The procedure arguments
+ * @param name The argument name
+ * @param allowed The accepted values
+ * @returns The value, or undefined if the argument is missing
+ * @throws Error if the argument isn't one of the accepted values
+ */
+export function getChoiceArgument<T extends string>(
+  procedure: string,
+  args: Record<string, ProcedureArgument>,
+  name: string,
+  allowed: readonly T[]
+): T | undefined {
+  const value = args[name];
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value === 'string' && (allowed as readonly string[]).includes(value)) {
+    return value as T;
+  }
+  throw new Error(`Argument "${name}" of ${procedure} must be one of ${allowed.map(a => `'${a}'`).join(', ')}`);
+}
+
+/**
+ * One row per node: the node, its component number and the component size
+ */
+function componentRows<NodeData, EdgeData>(
+  graph: Graph<NodeData, EdgeData>,
+  { membership, sizes }: ComponentResult
+): ProcedureRow[] {
+  return graph.getAllNodes().map(node => {
+    const componentId = membership.get(node.id)!;
+    return { node, componentId, componentSize: sizes[componentId] };
+  });
+}
+
+/**
+ * One row per node with a value: the node and the value in the given column
+ */
+function nodeValueRows<NodeData, EdgeData>(
+  graph: Graph<NodeData, EdgeData>,
+  values: Map<NodeId, number>,
+  column: string
+): ProcedureRow[] {
+  return Array.from(values, ([id, value]) => ({ node: graph.getNode(id), [column]: value }));
+}
+
+/**
+ * Read the label filter arguments of the triangle procedures
+ */
+function getTriangleOptions(procedure: string, args: Record<string, ProcedureArgument>): TriangleOptions {
+  return {
+    nodeLabels: getStringListArgument(procedure, args, 'nodeLabels'),
+    relationshipTypes: getStringListArgument(procedure, args, 'relationshipTypes')
+  };
+}
+
+/**
+ * Creates the procedures every query engine provides:
+ *
+ * - `algo.wcc({relationshipTypes})` yields `node, componentId, componentSize` for weakly connected components
+ * - `algo.scc({relationshipTypes, algorithm})` yields the same for strongly connected components;
+ *   `algorithm` is `'tarjan'` (default) or `'kosaraju'`
+ * - `algo.triangleCount({nodeLabels, relationshipTypes})` yields `node, triangleCount`
+ * - `algo.localClusteringCoefficient({nodeLabels, relationshipTypes})` yields `node, clusteringCoefficient`
+ * - `algo.globalClusteringCoefficient({nodeLabels, relationshipTypes})` yields a single row with
+ *   `clusteringCoefficient`
+ *
+ * @returns The built-in procedures
+ */
+export function createBuiltInProcedures<NodeData = any, EdgeData = any>(): Procedure<NodeData, EdgeData>[] {
+  return [
+    {
+      name: 'algo.wcc',
+      arguments: ['relationshipTypes'],
+      yields: ['node', 'componentId', 'componentSize'],
+      call: (graph, args) => componentRows(graph, graph.weaklyConnectedComponents({
+        relationshipTypes: getStringListArgument('algo.wcc', args, 'relationshipTypes')
+      }))
+    },
+    {
+      name: 'algo.scc',
+      arguments: ['relationshipTypes', 'algorithm'],
+      yields: ['node', 'componentId', 'componentSize'],
+      call: (graph, args) => componentRows(graph, graph.stronglyConnectedComponents({
+        relationshipTypes: getStringListArgument('algo.scc', args, 'relationshipTypes'),
+        algorithm: getChoiceArgument('algo.scc', args, 'algorithm', ['tarjan', 'kosaraju'] as const)
+      }))
+    },
+    {
+      name: 'algo.triangleCount',
+      arguments: ['nodeLabels', 'relationshipTypes'],
+      yields: ['node', 'triangleCount'],
+      call: (graph, args) => nodeValueRows(
+        graph,
+        triangleCount(graph, getTriangleOptions('algo.triangleCount', args)),
+        'triangleCount'
+      )
+    },
+    {
+      name: 'algo.localClusteringCoefficient',
+      arguments: ['nodeLabels', 'relationshipTypes'],
+      yields: ['node', 'clusteringCoefficient'],
+      call: (graph, args) => nodeValueRows(
+        graph,
+        localClusteringCoefficient(graph, getTriangleOptions('algo.localClusteringCoefficient', args)),
+        'clusteringCoefficient'
+      )
+    },
+    {
+      name: 'algo.globalClusteringCoefficient',
+      arguments: ['nodeLabels', 'relationshipTypes'],
+      yields: ['clusteringCoefficient'],
+      call: (graph, args) => [{
+        clusteringCoefficient: globalClusteringCoefficient(graph, getTriangleOptions('algo.globalClusteringCoefficient', args))
+      }]
+    }
+  ];
+}
@@ -1,4 +1,4 @@
-import { Graph, Node, Edge } from '@/graph';
+import { Graph, Node, Edge, getEdgeKey } from '@/graph';
 import { BindingContext, ConditionEvaluator } from '@/lang/condition-evaluator';
 
 
@@ -82,6 +82,13 @@ export interface ActionExecutionOptions {
    * Whether to validate all actions before executing any
    */
   validateBeforeExecute?: boolean;
+
+  /**
+   * Whether a statement is all-or-nothing. When set, a failure on any match reverts
+   * the changes made for every match of the statement, instead of only the failed one.
+   * Used by the query engine; defaults to false.
+   */
+  atomic?: boolean;
 }
 
 /**
@@ -178,6 +185,15 @@ export class CreateNodeAction<NodeData = any, EdgeData = any> implements QueryAc
       }
     }
 
+    // The new node must satisfy the uniqueness and key constraints of its labels
+    const violation = graph.getNodeConstraintViolation(undefined, this.labels, { ...this.properties } as NodeData);
+    if (violation) {
+      return {
+        valid: false,
+        error: violation.message
+      };
+    }
+
     return { valid: true };
   }
 
@@ -208,7 +224,7 @@ export class CreateNodeAction<NodeData = any, EdgeData = any> implements QueryAc
 
       // Add the node to the graph
       try {
-        graph.addNode(nodeId, this.labels[0], nodeData);
+        graph.addNode(nodeId, this.labels, nodeData);
       } catch (error) {
         return {
           success: false,
@@ -482,6 +498,29 @@ export class SetPropertyAction<NodeData = any, EdgeData = any> {
       };
     }
 
+    // The updated data must still satisfy the uniqueness and key constraints
+    const value = this.conditionEvaluator.evaluateExpression(graph, this.expression, bindings).value;
+    let violation;
+    if ('id' in target && !('source' in target && 'target' in target)) {
+      const node = graph.getNode(target.id);
+      if (node) {
+        const updatedData = { ...(node.data || {}), [this.propertyName]: value } as NodeData;
+        violation = graph.getNodeConstraintViolation(node.id, node.labels, updatedData);
+      }
+    } else {
+      const edge = this.getCurrentEdge(graph, target as Edge<EdgeData>);
+      if (edge) {
+        const updatedData = { ...(edge.data || {}), [this.propertyName]: value } as EdgeData;
+        violation = graph.getEdgeConstraintViolation(edge.source, edge.target, edge.label, updatedData, edge.id);
+      }
+    }
+    if (violation) {
+      return {
+        valid: false,
+        error: violation.message
+      };
+    }
+
     return { valid: true };
   }
 
@@ -553,8 +592,10 @@ export class SetPropertyAction<NodeData = any, EdgeData = any> {
           [this.propertyName]: this.conditionEvaluator.evaluateExpression(graph, this.expression, bindings).value
         } as EdgeData;
 
-        // Update the edge in the graph
-        const updateSuccess = graph.updateEdge(edge.source, edge.target, edge.label, updatedData);
+        // Update the edge in the graph, by ID if it has one so parallel edges stay apart
+        const updateSuccess = edge.id !== undefined
+          ? graph.updateEdgeById(edge.id, updatedData)
+          : graph.updateEdge(edge.source, edge.target, edge.label, updatedData);
 
         if (!updateSuccess) {
           return {
@@ -564,7 +605,7 @@ export class SetPropertyAction<NodeData = any, EdgeData = any> {
         }
 
         // Get the updated edge
-        const updatedEdge = graph.getEdge(edge.source, edge.target, edge.label);
+        const updatedEdge = this.getCurrentEdge(graph, edge);
         if (!updatedEdge) {
           return {
             success: false,
@@ -588,6 +629,15 @@ export class SetPropertyAction<NodeData = any, EdgeData = any> {
     }
   }
 
+  /**
+   * Looks up the current state of a bound edge, by ID if it has one
+   */
+  private getCurrentEdge(graph: Graph<NodeData, EdgeData>, edge: Edge<EdgeData>): Edge<EdgeData> | undefined {
+    return edge.id !== undefined
+      ? graph.getEdgeById(edge.id)
+      : graph.getEdge(edge.source, edge.target, edge.label);
+  }
+
   /**
    * Provides a human-readable description of the action
    */
@@ -691,7 +741,7 @@ export class DeleteAction<NodeData = any, EdgeData = any> {
             const incidentEdges = graph.getEdgesForNode(node.id, 'both');
             for (const edge of incidentEdges) {
               affectedEdges.push({ ...edge }); // Track the edge before deletion
-              graph.removeEdge(edge.source, edge.target, edge.label);
+              this.removeEdge(graph, edge);
             }
           }
 
@@ -704,7 +754,7 @@ export class DeleteAction<NodeData = any, EdgeData = any> {
         else if ('source' in item && 'target' in item) {
           const edge = item as Edge<EdgeData>;
           affectedEdges.push({ ...edge }); // Store a copy
-          graph.removeEdge(edge.source, edge.target, edge.label);
+          this.removeEdge(graph, edge);
           bindings.set(varName, undefined); // Remove from bindings
         } else {
           // Should have been caught by validation, but good to have a fallback
@@ -730,6 +780,19 @@ export class DeleteAction<NodeData = any, EdgeData = any> {
     }
   }
 
+  /**
+   * Removes exactly the given edge, by ID if it has one so parallel edges of the
+   * same type are kept
+   */
+  private removeEdge(graph: Graph<NodeData, EdgeData>, edge: Edge<EdgeData>): void {
+    if (edge.id !== undefined) {
+      graph.removeEdgeById(edge.id);
+    } else if (graph.getEdge(edge.source, edge.target, edge.label)?.id === undefined) {
+      // Once the edge is gone, getEdge may return a parallel edge with an ID
+      graph.removeEdge(edge.source, edge.target, edge.label);
+    }
+  }
+
   /**
    * Provides a human-readable description of the action
    */
@@ -854,8 +917,10 @@ export class ActionExecutor<NodeData = any, EdgeData = any> {
     bindings: any,
     options: ActionExecutionOptions = DEFAULT_EXECUTION_OPTIONS
   ): ActionExecutionResult<NodeData, EdgeData> {
-    const { rollbackOnFailure, validateBeforeExecute } = options;
+    // Options that aren't given keep their defaults
+    const { rollbackOnFailure, validateBeforeExecute } = { ...DEFAULT_EXECUTION_OPTIONS, ...options };
     const actionResults: ActionResult<NodeData, EdgeData>[] = [];
+    const transaction = graph.beginTransaction();
 
     try {
       for (const action of actions) {
@@ -875,6 +940,8 @@ export class ActionExecutor<NodeData = any, EdgeData = any> {
         }
       }
 
+      transaction.commit();
+
       return {
         success: true,
         actionResults,
@@ -882,8 +949,12 @@ export class ActionExecutor<NodeData = any, EdgeData = any> {
         affectedEdges: this.collectAffectedEdges(actionResults),
       };
     } catch (error) {
+      // The transaction journals every mutation, including property updates and
+      // edges removed along with their nodes, so rolling it back restores the graph exactly
       if (rollbackOnFailure) {
-        this.rollbackActions(graph, actions, actionResults);
+        transaction.rollback();
+      } else {
+        transaction.commit();
       }
 
       return {
@@ -896,53 +967,6 @@ export class ActionExecutor<NodeData = any, EdgeData = any> {
     }
   }
 
-  /**
-   * Rolls back the changes made by executed actions using the actions and their results
-   */
-  private rollbackActions(
-    graph: Graph<NodeData, EdgeData>,
-    actions: QueryAction<NodeData, EdgeData>[],
-    actionResults: ActionResult<NodeData, EdgeData>[]
-  ): void {
-    for (let i = actionResults.length - 1; i >= 0; i--) {
-      const result = actionResults[i];
-      const action = actions[i];
-
-      if (result.success) {
-        // Handle rollback based on the action type
-        if (action.type === 'CREATE_NODE') {
-          // For CREATE actions, remove the created nodes and edges
-          if (result.affectedNodes) {
-            for (const node of result.affectedNodes) {
-              graph.removeNode(node.id);
-            }
-          }
-        } else if (action.type === 'CREATE_RELATIONSHIP') {
-          if (result.affectedEdges) {
-            for (const edge of result.affectedEdges) {
-              graph.removeEdge(edge.source, edge.target, edge.label);
-            }
-          }
-        } else if (action.type === 'SET') {
-          // For SET actions, revert the property changes (not implemented yet)
-          // This would require tracking the previous property values in the ActionResult
-        } else if (action.type === 'DELETE') {
-          // For DELETE actions, restore the deleted nodes and edges
-          if (result.affectedNodes) {
-            for (const node of result.affectedNodes) {
-              graph.addNode(node.id, node.label, node.data);
-            }
-          }
-          if (result.affectedEdges) {
-            for (const edge of result.affectedEdges) {
-              graph.addEdge(edge.source, edge.target, edge.label, edge.data);
-            }
-          }
-        }
-      }
-    }
-  }
-
   /**
    * Collects all affected nodes from the action results
    */
@@ -971,16 +995,13 @@ export class ActionExecutor<NodeData = any, EdgeData = any> {
   private collectAffectedEdges(
     actionResults: ActionResult<NodeData, EdgeData>[]
   ): Edge<EdgeData>[] {
-    // Use a map with composite key (source-label-target) to eliminate duplicates
+    // Use a map keyed by edge ID (or source-label-target) to eliminate duplicates
     const uniqueEdges = new Map<string, Edge<EdgeData>>();
 
     for (const result of actionResults) {
       if (result.success && result.affectedEdges) {
         for (const edge of result.affectedEdges) {
-          // Create a composite key from source-label-target
-          const key = `${edge.source}-${edge.label}-${edge.target}`;
-          // Only add the edge if it doesn't already exist in the map
-          uniqueEdges.set(key, edge);
+          uniqueEdges.set(getEdgeKey(edge), edge);
         }
       }
     }
@@ -1,6 +1,6 @@
-import { Graph, Node, Edge, NodeId } from '@/graph';
+import { Graph, Node, Edge, NodeId, Transaction, getEdgeKey } from '@/graph';
 import {
-  Parser, CypherStatement, ReturnClause, PropertyExpression, VariableExpression
+  Parser, CypherStatement, ReturnClause, PropertyExpression, VariableExpression, CallClause
 } from '@/lang/parser';
 import { Lexer } from '@/lang/lexer';
 import { PatternMatcherWithConditions } from '@/lang/pattern-matcher-with-conditions';
@@ -8,6 +8,7 @@ import { BindingContext, ConditionEvaluator } from '@/lang/condition-evaluator';
 import {
   ActionFactory, ActionExecutor, QueryAction, ActionExecutionOptions, ActionExecutionResult
 } from './query-action';
+import { Procedure, createBuiltInProcedures } from './procedures';
 
 import { inspect } from 'unist-util-inspect';
 
@@ -66,7 +67,8 @@ export interface ActionResultData<NodeData = any, EdgeData = any> {
   deletedNodeIds?: NodeId[]; // <-- Add deleted node IDs
 
   /**
-   * Keys (source-label-target) of edges deleted by all actions
+   * Keys of edges deleted by all actions: the edge ID, or source-label-target
+   * for edges without an ID (see `getEdgeKey`)
    */
   deletedEdgeKeys?: string[]; // <-- Add deleted edge keys
 }
@@ -124,6 +126,13 @@ export interface QueryResult<NodeData = any, EdgeData = any> {
    * Action results (if the statement contains CREATE/SET clauses)
    */
   actions?: ActionResultData<NodeData, EdgeData>;
+
+  /**
+   * True if the statement was executed atomically and failed, so every change it made
+   * was reverted: nothing was written to the graph. The affected and deleted lists in
+   * `actions` are then empty, and `actionResults` describes the attempt.
+   */
+  rolledBack?: boolean;
 }
 
 /**
@@ -133,6 +142,7 @@ export class QueryEngine<NodeData = any, EdgeData = any> {
   private patternMatcher: PatternMatcherWithConditions<NodeData, EdgeData>;
   private actionFactory: ActionFactory<NodeData, EdgeData>;
   private actionExecutor: ActionExecutor<NodeData, EdgeData>;
+  private procedures: Map<string, Procedure<NodeData, EdgeData>>;
 
   /**
    * Creates a new query engine
@@ -141,6 +151,27 @@ export class QueryEngine<NodeData = any, EdgeData = any> {
     this.patternMatcher = new PatternMatcherWithConditions<NodeData, EdgeData>();
     this.actionFactory = new ActionFactory<NodeData, EdgeData>();
     this.actionExecutor = new ActionExecutor<NodeData, EdgeData>();
+    this.procedures = new Map();
+    for (const procedure of createBuiltInProcedures<NodeData, EdgeData>()) {
+      this.registerProcedure(procedure);
+    }
+  }
+
+  /**
+   * Registers a procedure that statements can invoke with CALL.
+   * A procedure with the same name is replaced.
+   * @param procedure The procedure to register
+   */
+  registerProcedure(procedure: Procedure<NodeData, EdgeData>): void {
+    this.procedures.set(procedure.name, procedure);
+  }
+
+  /**
+   * Gets the procedures that statements can invoke with CALL
+   * @returns The registered procedures, built-in ones included
+   */
+  getProcedures(): Procedure<NodeData, EdgeData>[] {
+    return Array.from(this.procedures.values());
   }
 
   /**
@@ -149,6 +180,10 @@ export class QueryEngine<NodeData = any, EdgeData = any> {
    * Handles both read operations (RETURN) and write operations (CREATE/SET/DELETE),
    * or a combination of both.
    * 
+   * The statement runs inside a graph transaction, and all changes it makes are delivered
+   * to graph subscribers as one change set. If the statement fails with an error rather
+   * than a failed match, everything it wrote is rolled back.
+   * 
    * @param graph The graph to operate on
    * @param statement The query statement
    * @param options Execution options
@@ -158,6 +193,26 @@ export class QueryEngine<NodeData = any, EdgeData = any> {
     graph: Graph<NodeData, EdgeData>,
     statement: string,
     options?: ActionExecutionOptions
+  ): QueryResult<NodeData, EdgeData> {
+    return graph.batch(() => {
+      const transaction = graph.beginTransaction();
+      const result = this.executeStatement(graph, statement, transaction, options);
+      if (transaction.state === 'active') {
+        transaction.commit();
+      }
+      return result;
+    });
+  }
+
+  /**
+   * Parses and executes a single statement
+   * @private
+   */
+  private executeStatement(
+    graph: Graph<NodeData, EdgeData>,
+    statement: string,
+    transaction: Transaction<NodeData, EdgeData>,
+    options?: ActionExecutionOptions
   ): QueryResult<NodeData, EdgeData> {
     const startTime = Date.now();
 
@@ -183,9 +238,17 @@ export class QueryEngine<NodeData = any, EdgeData = any> {
       }
 
       // Determine if we have read and/or write operations
-      const hasReadOps = !!cypherStatement.return;
       // Update write ops check to include DELETE
       const hasWriteOps = !!(cypherStatement.create || cypherStatement.set || cypherStatement.delete);
+      // A CALL on its own returns the columns it yields
+      if (cypherStatement.call && !cypherStatement.return && !hasWriteOps) {
+        cypherStatement.return = {
+          items: this.getYieldColumns(cypherStatement.call).map(name => ({
+            expression: { type: 'variable', name }
+          }))
+        };
+      }
+      const hasReadOps = !!cypherStatement.return;
 
       // 2. Find all matches for the statement using the updated findMatches
       let matches = this.findMatches(graph, cypherStatement, options);
@@ -237,6 +300,11 @@ export class QueryEngine<NodeData = any, EdgeData = any> {
         let allSuccessful = true;
 
         for (const match of matches) {
+          // In atomic mode the first failure dooms the statement, so stop early
+          if (options?.atomic && !allSuccessful) {
+            break;
+          }
+
           // Create a copy of the binding context to track changes
           const bindingContext = match.createChildContext();
 
@@ -260,10 +328,9 @@ export class QueryEngine<NodeData = any, EdgeData = any> {
             const relResult = this.actionExecutor.executeActions(graph, createRelationshipActions, bindingContext, options);
             allActionResults.push(relResult);
             if (relResult.affectedEdges) {
-              // Add each edge to the map using a composite key
+              // Add each edge to the map using its key
               relResult.affectedEdges.forEach(edge => {
-                const key = `${edge.source}-${edge.label}-${edge.target}`;
-                uniqueAffectedEdges.set(key, edge);
+                uniqueAffectedEdges.set(getEdgeKey(edge), edge);
               });
             }
             if (!relResult.success) {
@@ -281,8 +348,7 @@ export class QueryEngine<NodeData = any, EdgeData = any> {
             }
             if (setResult.affectedEdges) {
               setResult.affectedEdges.forEach(edge => {
-                const key = `${edge.source}-${edge.label}-${edge.target}`;
-                uniqueAffectedEdges.set(key, edge);
+                uniqueAffectedEdges.set(getEdgeKey(edge), edge);
               });
             }
             if (!setResult.success) {
@@ -302,7 +368,7 @@ export class QueryEngine<NodeData = any, EdgeData = any> {
             }
             if (deleteResult.affectedEdges) {
               deleteResult.affectedEdges.forEach(e => {
-                const key = `${e.source}-${e.label}-${e.target}`;
+                const key = getEdgeKey(e);
                 if (!allDeletedEdgeKeys.includes(key)) allDeletedEdgeKeys.push(key);
               });
             }
@@ -315,6 +381,22 @@ export class QueryEngine<NodeData = any, EdgeData = any> {
           updatedMatches.push(bindingContext);
         }
 
+        if (options?.atomic && !allSuccessful) {
+          // Revert the changes of every match, not just the failed one
+          transaction.rollback();
+          result.rolledBack = true;
+          result.error = `Statement rolled back, no changes were written: ${result.error}`;
+          result.actions = {
+            actionResults: allActionResults,
+            affectedNodes: [],
+            affectedEdges: [],
+            deletedNodeIds: [],
+            deletedEdgeKeys: []
+          };
+          result.stats.executionTimeMs = Date.now() - startTime;
+          return result;
+        }
+
         // Always use the updated bindings after action execution
         if (updatedMatches.length > 0) {
           matches = updatedMatches;
@@ -346,6 +428,8 @@ export class QueryEngine<NodeData = any, EdgeData = any> {
       return result;
     }
     catch (error: any) {
+      // Don't leave the statement half-applied
+      transaction.rollback();
       return {
         success: false,
         matchCount: 0,
@@ -375,7 +459,19 @@ export class QueryEngine<NodeData = any, EdgeData = any> {
   ): BindingContext<NodeData, EdgeData>[] {
     let matches: BindingContext<NodeData, EdgeData>[] = [];
 
-    if (cypherStatement.match) {
+    if (cypherStatement.call) {
+      matches = this.callProcedure(graph, cypherStatement.call);
+      if (cypherStatement.match) {
+        // WHERE may refer to yielded columns, so it's applied after joining
+        const patternMatches = this.patternMatcher.executeMatchQuery(graph, cypherStatement.match.patterns);
+        matches = this.joinBindings(matches, patternMatches);
+      }
+      if (cypherStatement.where?.condition) {
+        matches = matches.filter(binding =>
+          this.patternMatcher.getConditionEvaluator().evaluateCondition(graph, cypherStatement.where!.condition, binding)
+        );
+      }
+    } else if (cypherStatement.match) {
       // Directly use executeMatchQuery which handles single/multiple patterns and WHERE clause
       matches = this.patternMatcher.executeMatchQuery(
         graph,
@@ -398,6 +494,91 @@ export class QueryEngine<NodeData = any, EdgeData = any> {
     return matches;
   }
 
+  /**
+   * Runs the procedure of a CALL clause and binds the yielded columns of each row
+   * @param graph The graph to run the procedure on
+   * @param call The CALL clause
+   * @returns One binding context per row
+   * @throws Error if the procedure, an argument or a yielded column is unknown
+   */
+  private callProcedure(
+    graph: Graph<NodeData, EdgeData>,
+    call: CallClause
+  ): BindingContext<NodeData, EdgeData>[] {
+    const columns = this.getYieldColumns(call);
+    const procedure = this.procedures.get(call.procedure)!;
+    for (const name of Object.keys(call.arguments)) {
+      if (!procedure.arguments.includes(name)) {
+        throw new Error(`Unknown argument "${name}" for procedure ${procedure.name}`);
+      }
+    }
+
+    return procedure.call(graph, call.arguments).map(row => {
+      const binding = new BindingContext<NodeData, EdgeData>();
+      for (const column of columns) {
+        binding.set(column, row[column]);
+      }
+      return binding;
+    });
+  }
+
+  /**
+   * Gets the columns a CALL clause binds: the YIELD list, or every column of the procedure
+   * @throws Error if the procedure is unknown or doesn't yield a listed column
+   */
+  private getYieldColumns(call: CallClause): string[] {
+    const procedure = this.procedures.get(call.procedure);
+    if (!procedure) {
+      throw new Error(`Unknown procedure: ${call.procedure}`);
+    }
+    for (const column of call.yield ?? []) {
+      if (!procedure.yields.includes(column)) {
+        throw new Error(
+          `Procedure ${procedure.name} does not yield "${column}", it yields: ${procedure.yields.join(', ')}`
+        );
+      }
+    }
+    return call.yield ?? procedure.yields;
+  }
+
+  /**
+   * Combines every procedure row with every pattern match that binds their shared
+   * variables to the same values. Nodes and edges are compared by identity.
+   */
+  private joinBindings(
+    rows: BindingContext<NodeData, EdgeData>[],
+    patternMatches: BindingContext<NodeData, EdgeData>[]
+  ): BindingContext<NodeData, EdgeData>[] {
+    const sameValue = (a: unknown, b: unknown): boolean => {
+      if (this.isEdge(a) && this.isEdge(b)) {
+        return getEdgeKey(a) === getEdgeKey(b);
+      }
+      if (this.isNode(a) && this.isNode(b)) {
+        return a.id === b.id;
+      }
+      return a === b;
+    };
+
+    const joined: BindingContext<NodeData, EdgeData>[] = [];
+    for (const row of rows) {
+      const rowVariables = row.getVariableNames();
+      for (const match of patternMatches) {
+        const shared = match.getVariableNames().filter(name => rowVariables.includes(name));
+        if (!shared.every(name => sameValue(row.get(name), match.get(name)))) {
+          continue;
+        }
+        const binding = match.createChildContext();
+        for (const name of rowVariables) {
+          if (!shared.includes(name)) {
+            binding.set(name, row.get(name));
+          }
+        }
+        joined.push(binding);
+      }
+    }
+    return joined;
+  }
+
   /**
    * Extracts query data from binding contexts and a RETURN clause
    * 
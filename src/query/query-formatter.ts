@@ -1,5 +1,5 @@
 import { ReturnedValue, QueryResult, QueryResultData } from './query-engine';
-import { Graph, Node, Edge } from '@/graph';
+import { Graph, Node, Edge, getEdgeKey } from '@/graph';
 
 /**
  * Options for formatting query results
@@ -143,9 +143,7 @@ export class QueryFormatter<NodeData = any, EdgeData = any> {
 
       if (opts.includeIds) {
         response.actions.affectedNodes = result.actions.affectedNodes.map(node => node.id);
-        response.actions.affectedEdges = result.actions.affectedEdges.map(edge =>
-          `${edge.source}-${edge.label}-${edge.target}`
-        );
+        response.actions.affectedEdges = result.actions.affectedEdges.map(getEdgeKey);
       }
     }
 
@@ -262,17 +260,12 @@ export class QueryFormatter<NodeData = any, EdgeData = any> {
 
     if (value.type === 'node') {
       const node = value.value;
-      // Format nodes as [Label]:id {props} or [Label]{props} based on includeIds option
-      const labels = node.data.labels ? `[${node.data.labels.join(':')}]` : '';
+      // Format nodes as [Label1:Label2]:id {props} or [Label1:Label2] {props} based on includeIds option
+      const nodeLabels: string[] = node.labels ?? (node.label ? [node.label] : []);
+      const labels = nodeLabels.length > 0 ? `[${nodeLabels.join(':')}]` : '';
       const nodeId = options.includeIds ? `:${node.id}` : '';
 
-      // Create a simplified props object without labels
-      const props = { ...node.data };
-      if (props.labels) {
-        delete props.labels;
-      }
-
-      valueStr = `${labels}${nodeId} {${this.formatProps(props)}}`;
+      valueStr = `${labels}${nodeId} {${this.formatProps(node.data)}}`;
     }
     else if (value.type === 'edge') {
       const edge = value.value;
@@ -319,6 +312,7 @@ export class QueryFormatter<NodeData = any, EdgeData = any> {
       const node = value.value;
       const result: Record<string, any> = {
         type: 'node',
+        labels: node.labels ?? [node.label],
         data: node.data
       };
 
@@ -1,5 +1,5 @@
 import { ReturnedValue, QueryResult, QueryResultData } from './query-engine';
-import { Graph, Node, Edge } from '@/graph';
+import { Graph, Node, Edge, Path, getEdgeKey } from '@/graph';
 
 /**
  * Utility functions for working with query results
@@ -155,12 +155,10 @@ export class QueryUtils<NodeData = any, EdgeData = any> {
       }
     }
 
-    // Remove duplicates using composite key since Edge doesn't have an id
+    // Remove duplicates using the edge ID, or a composite key for edges without one
     const uniqueEdges = new Map<string, Edge<EdgeData>>();
     for (const edge of edges) {
-      // Create a composite key from source-label-target as the unique identifier
-      const key = `${edge.source}-${edge.label}-${edge.target}`;
-      uniqueEdges.set(key, edge);
+      uniqueEdges.set(getEdgeKey(edge), edge);
     }
 
     return Array.from(uniqueEdges.values());
@@ -183,7 +181,7 @@ export class QueryUtils<NodeData = any, EdgeData = any> {
 
     // Add nodes to the subgraph
     for (const node of nodes) {
-      subgraph.addNode(node.id, node.label, { ...node.data });
+      subgraph.addNode(node.id, node.labels, { ...node.data });
     }
 
     // Add edges to the subgraph
@@ -194,7 +192,8 @@ export class QueryUtils<NodeData = any, EdgeData = any> {
           edge.source,
           edge.target,
           edge.label,
-          { ...edge.data }
+          { ...edge.data },
+          edge.id
         );
       }
     }
@@ -250,6 +249,59 @@ export class QueryUtils<NodeData = any, EdgeData = any> {
     return queryData.rows[0][columnIndex].value;
   }
 
+  /**
+   * Wraps paths (e.g. from `graph.kShortestPaths`) in a query result, so they can be
+   * formatted with QueryFormatter or turned into a subgraph with toSubgraph
+   * 
+   * Each path becomes one row with alternating node and relationship columns
+   * (`n0`, `r0`, `n1`, ...), padded with nulls for shorter paths, followed by a
+   * `cost` column if the paths have a cost.
+   * 
+   * @param paths The paths to wrap
+   * @returns A successful query result with one row per path
+   */
+  fromPaths(
+    paths: Array<Path<NodeData, EdgeData> & { cost?: number }>
+  ): QueryResult<NodeData, EdgeData> {
+    const maxEdges = Math.max(0, ...paths.map(path => path.edges.length));
+    const hasCost = paths.length > 0 && paths.every(path => typeof path.cost === 'number');
+
+    const columns: string[] = [];
+    for (let i = 0; i <= maxEdges; i++) {
+      columns.push(`n${i}`);
+      if (i < maxEdges) {
+        columns.push(`r${i}`);
+      }
+    }
+    if (hasCost) {
+      columns.push('cost');
+    }
+
+    const rows = paths.map(path => columns.map((name): ReturnedValue<NodeData, EdgeData> => {
+      const index = Number(name.slice(1));
+      const value = name === 'cost' ? path.cost
+        : name.startsWith('n') ? path.nodes[index]
+          : path.edges[index];
+      if (value === undefined) {
+        return { value: null, type: 'null' };
+      }
+      const type = name === 'cost' ? 'number' : name.startsWith('n') ? 'node' : 'edge';
+      return { value, type };
+    }));
+
+    return {
+      success: true,
+      matchCount: paths.length,
+      statement: 'PATHS',
+      stats: {
+        readOperations: true,
+        writeOperations: false,
+        executionTimeMs: 0
+      },
+      query: { columns, rows }
+    };
+  }
+
   /**
    * Combines multiple query results into a single result
    * (Only works if all results have the same columns)